@@ -0,0 +1,179 @@
+import chalk from 'chalk';
+import { getServiceConfig, getWorkspaceRoot, getDeployRepoPath, loadConfig } from '../config/loader.js';
+import { getPrimaryServer, type DeploymentResult, type PendingRelease, type ServiceConfig } from '../config/types.js';
+import { getCommitByRef, getLastCommitHash, gitFastForward, gitFetchRef, gitImportTag, tagExists } from '../utils/git.js';
+import { DEFAULT_APPROVAL_EXPIRY, getApproval, getPendingRef, getServerIdentity, isSameIdentity, readPendingRelease, removePendingRelease, removeRequestedRelease, dropReleaseCommit } from '../utils/approval.js';
+import { formatUptime } from '../utils/inspect.js';
+import { enforceDeployWindow, type FreezeOptions } from '../utils/windows.js';
+import { initDeployRepoIfNeeded } from './stage.js';
+import { ensureRemotes, pushRelease } from './release.js';
+import { lockService, unlockService } from './deploy.js';
+import { print, printError, emitEvent, emitResult } from '../utils/output.js';
+
+interface ApproveOptions extends FreezeOptions {
+  /** Discard the pending release instead of pushing it (its changes stay staged) */
+  reject?: boolean;
+}
+
+/**
+ * Check if an id given to gpd approve names the pending release:
+ * a prefix of its full commit hash, at least as long as git's shortest abbreviation (4)
+ */
+function isPendingReleaseId(commit: string, id: string): boolean {
+  if (!/^[0-9a-f]{4,40}$/i.test(id)) return false;
+  return commit.startsWith(id.toLowerCase());
+}
+
+/**
+ * Fetch the pending release from the primary server into the deploy repo (any clone can approve it)
+ * @returns Object of the pending ref: the release commit, or its annotated tag
+ */
+function fetchPendingRelease(serviceName: string, deployRepoPath: string, pending: PendingRelease): string {
+  try {
+    // origin is the primary server (see ensureRemotes)
+    return gitFetchRef(deployRepoPath, 'origin', getPendingRef(pending.id));
+  } catch {
+    throw new Error(`Release ${pending.id} of ${serviceName} is missing on the server (${getPendingRef(pending.id)}). ` +
+      `Reject it (gpd approve ${serviceName} ${pending.id} --reject) and deploy again.`);
+  }
+}
+
+/**
+ * Show the release waiting for approval (gpd approve <service> without an id)
+ */
+function showPendingRelease(serviceName: string, pending: PendingRelease | undefined): void {
+  emitResult({ service: serviceName, pending: pending || null });
+  if (!pending) {
+    print(chalk.gray(`No release of ${serviceName} is waiting for approval`));
+    return;
+  }
+  
+  const age = formatUptime(Math.round((Date.now() - new Date(pending.requestedAt).getTime()) / 1000));
+  print(chalk.blue(`Release of ${serviceName} waiting for approval:`));
+  print(chalk.white(`  ${pending.id}`) + chalk.gray(` ${pending.commitMessage}`));
+  print(chalk.gray(`  Requested by ${pending.requestedBy}, ${age} ago${pending.tag ? ` (tag ${pending.tag})` : ''}`));
+  print(chalk.gray(`  Approve: gpd approve ${serviceName} ${pending.id}`));
+  print(chalk.gray(`  Reject:  gpd approve ${serviceName} ${pending.id} --reject`));
+}
+
+/**
+ * Drop a pending release: remove it from the server, and undo its commit if this clone requested it
+ * (changes stay staged). The requester's clone drops it on its next deploy (see assertNoPendingRelease).
+ */
+async function rejectRelease(serviceName: string, config: ServiceConfig, deployRepoPath: string, pending: PendingRelease): Promise<void> {
+  await removePendingRelease(config, pending.id);
+  const dropped = dropReleaseCommit(deployRepoPath, pending);
+  
+  emitEvent('rejected', { service: serviceName, id: pending.id, requestedBy: pending.requestedBy });
+  emitResult({ service: serviceName, success: true, rejected: true, id: pending.id });
+  print(chalk.yellow(`✓ Rejected release ${pending.id} of ${serviceName}` + (dropped
+    ? ' (its changes are still staged in the deploy repo)'
+    : ` (${pending.requestedBy}'s deploy repo drops its commit on their next deploy)`)));
+}
+
+/**
+ * Approve command - push a release that waits for a second person (two-person rule)
+ * 
+ * With `approval.required` for the environment (or service), `gpd deploy` and `gpd release`
+ * commit the release and leave it on the primary server instead of pushing it to the branch.
+ * Someone else approves it from any clone: the commit is fetched from the server and pushed
+ * under the deploy lock with the usual rollout, health checks, auto-rollback and notifications.
+ * 
+ * Requester and approver are told apart by the identity the server sees (see getServerIdentity),
+ * not by the local git config. Refused if the approver is the requester (same name), if the
+ * approver's deploy repo is neither at the release nor where it was requested on top of,
+ * if the approval expired (approval.expiresAfter) or outside the deploy windows.
+ * 
+ * Usage:
+ *   gpd approve <service>                  # show the pending release
+ *   gpd approve <service> <id>           # id: short hash of the release commit (any prefix of 4+ characters)
+ *   gpd approve <service> <id> --reject
+ */
+export async function approveCommand(serviceName: string, id: string | undefined, options: ApproveOptions = {}): Promise<void> {
+  const config = getServiceConfig(serviceName);
+  const pending = await readPendingRelease(config);
+  
+  if (!id) {
+    showPendingRelease(serviceName, pending);
+    return;
+  }
+  if (!pending) {
+    throw new Error(`No release of ${serviceName} is waiting for approval`);
+  }
+  
+  // 1. The release, from the server
+  const deployRepoPath = getDeployRepoPath(config, getWorkspaceRoot());
+  const primary = getPrimaryServer(config);
+  initDeployRepoIfNeeded(deployRepoPath, primary.host, primary.bareRepo, primary.sshOptions);
+  ensureRemotes(deployRepoPath, serviceName);
+  const fetched = fetchPendingRelease(serviceName, deployRepoPath, pending);
+  const commit = getCommitByRef(deployRepoPath, fetched);
+  if (!isPendingReleaseId(commit, id)) {
+    throw new Error(`Release ${id} of ${serviceName} is not waiting for approval (pending: ${pending.id})`);
+  }
+  
+  if (options.reject) {
+    await rejectRelease(serviceName, config, deployRepoPath, pending);
+    return;
+  }
+  
+  // 2. Two-person rule
+  const approvedBy = await getServerIdentity(primary);
+  if (isSameIdentity(approvedBy, pending.requestedBy)) {
+    throw new Error(`Release ${pending.id} was requested by ${pending.requestedBy} and needs approval by someone else`);
+  }
+  
+  // 3. The release is still what was requested, and recent enough
+  // This clone is at the release (it was requested here), where it was requested on top of, or new
+  const head = getLastCommitHash(deployRepoPath);
+  if (head && head !== pending.commitHash && head !== pending.previousCommit) {
+    throw new Error(`Deploy repo of ${serviceName} is at ${head}, release ${pending.id} was requested on top of ${pending.previousCommit || 'nothing'}. ` +
+      `Reject it (gpd approve ${serviceName} ${pending.id} --reject) and deploy again.`);
+  }
+  const expiresAfter = getApproval(loadConfig(), config).expiresAfter ?? DEFAULT_APPROVAL_EXPIRY;
+  const age = Math.round((Date.now() - new Date(pending.requestedAt).getTime()) / 1000);
+  if (age > expiresAfter) {
+    throw new Error(`Release ${pending.id} was requested ${formatUptime(age)} ago, approvals expire after ${formatUptime(expiresAfter)}. ` +
+      `Reject it (gpd approve ${serviceName} ${pending.id} --reject) and deploy again.`);
+  }
+  
+  // 4. The push happens now, so the deploy windows apply now
+  const freezeOverride = enforceDeployWindow(config, options);
+  
+  print(chalk.blue(`Approving release ${pending.id} of ${serviceName} (requested by ${pending.requestedBy})...`));
+  emitEvent('approved', { service: serviceName, id: pending.id, requestedBy: pending.requestedBy, approvedBy });
+  
+  // 5. Push under the approver's deploy lock
+  const lock = await lockService(serviceName, config, { reason: `approved by ${approvedBy}` });
+  let result: DeploymentResult;
+  try {
+    if (head !== pending.commitHash) {
+      gitFastForward(deployRepoPath, commit);
+    }
+    if (pending.tag && !tagExists(deployRepoPath, pending.tag)) {
+      // The pending ref of a tagged release is its tag (pushed along with the release)
+      gitImportTag(deployRepoPath, pending.tag, fetched);
+    }
+    await removePendingRelease(config, pending.id);
+    removeRequestedRelease(deployRepoPath);
+    result = await pushRelease(serviceName, { ...pending, freezeOverride }, Date.now(), {
+      requestedBy: pending.requestedBy,
+      approvedBy
+    }, lock.id);
+  } finally {
+    await unlockService(config, lock);
+  }
+  
+  emitResult(result);
+  print('');
+  if (result.success) {
+    print(chalk.green.bold(`✓ Deployed ${serviceName} ${pending.id} (approved by ${approvedBy})`));
+  } else {
+    printError(chalk.red.bold(`✗ Deployment of ${serviceName} ${pending.id} failed`));
+    if (result.message) {
+      printError(chalk.red(`  ${result.message}`));
+    }
+    process.exitCode = 1;
+  }
+  print(chalk.gray(`  Check logs: gpd logs ${serviceName}`));
+}
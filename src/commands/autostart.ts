@@ -2,6 +2,8 @@ import chalk from 'chalk';
 import { getServiceConfig, listServices } from '../config/loader.js';
 import { getServers } from '../config/types.js';
 import { runSshCommand } from '../utils/shell.js';
+import { generateSystemdUnit, getSystemdUnitName, getSystemdUnitPath } from '../utils/systemd.js';
+import { print, printError, emitResult } from '../utils/output.js';
 
 /**
  * Autostart command - manage systemd units for gpdd services
@@ -17,8 +19,8 @@ import { runSshCommand } from '../utils/shell.js';
  */
 export async function autostartCommand(serviceName: string, action: string): Promise<void> {
   if (!['enable', 'disable', 'status'].includes(action)) {
-    console.error(chalk.red(`Unknown action: ${action}`));
-    console.log('Available actions: enable, disable, status');
+    printError(chalk.red(`Unknown action: ${action}`));
+    print('Available actions: enable, disable, status');
     return;
   }
   
@@ -28,7 +30,10 @@ export async function autostartCommand(serviceName: string, action: string): Pro
     return;
   }
   
-  await handleSingleService(serviceName, action as 'enable' | 'disable' | 'status');
+  const statuses = await handleSingleService(serviceName, action as 'enable' | 'disable' | 'status');
+  if (action === 'status' && statuses) {
+    emitResult({ service: serviceName, servers: statuses });
+  }
 }
 
 /**
@@ -46,47 +51,40 @@ async function handleAllServices(action: 'enable' | 'disable' | 'status'): Promi
   }
   
   if (gpddServices.length === 0) {
-    console.log(chalk.yellow('No services configured with processManager: "gpdd"'));
+    print(chalk.yellow('No services configured with processManager: "gpdd"'));
     return;
   }
   
-  console.log(chalk.bold(`Running autostart ${action} on ${gpddServices.length} gpdd services...`));
-  console.log('');
+  print(chalk.bold(`Running autostart ${action} on ${gpddServices.length} gpdd services...`));
+  print('');
   
+  const results: Array<{ service: string; servers: AutostartStatus[] }> = [];
   for (const name of gpddServices) {
-    console.log(chalk.blue(`━━━ ${name} ━━━`));
+    print(chalk.blue(`━━━ ${name} ━━━`));
     try {
-      await handleSingleService(name, action);
+      const statuses = await handleSingleService(name, action);
+      if (statuses) results.push({ service: name, servers: statuses });
     } catch (error: any) {
-      console.error(chalk.red(`  Failed: ${error.message}`));
+      printError(chalk.red(`  Failed: ${error.message}`));
     }
-    console.log('');
+    print('');
+  }
+  if (action === 'status') {
+    emitResult({ services: results });
   }
 }
 
 /**
- * Generate systemd unit content for a gpdd service
+ * Build gpdd ExecStart command with all gpdd options
  */
-function generateSystemdUnit(options: {
-  description: string;
-  workingDirectory: string;
-  envFile: string;
-  user: string;
-  group: string;
+function buildGpddExecStart(options: {
   entryPoint: string;
   workers: number;
   ipcPort: number;
   bindAddress?: string;
   readyUrl?: string;
   healthUrl?: string;
-  environment?: string;
-  afterServices?: string[];
 }): string {
-  const after = options.afterServices?.length 
-    ? `After=network.target ${options.afterServices.join(' ')}`
-    : 'After=network.target';
-  
-  // Build ExecStart command with all gpdd options
   let execStart = `/usr/bin/gpdd start ${options.entryPoint} --workers ${options.workers} --ipc-port ${options.ipcPort}`;
   
   if (options.bindAddress) {
@@ -99,58 +97,40 @@ function generateSystemdUnit(options: {
     execStart += ` --health-url ${options.healthUrl}`;
   }
   
-  // Build Environment line
-  const envLine = options.environment 
-    ? `Environment=NODE_ENV=${options.environment}`
-    : '';
-  
-  return `[Unit]
-Description=${options.description}
-${after}
-Wants=network-online.target
-
-[Service]
-Type=simple
-User=${options.user}
-Group=${options.group}
-WorkingDirectory=${options.workingDirectory}
-EnvironmentFile=${options.envFile}
-${envLine}
-ExecStart=${execStart}
-Restart=on-failure
-RestartSec=10
-
-[Install]
-WantedBy=multi-user.target`;
+  return execStart;
 }
 
 /**
  * Handle autostart command for a single service
  */
-async function handleSingleService(serviceName: string, action: 'enable' | 'disable' | 'status'): Promise<void> {
+async function handleSingleService(serviceName: string, action: 'enable' | 'disable' | 'status'): Promise<AutostartStatus[] | null> {
   const config = getServiceConfig(serviceName);
   const servers = getServers(config);
   
   if (config.processManager !== 'gpdd') {
-    console.log(chalk.yellow(`Service ${serviceName} uses ${config.processManager || 'pm2'}, not gpdd`));
-    return;
+    print(chalk.yellow(`Service ${serviceName} uses ${config.processManager || 'pm2'}, not gpdd`));
+    return null;
   }
   
+  const statuses: AutostartStatus[] = [];
   for (const server of servers) {
     const { host, sshOptions, targetDir } = server;
     const serverLabel = server.name || host;
     
     // Extract systemd service name from processName
-    const systemdServiceName = config.processName.replace(/[^a-zA-Z0-9-_]/g, '-');
-    const unitPath = `/etc/systemd/system/${systemdServiceName}.service`;
+    const systemdServiceName = getSystemdUnitName(config.processName);
+    const unitPath = getSystemdUnitPath(systemdServiceName);
     
-    console.log(chalk.gray(`  Server: ${serverLabel}`));
-    console.log(chalk.gray(`  Service: ${systemdServiceName}`));
+    print(chalk.gray(`  Server: ${serverLabel}`));
+    print(chalk.gray(`  Service: ${systemdServiceName}`));
     
     switch (action) {
-      case 'status':
-        await showAutostartStatus(host, sshOptions, systemdServiceName);
+      case 'status': {
+        const status: AutostartStatus = { server: serverLabel };
+        await showAutostartStatus(host, sshOptions, systemdServiceName, status);
+        statuses.push(status);
         break;
+      }
         
       case 'enable':
         await enableAutostart(host, sshOptions, {
@@ -177,6 +157,7 @@ async function handleSingleService(serviceName: string, action: 'enable' | 'disa
         break;
     }
   }
+  return statuses;
 }
 
 /**
@@ -193,10 +174,23 @@ function getIpcPort(processName: string): number {
   return 50000 + (Math.abs(hash) % 10000);
 }
 
+/**
+ * Autostart state of a service on one server (emitted as result with --json)
+ */
+interface AutostartStatus {
+  server: string;
+  configured?: boolean;
+  enabled?: boolean;
+  active?: boolean;
+  workers?: string;
+  ipcPort?: string;
+  error?: string;
+}
+
 /**
  * Show autostart status for a service
  */
-async function showAutostartStatus(host: string, sshOptions: string | undefined, serviceName: string): Promise<void> {
+async function showAutostartStatus(host: string, sshOptions: string | undefined, serviceName: string, status: AutostartStatus): Promise<void> {
   try {
     const cmd = `systemctl is-enabled ${serviceName} 2>/dev/null || echo 'not-found'`;
     const enabledStatus = await runSshCommand(host, cmd, sshOptions);
@@ -207,33 +201,39 @@ async function showAutostartStatus(host: string, sshOptions: string | undefined,
     const isEnabled = enabledStatus.trim() === 'enabled';
     const isActive = activeStatus.trim() === 'active';
     const exists = enabledStatus.trim() !== 'not-found';
+    status.configured = exists;
+    status.enabled = isEnabled;
+    status.active = exists ? isActive : undefined;
     
     if (!exists) {
-      console.log(`  Autostart: ${chalk.gray('not configured')}`);
+      print(`  Autostart: ${chalk.gray('not configured')}`);
     } else if (isEnabled) {
-      console.log(`  Autostart: ${chalk.green('enabled')}`);
+      print(`  Autostart: ${chalk.green('enabled')}`);
     } else {
-      console.log(`  Autostart: ${chalk.yellow('disabled')}`);
+      print(`  Autostart: ${chalk.yellow('disabled')}`);
     }
     
     if (exists) {
-      console.log(`  Status: ${isActive ? chalk.green('active') : chalk.red('inactive')}`);
+      print(`  Status: ${isActive ? chalk.green('active') : chalk.red('inactive')}`);
       
       // Show configured workers from unit file
       try {
         const grepCmd = `grep -oP '(?<=--workers )\\d+' /etc/systemd/system/${serviceName}.service 2>/dev/null || echo '-'`;
         const workers = await runSshCommand(host, grepCmd, sshOptions);
-        console.log(`  Configured Workers: ${workers.trim()}`);
+        print(`  Configured Workers: ${workers.trim()}`);
+        status.workers = workers.trim();
         
         const portCmd = `grep -oP '(?<=--ipc-port )\\d+' /etc/systemd/system/${serviceName}.service 2>/dev/null || echo '-'`;
         const port = await runSshCommand(host, portCmd, sshOptions);
-        console.log(`  IPC Port: ${port.trim()}`);
+        print(`  IPC Port: ${port.trim()}`);
+        status.ipcPort = port.trim();
       } catch {
         // Ignore grep errors
       }
     }
   } catch (error: any) {
-    console.error(chalk.red(`  Failed to get status: ${error.message}`));
+    printError(chalk.red(`  Failed to get status: ${error.message}`));
+    status.error = error.message;
   }
 }
 
@@ -257,9 +257,12 @@ async function enableAutostart(host: string, sshOptions: string | undefined, opt
   environment?: string;
   afterServices?: string[];
 }): Promise<void> {
-  console.log(chalk.blue(`  Creating systemd unit...`));
+  print(chalk.blue(`  Creating systemd unit...`));
   
-  const unitContent = generateSystemdUnit(options);
+  const unitContent = generateSystemdUnit({
+    ...options,
+    execStart: buildGpddExecStart(options)
+  });
   
   // Write unit file via SSH
   const escapedContent = unitContent.replace(/'/g, "'\\''");
@@ -267,24 +270,24 @@ async function enableAutostart(host: string, sshOptions: string | undefined, opt
   
   try {
     await runSshCommand(host, writeCmd, sshOptions);
-    console.log(chalk.green(`  ✓ Created ${options.unitPath}`));
+    print(chalk.green(`  ✓ Created ${options.unitPath}`));
     
     // Reload systemd
     await runSshCommand(host, 'sudo systemctl daemon-reload', sshOptions);
-    console.log(chalk.green(`  ✓ Reloaded systemd`));
+    print(chalk.green(`  ✓ Reloaded systemd`));
     
     // Enable the service
     await runSshCommand(host, `sudo systemctl enable ${options.serviceName}`, sshOptions);
-    console.log(chalk.green(`  ✓ Enabled ${options.serviceName}`));
+    print(chalk.green(`  ✓ Enabled ${options.serviceName}`));
     
-    console.log('');
-    console.log(chalk.gray(`  IPC Port: ${options.ipcPort}`));
-    console.log(chalk.gray(`  Workers: ${options.workers}`));
-    console.log('');
-    console.log(chalk.dim(`  To start now: gpd daemon ${options.serviceName.replace('.service', '')} start`));
-    console.log(chalk.dim(`  Or: sudo systemctl start ${options.serviceName}`));
+    print('');
+    print(chalk.gray(`  IPC Port: ${options.ipcPort}`));
+    print(chalk.gray(`  Workers: ${options.workers}`));
+    print('');
+    print(chalk.dim(`  To start now: gpd daemon ${options.serviceName.replace('.service', '')} start`));
+    print(chalk.dim(`  Or: sudo systemctl start ${options.serviceName}`));
   } catch (error: any) {
-    console.error(chalk.red(`  Failed: ${error.message}`));
+    printError(chalk.red(`  Failed: ${error.message}`));
   }
 }
 
@@ -292,7 +295,7 @@ async function enableAutostart(host: string, sshOptions: string | undefined, opt
  * Disable autostart for a service
  */
 async function disableAutostart(host: string, sshOptions: string | undefined, serviceName: string, unitPath: string): Promise<void> {
-  console.log(chalk.blue(`  Disabling autostart...`));
+  print(chalk.blue(`  Disabling autostart...`));
   
   try {
     // Stop if running
@@ -300,16 +303,16 @@ async function disableAutostart(host: string, sshOptions: string | undefined, se
     
     // Disable
     await runSshCommand(host, `sudo systemctl disable ${serviceName} 2>/dev/null || true`, sshOptions);
-    console.log(chalk.green(`  ✓ Disabled ${serviceName}`));
+    print(chalk.green(`  ✓ Disabled ${serviceName}`));
     
     // Remove unit file
     await runSshCommand(host, `sudo rm -f ${unitPath}`, sshOptions);
-    console.log(chalk.green(`  ✓ Removed ${unitPath}`));
+    print(chalk.green(`  ✓ Removed ${unitPath}`));
     
     // Reload systemd
     await runSshCommand(host, 'sudo systemctl daemon-reload', sshOptions);
-    console.log(chalk.green(`  ✓ Reloaded systemd`));
+    print(chalk.green(`  ✓ Reloaded systemd`));
   } catch (error: any) {
-    console.error(chalk.red(`  Failed: ${error.message}`));
+    printError(chalk.red(`  Failed: ${error.message}`));
   }
 }
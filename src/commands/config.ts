@@ -2,7 +2,11 @@ import chalk from 'chalk';
 import * as readline from 'readline';
 import { existsSync, writeFileSync, readFileSync } from 'fs';
 import { join } from 'path';
-import { getServers, type DeployConfig, type ServiceConfig, type ServerConfig } from '../config/types.js';
+import { getServers, type DeployConfig, type ServiceConfig, type ServerConfig, type ProcessManagerType } from '../config/types.js';
+import { findConfigFile, loadConfig, selectServiceConfig, validateServiceConfig } from '../config/loader.js';
+import { validateConfigSchema, type ConfigIssue } from '../config/schema.js';
+import { resolveExtends } from '../config/extends.js';
+import { print, emitResult } from '../utils/output.js';
 
 const CONFIG_FILENAME = '.git-deploy.json';
 
@@ -123,7 +127,7 @@ async function createServiceConfig(rl: readline.Interface, existingConfig?: Serv
   
   // Process manager
   console.log('');
-  const processManager = await promptSelect(rl, 'Process manager:', ['pm2', 'gpdd', 'systemd'], 0) as 'pm2' | 'gpdd' | 'systemd';
+  const processManager = await promptSelect(rl, 'Process manager:', ['pm2', 'gpdd', 'systemd', 'docker'], 0) as ProcessManagerType;
   const processName = await prompt(rl, 'Process name', existingConfig?.processName || 'my-service');
   
   // PM2 specific
@@ -137,6 +141,22 @@ async function createServiceConfig(rl: readline.Interface, existingConfig?: Serv
     }
   }
   
+  // systemd specific
+  let systemdExecStart: string | undefined;
+  if (processManager === 'systemd') {
+    systemdExecStart = await prompt(rl, 'ExecStart command', existingConfig?.systemdExecStart || '/usr/bin/env node dist/index.js');
+    const useSystemdUser = await promptYesNo(rl, 'Run service as different user?', !!existingConfig?.pm2User);
+    if (useSystemdUser) {
+      pm2User = await prompt(rl, 'User', existingConfig?.pm2User || 'deploy');
+    }
+  }
+  
+  // docker specific
+  let dockerComposeFile: string | undefined;
+  if (processManager === 'docker') {
+    dockerComposeFile = await prompt(rl, 'Compose file (in artifacts)', existingConfig?.dockerComposeFile || 'docker-compose.yml');
+  }
+  
   // GPDD specific
   let gpddWorkers: number | undefined;
   let gpddEntryPoint: string | undefined;
@@ -222,6 +242,8 @@ async function createServiceConfig(rl: readline.Interface, existingConfig?: Serv
   if (pm2User) config.pm2User = pm2User;
   if (gpddWorkers) config.gpddWorkers = gpddWorkers;
   if (gpddEntryPoint && gpddEntryPoint !== 'dist/index.js') config.gpddEntryPoint = gpddEntryPoint;
+  if (systemdExecStart && systemdExecStart !== '/usr/bin/env node dist/index.js') config.systemdExecStart = systemdExecStart;
+  if (dockerComposeFile && dockerComposeFile !== 'docker-compose.yml') config.dockerComposeFile = dockerComposeFile;
   if (env && Object.keys(env).length > 0) config.env = env;
   
   return config;
@@ -232,6 +254,80 @@ interface ConfigOptions {
   list?: boolean;
 }
 
+/**
+ * Config validate command - check .git-deploy.json against the schema
+ * Also runs the shell-safety checks that otherwise only run when a service is used.
+ * Sets a non-zero exit code if there are errors (warnings alone pass).
+ */
+export async function configValidateCommand(configPath?: string): Promise<void> {
+  const path = configPath || findConfigFile();
+  if (!path) {
+    throw new Error(`Config file ${CONFIG_FILENAME} not found.`);
+  }
+  
+  const issues: ConfigIssue[] = [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    issues.push({ severity: 'error', path: '$', message: `invalid JSON: ${error.message}` });
+  }
+  
+  if (parsed !== undefined) {
+    try {
+      parsed = resolveExtends(parsed as DeployConfig);
+    } catch (error: any) {
+      issues.push({ severity: 'error', path: '$', message: error.message });
+    }
+  }
+  
+  if (parsed !== undefined && issues.length === 0) {
+    issues.push(...validateConfigSchema(parsed));
+    
+    // Shell-safety checks need structurally valid services
+    const services = (parsed as DeployConfig).services;
+    if (!issues.some(issue => issue.severity === 'error') && services) {
+      for (const [name, service] of Object.entries(services)) {
+        try {
+          validateServiceConfig(name, service);
+        } catch (error: any) {
+          issues.push({ severity: 'error', path: `$.services['${name}']`, message: error.message });
+        }
+      }
+    }
+  }
+  
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  emitResult({ file: path, valid: errors.length === 0, errors, warnings });
+  
+  // The report is the command's output, so it's printed (not as errors) and the exit code signals failure
+  print(chalk.blue(`Validating ${path}`));
+  for (const issue of issues) {
+    const icon = issue.severity === 'error' ? chalk.red('✗') : chalk.yellow('⚠');
+    print(`  ${icon} ${chalk.white(issue.path)}: ${issue.message}`);
+  }
+  
+  if (errors.length > 0) {
+    print(chalk.red(`✗ ${errors.length} error(s), ${warnings.length} warning(s)`));
+    process.exitCode = 1;
+  } else {
+    print(chalk.green(`✓ Config is valid${warnings.length > 0 ? ` (${warnings.length} warning(s))` : ''}`));
+  }
+}
+
+/**
+ * Config show command - print a service's effective config (after `extends` is resolved)
+ * ${VAR} references are shown as written, not substituted
+ */
+export async function configShowCommand(serviceName: string, configPath?: string): Promise<void> {
+  const config = loadConfig(configPath, { substituteEnv: false });
+  const serviceConfig = selectServiceConfig(config, serviceName);
+  
+  emitResult({ service: serviceName, config: serviceConfig });
+  print(JSON.stringify(serviceConfig, null, 2));
+}
+
 /**
  * Config command - create or edit .git-deploy.json
  */
@@ -245,7 +341,7 @@ export async function configCommand(options: ConfigOptions = {}): Promise<void>
       console.log(chalk.yellow('No services configured'));
     } else {
       console.log(chalk.blue('Configured services:'));
-      for (const [name, svc] of Object.entries(config.services)) {
+      for (const [name, svc] of Object.entries(resolveExtends(config).services)) {
         const servers = getServers(svc);
         console.log(`  ${chalk.white(name)}`);
         if (servers.length === 1) {
@@ -2,20 +2,32 @@ import chalk from 'chalk';
 import { getServiceConfig, listServices, loadConfig } from '../config/loader.js';
 import { getServers } from '../config/types.js';
 import { runSshCommand } from '../utils/shell.js';
+import { buildComposeCommand } from '../utils/docker.js';
+import { getAppDir } from '../utils/releases.js';
+import { print, printError, emitResult } from '../utils/output.js';
 
 interface DaemonOptions {
   action: 'status' | 'reload' | 'stop' | 'start';
 }
 
 /**
- * Daemon command - control gpdd on remote server via SSH
+ * Outcome of a daemon action on one service (emitted as result with --json)
+ */
+interface DaemonResult {
+  service: string;
+  action: string;
+  servers: Array<{ server: string; success: boolean; output?: string; error?: string }>;
+}
+
+/**
+ * Daemon command - control gpdd (or docker compose) on remote server via SSH
  * 
- * gpd daemon <service> status   Show gpdd status
- * gpd daemon <service> reload   Zero-downtime reload
- * gpd daemon <service> stop     Stop the daemon
- * gpd daemon <service> start    Start the daemon
+ * gpd daemon <service> status   Show gpdd status (docker: compose ps)
+ * gpd daemon <service> reload   Zero-downtime reload (docker: compose restart)
+ * gpd daemon <service> stop     Stop the daemon (docker: compose stop)
+ * gpd daemon <service> start    Start the daemon (docker: compose up -d)
  * 
- * Batch commands (all gpdd services):
+ * Batch commands (all gpdd and docker services):
  * gpd daemon all start          Start all gpdd services
  * gpd daemon all stop           Stop all gpdd services
  * gpd daemon all reload         Reload all gpdd services
@@ -28,102 +40,114 @@ export async function daemonCommand(serviceName: string, action: string): Promis
     return;
   }
   
-  await handleSingleService(serviceName, action);
+  const result = await handleSingleService(serviceName, action);
+  if (result) {
+    emitResult(result);
+  }
 }
 
 /**
- * Handle daemon command for all gpdd services
+ * Handle daemon command for all gpdd and docker services
  */
 async function handleAllServices(action: string): Promise<void> {
   const services = listServices();
   const gpddServices: string[] = [];
   
-  // Filter to only gpdd services
+  // Filter to only gpdd/docker services
   for (const name of services) {
     const config = getServiceConfig(name);
-    if (config.processManager === 'gpdd') {
+    if (config.processManager === 'gpdd' || config.processManager === 'docker') {
       gpddServices.push(name);
     }
   }
   
   if (gpddServices.length === 0) {
-    console.log(chalk.yellow('No services configured with processManager: "gpdd"'));
+    print(chalk.yellow('No services configured with processManager: "gpdd" or "docker"'));
     return;
   }
   
-  console.log(chalk.bold(`Running ${action} on ${gpddServices.length} gpdd services...`));
-  console.log(chalk.gray(`Services: ${gpddServices.join(', ')}`));
-  console.log('');
+  print(chalk.bold(`Running ${action} on ${gpddServices.length} gpdd/docker services...`));
+  print(chalk.gray(`Services: ${gpddServices.join(', ')}`));
+  print('');
   
   let success = 0;
   let failed = 0;
+  const results: DaemonResult[] = [];
   
   for (const name of gpddServices) {
-    console.log(chalk.blue(`━━━ ${name} ━━━`));
+    print(chalk.blue(`━━━ ${name} ━━━`));
     try {
-      await handleSingleService(name, action);
+      const result = await handleSingleService(name, action);
+      if (result) results.push(result);
       success++;
     } catch (error: any) {
-      console.error(chalk.red(`  Failed: ${error.message}`));
+      printError(chalk.red(`  Failed: ${error.message}`));
       failed++;
     }
-    console.log('');
+    print('');
   }
   
-  console.log(chalk.bold('Summary:'));
-  console.log(`  ${chalk.green(`✓ ${success} succeeded`)}`);
+  print(chalk.bold('Summary:'));
+  print(`  ${chalk.green(`✓ ${success} succeeded`)}`);
   if (failed > 0) {
-    console.log(`  ${chalk.red(`✗ ${failed} failed`)}`);
+    print(`  ${chalk.red(`✗ ${failed} failed`)}`);
   }
+  emitResult({ action, services: results, succeeded: success, failed });
 }
 
 /**
  * Handle daemon command for a single service
  */
-async function handleSingleService(serviceName: string, action: string): Promise<void> {
+async function handleSingleService(serviceName: string, action: string): Promise<DaemonResult | null> {
   const config = getServiceConfig(serviceName);
   const servers = getServers(config);
   
+  if (config.processManager === 'docker') {
+    return handleDockerService(serviceName, action);
+  }
+  
   if (config.processManager !== 'gpdd') {
-    console.log(chalk.yellow(`Service ${serviceName} uses ${config.processManager || 'pm2'}, not gpdd`));
-    console.log(chalk.gray(`Use 'gpd logs ${serviceName}' for PM2 services`));
-    return;
+    print(chalk.yellow(`Service ${serviceName} uses ${config.processManager || 'pm2'}, not gpdd`));
+    print(chalk.gray(`Use 'gpd logs ${serviceName}' for PM2 services`));
+    return null;
   }
   
   // Run on all servers
+  const result: DaemonResult = { service: serviceName, action, servers: [] };
   for (const server of servers) {
     const { host, sshOptions, targetDir } = server;
+    const appDir = getAppDir(config, targetDir);
     const serverLabel = server.name || host;
     
-    console.log(chalk.blue(`GPDD ${action} on ${serverLabel}...`));
-    console.log(chalk.gray(`  Host: ${host}`));
-    console.log(chalk.gray(`  Target: ${targetDir}`));
-    console.log('');
+    print(chalk.blue(`GPDD ${action} on ${serverLabel}...`));
+    print(chalk.gray(`  Host: ${host}`));
+    print(chalk.gray(`  Target: ${targetDir}`));
+    print('');
   
     const runUser = config.pm2User;
     let cmd: string;
   
     switch (action) {
       case 'status':
-        cmd = `cd "${targetDir}" && gpdd status`;
+        cmd = `cd "${appDir}" && gpdd status`;
         break;
       case 'reload':
-        cmd = `cd "${targetDir}" && gpdd reload`;
+        cmd = `cd "${appDir}" && gpdd reload`;
         break;
       case 'stop':
-        cmd = `cd "${targetDir}" && gpdd stop`;
+        cmd = `cd "${appDir}" && gpdd stop`;
         break;
       case 'start':
         const entryPoint = config.gpddEntryPoint || 'dist/index.js';
         const workers = config.gpddWorkers ? `-w ${config.gpddWorkers}` : '-w 1';
         const readyUrl = config.gpddReadyUrl ? `--ready-url ${config.gpddReadyUrl}` : '';
         // Always use -d (daemon mode) so SSH doesn't hang
-        cmd = `cd "${targetDir}" && gpdd start ${entryPoint} ${workers} ${readyUrl} -d`;
+        cmd = `cd "${appDir}" && gpdd start ${entryPoint} ${workers} ${readyUrl} -d`;
         break;
       default:
-        console.error(chalk.red(`Unknown action: ${action}`));
-        console.log('Available actions: status, reload, stop, start');
-        return;
+        printError(chalk.red(`Unknown action: ${action}`));
+        print('Available actions: status, reload, stop, start');
+        return null;
     }
   
     // If running as different user, wrap in sudo
@@ -133,12 +157,63 @@ async function handleSingleService(serviceName: string, action: string): Promise
   
     try {
       const output = await runSshCommand(host, cmd, sshOptions);
-      console.log(output);
-      console.log(chalk.green(`✓ ${action} completed on ${serverLabel}`));
+      print(output);
+      print(chalk.green(`✓ ${action} completed on ${serverLabel}`));
+      result.servers.push({ server: serverLabel, success: true, output });
+    } catch (error: any) {
+      printError(chalk.red(`Failed on ${serverLabel}: ${error.message}`));
+      result.servers.push({ server: serverLabel, success: false, error: error.message });
+    }
+    
+    if (servers.length > 1) print('');
+  }
+  return result;
+}
+
+/**
+ * Handle daemon command for a docker compose service
+ */
+async function handleDockerService(serviceName: string, action: string): Promise<DaemonResult | null> {
+  const config = getServiceConfig(serviceName);
+  const servers = getServers(config);
+  
+  const composeArgs: Record<string, string> = {
+    status: 'ps',
+    reload: 'restart',
+    stop: 'stop',
+    start: 'up -d'
+  };
+  
+  if (!composeArgs[action]) {
+    printError(chalk.red(`Unknown action: ${action}`));
+    print('Available actions: status, reload, stop, start');
+    return null;
+  }
+  
+  const result: DaemonResult = { service: serviceName, action, servers: [] };
+  for (const server of servers) {
+    const { host, sshOptions, targetDir } = server;
+    const appDir = getAppDir(config, targetDir);
+    const serverLabel = server.name || host;
+    
+    print(chalk.blue(`Docker ${action} on ${serverLabel}...`));
+    print(chalk.gray(`  Host: ${host}`));
+    print(chalk.gray(`  Target: ${targetDir}`));
+    print('');
+    
+    const cmd = `cd "${appDir}" && ${buildComposeCommand(config, composeArgs[action])}`;
+    
+    try {
+      const output = await runSshCommand(host, cmd, sshOptions);
+      print(output);
+      print(chalk.green(`✓ ${action} completed on ${serverLabel}`));
+      result.servers.push({ server: serverLabel, success: true, output });
     } catch (error: any) {
-      console.error(chalk.red(`Failed on ${serverLabel}: ${error.message}`));
+      printError(chalk.red(`Failed on ${serverLabel}: ${error.message}`));
+      result.servers.push({ server: serverLabel, success: false, error: error.message });
     }
     
-    if (servers.length > 1) console.log('');
+    if (servers.length > 1) print('');
   }
+  return result;
 }
@@ -2,22 +2,93 @@
 import { stageCommand, stageCommandDryRun } from './stage.js';
 import { releaseCommand, releaseCommandDryRun } from './release.js';
 import { ensureInitialized } from './init.js';
-import { getServiceConfig } from '../config/loader.js';
-import { getServers } from '../config/types.js';
+import { getServiceConfig, getWorkspaceRoot, getSourceDir, getDeployRepoPath } from '../config/loader.js';
+import { getServers, type ServiceConfig, type DeployLock, type FreezeOverride } from '../config/types.js';
+import { runBuild, isBuildCached } from '../utils/build.js';
+import { enforceSourceGuards } from '../utils/guards.js';
+import { enforceDeployWindow, type FreezeOptions } from '../utils/windows.js';
+import { DEFAULT_LOCK_TIMEOUT, createLock, getLockHolder, formatLock, acquireServiceLock, releaseServiceLock } from '../utils/lock.js';
+import { assertNoPendingRelease } from '../utils/approval.js';
+import { print, printWarning, printError, emitEvent, emitResult } from '../utils/output.js';
 
-interface DeployOptions {
+interface DeployOptions extends FreezeOptions {
   message?: string;
+  tag?: string;
+  notes?: string;
   skipPush?: boolean;
   dryRun?: boolean;
+  rebuild?: boolean;
+  /** Deploy even if source guards fail (recorded in the commit message and notifications) */
+  allowDirty?: boolean;
 }
 
 /**
- * Deploy command - stage artifacts and push to server
+ * Run the service's build step (if configured) before staging
+ */
+function buildService(serviceName: string, config: ServiceConfig, options: DeployOptions): void {
+  if (!config.build) return;
+  
+  const workspaceRoot = getWorkspaceRoot();
+  const sourceDir = getSourceDir(config, workspaceRoot);
+  const deployRepoPath = getDeployRepoPath(config, workspaceRoot);
+  
+  if (options.dryRun) {
+    const cached = !options.rebuild && isBuildCached(serviceName, config.build, sourceDir, deployRepoPath);
+    print(chalk.blue(`[DRY RUN] Build preview for ${serviceName}...`));
+    print(chalk.gray(cached ? '  Would skip build: source unchanged since last build' : `  Would run: ${config.build.command}`));
+    print('');
+    return;
+  }
+  
+  print(chalk.blue(`Building ${serviceName}...`));
+  const result = runBuild(serviceName, config.build, sourceDir, deployRepoPath, options.rebuild);
+  emitEvent('built', { service: serviceName, ...result });
+  print('');
+}
+
+/**
+ * Lock the service on all its servers, so concurrent deploys fail instead of racing
+ * on the deploy repo and the server install
+ * Pushes made under the lock send its id, so the server install accepts them (see getLockPushOptions).
+ * @throws Error naming the holder if a server is locked
+ */
+export async function lockService(
+  serviceName: string,
+  config: ServiceConfig,
+  options: { reason?: string } = {}
+): Promise<DeployLock> {
+  const lock = createLock('deploy', getLockHolder(getWorkspaceRoot()), {
+    timeout: config.lockTimeout ?? DEFAULT_LOCK_TIMEOUT,
+    reason: options.reason
+  });
+  const broken = await acquireServiceLock(getServers(config), lock);
+  for (const { server, lock: stale } of broken) {
+    printWarning(chalk.yellow(`⚠ Broke stale lock on ${server}: ${formatLock(stale)}`));
+  }
+  emitEvent('locked', { service: serviceName, holder: lock.holder });
+  return lock;
+}
+
+/**
+ * Release the deploy lock (a failure only warns: the lock goes stale after lockTimeout)
+ */
+export async function unlockService(config: ServiceConfig, lock: DeployLock): Promise<void> {
+  const failed = await releaseServiceLock(getServers(config), lock);
+  if (failed.length > 0) {
+    printWarning(chalk.yellow(`⚠ Could not release the deploy lock on ${failed.join(', ')} (stale after ${lock.timeout}s)`));
+  }
+}
+
+/**
+ * Deploy command - build, stage artifacts and push to server
  * 
  * New architecture:
- * 1. Stage: Copy build artifacts to deploy repo (with lazy init)
- * 2. Release: Commit and push to bare repo on server(s)
- * 3. Server hook handles: git checkout, npm install, pm2 restart
+ * 0. Guards: Check the deploy windows, and the source repo (clean, branch, pushed) if the environment requires it
+ * 1. Build: Run the configured build step (skipped if the source is unchanged)
+ * 2. Lock: Take the deployment lock on every server (fails if someone else is deploying)
+ * 3. Stage: Copy build artifacts to deploy repo (with lazy init)
+ * 4. Release: Commit and push to bare repo on server(s) (push waits for `gpd approve` if approval is required)
+ * 5. Server hook handles: git checkout, npm install, pm2 restart
  * 
  * No more SSH install from client - the post-receive hook does everything!
  */
@@ -27,41 +98,109 @@ export async function deployCommand(serviceName: string, options: DeployOptions
   const serverList = servers.map(s => s.name || s.host).join(', ');
   
   if (options.dryRun) {
-    console.log(chalk.blue.bold(`[DRY RUN] Deploy preview for ${serviceName}`));
+    print(chalk.blue.bold(`[DRY RUN] Deploy preview for ${serviceName}`));
   } else {
-    console.log(chalk.blue.bold(`Deploying ${serviceName}...`));
+    print(chalk.blue.bold(`Deploying ${serviceName}...`));
   }
-  console.log(chalk.gray(`  Environment: ${config.environment || 'production'}`));
-  console.log(chalk.gray(`  Server${servers.length > 1 ? 's' : ''}: ${serverList}`));
-  console.log('');
+  print(chalk.gray(`  Environment: ${config.environment || 'production'}`));
+  print(chalk.gray(`  Server${servers.length > 1 ? 's' : ''}: ${serverList}`));
+  print('');
+
+  // 0. Deploy windows and source guards (before building anything)
+  const freezeOverride = enforceDeployWindow(config, options);
+  const guardOverrides = enforceSourceGuards(config, options);
 
   if (options.dryRun) {
     // Dry run - just show what would happen
+    buildService(serviceName, config, options);
     await stageCommandDryRun(serviceName);
-    console.log('');
-    await releaseCommandDryRun(serviceName);
-    console.log('');
-    console.log(chalk.yellow.bold('This was a dry run. No changes were made.'));
-    console.log(chalk.gray('Run without --dry-run to actually deploy.'));
+    print('');
+    await releaseCommandDryRun(serviceName, { tag: options.tag });
+    print('');
+    print(chalk.yellow.bold('This was a dry run. No changes were made.'));
+    print(chalk.gray('Run without --dry-run to actually deploy.'));
+    emitResult({ service: serviceName, dryRun: true });
     return;
   }
 
-  // 0. Ensure server is initialized (idempotent - safe to run every time)
+  // 1. Build (before touching the server, so a broken build fails fast)
+  buildService(serviceName, config, options);
+
+  // 2. Ensure server is initialized (idempotent - safe to run every time)
   await ensureInitialized(serviceName);
 
-  // 1. Stage artifacts to deploy repo
+  // 3. Lock the servers until the deploy is done (--skip-push leaves them alone)
+  if (options.skipPush) {
+    await stageAndRelease(serviceName, config, options, guardOverrides, freezeOverride);
+    return;
+  }
+  // A release waiting for approval (two-person rule) must be approved or rejected first
+  await assertNoPendingRelease(serviceName, config, getDeployRepoPath(config, getWorkspaceRoot()));
+  const lock = await lockService(serviceName, config);
+  try {
+    await stageAndRelease(serviceName, config, options, guardOverrides, freezeOverride, lock.id);
+  } finally {
+    await unlockService(config, lock);
+  }
+}
+
+/**
+ * Stage artifacts, then commit and push (deploy steps run under the deploy lock)
+ */
+async function stageAndRelease(
+  serviceName: string,
+  config: ServiceConfig,
+  options: DeployOptions,
+  guardOverrides: string[],
+  freezeOverride?: FreezeOverride,
+  lockId?: string
+): Promise<void> {
+  const servers = getServers(config);
+  
+  // 4. Stage artifacts to deploy repo
   await stageCommand(serviceName);
-  console.log('');
+  print('');
 
-  // 2. Commit and push (triggers server-side hook)
+  // 5. Commit and push (triggers server-side hook), then verify health
   if (!options.skipPush) {
-    await releaseCommand(serviceName, options);
-    console.log('');
-    console.log(chalk.green.bold(`✓ Deployed ${serviceName}`));
-    console.log(chalk.gray('  The server hook will handle: git checkout, npm install, pm2 restart'));
-    console.log(chalk.gray(`  Check logs: gpd logs ${serviceName}`));
+    const result = await releaseCommand(serviceName, {
+      message: options.message,
+      tag: options.tag,
+      notes: options.notes,
+      guardOverrides,
+      freezeOverride,
+      lockId,
+      overrideFreeze: options.overrideFreeze,
+      reason: options.reason
+    });
+    if (!result) {
+      emitResult({ service: serviceName, success: true, released: false, message: 'No changes to release' });
+      return;
+    }
+    emitResult(result);
+    print('');
+    if (result.pendingApproval) {
+      print(chalk.yellow.bold(`⏸ ${serviceName} is staged and committed, waiting for approval`));
+      return;
+    }
+    if (result.success) {
+      print(chalk.green.bold(`✓ Deployed ${serviceName}`));
+      if (result.verified) {
+        print(chalk.gray(`  Health check passed on ${servers.length} server(s)`));
+      } else {
+        print(chalk.gray('  The server hook will handle: git checkout, npm install, pm2 restart'));
+      }
+    } else {
+      printError(chalk.red.bold(`✗ Deployment of ${serviceName} failed`));
+      if (result.message) {
+        printError(chalk.red(`  ${result.message}`));
+      }
+      process.exitCode = 1;
+    }
+    print(chalk.gray(`  Check logs: gpd logs ${serviceName}`));
   } else {
-    console.log(chalk.yellow('Skipped push (--skip-push). Run manually:'));
-    console.log(chalk.white(`  gpd release ${serviceName}`));
+    print(chalk.yellow('Skipped push (--skip-push). Run manually:'));
+    print(chalk.white(`  gpd release ${serviceName}`));
+    emitResult({ service: serviceName, success: true, released: false, message: 'Skipped push' });
   }
 }
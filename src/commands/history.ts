@@ -0,0 +1,103 @@
+import chalk from 'chalk';
+import { getServiceConfig } from '../config/loader.js';
+import { getServers, type HistoryEntry } from '../config/types.js';
+import { fetchHistory, filterHistory, parseDateFilter, type HistoryFilter } from '../utils/history.js';
+import { print, emitResult } from '../utils/output.js';
+
+interface HistoryOptions {
+  since?: string;
+  until?: string;
+  outcome?: string;
+  lines?: string;
+}
+
+const OUTCOMES: HistoryEntry['outcome'][] = ['success', 'failed'];
+
+/**
+ * Build history filter from command line options
+ */
+function buildFilter(options: HistoryOptions): HistoryFilter {
+  if (options.outcome && !OUTCOMES.includes(options.outcome as HistoryEntry['outcome'])) {
+    throw new Error(`Invalid outcome: "${options.outcome}". Must be one of: ${OUTCOMES.join(', ')}`);
+  }
+  const limit = parseInt(options.lines || '20', 10);
+  
+  return {
+    since: options.since ? parseDateFilter(options.since) : undefined,
+    // --until 2025-01-31 includes that whole day
+    until: options.until ? parseDateFilter(options.until, { endOfDay: true }) : undefined,
+    outcome: options.outcome as HistoryEntry['outcome'] | undefined,
+    limit: isNaN(limit) || limit <= 0 ? undefined : limit
+  };
+}
+
+/**
+ * Print one history entry (plus failed hooks)
+ */
+function printEntry(entry: HistoryEntry): void {
+  const icon = entry.outcome === 'success' ? chalk.green('✓') : chalk.red('✗');
+  const date = new Date(entry.timestamp).toLocaleString();
+  const duration = `${(entry.durationMs / 1000).toFixed(1)}s`;
+  
+  print(
+    `  ${icon} ` +
+    chalk.yellow(entry.commit.substring(0, 7)) +
+    chalk.gray(` ${date} `) +
+    chalk.cyan(entry.deployer) +
+    chalk.gray(` (${duration}) `) +
+    (entry.message || '')
+  );
+  if (entry.error) {
+    print(chalk.red(`      ${entry.error}`));
+  }
+  for (const hook of entry.hooks || []) {
+    if (!hook.success) {
+      print(chalk.yellow(`      hook failed: ${hook.command}`));
+    }
+  }
+}
+
+/**
+ * History command - show the deployment ledger written by `gpd install` on each server
+ * 
+ * Usage:
+ *   gpd history <service>                    - Last 20 installs per server
+ *   gpd history <service> --since 7d         - Installs in the last 7 days
+ *   gpd history <service> --outcome failed   - Only failed installs
+ */
+export async function historyCommand(serviceName: string, options: HistoryOptions = {}): Promise<void> {
+  const config = getServiceConfig(serviceName);
+  const servers = getServers(config);
+  const filter = buildFilter(options);
+  
+  // Read all ledgers in parallel, print in server order
+  const results = await Promise.allSettled(servers.map(server => fetchHistory(server)));
+  
+  emitResult({
+    service: serviceName,
+    servers: results.map((result, index) => ({
+      server: servers[index].name || servers[index].host,
+      ...(result.status === 'fulfilled'
+        ? { entries: filterHistory(result.value, filter) }
+        : { error: result.reason?.message || String(result.reason) })
+    }))
+  });
+  
+  results.forEach((result, index) => {
+    const server = servers[index];
+    const label = server.name || server.host;
+    print(chalk.blue(`Deployment history for ${serviceName} on ${label}:`));
+    
+    if (result.status === 'rejected') {
+      print(chalk.red(`  Could not read history: ${result.reason?.message || result.reason}`));
+    } else {
+      const entries = filterHistory(result.value, filter);
+      if (entries.length === 0) {
+        print(chalk.gray('  No matching deployments'));
+      }
+      // Newest first
+      entries.reverse().forEach(printEntry);
+    }
+    print('');
+  });
+}
@@ -3,6 +3,7 @@ import { getServiceConfig, findConfigFile } from '../config/loader.js';
 import { getServers, type ServerConfig } from '../config/types.js';
 import { sshExec, checkSshConnection, findSshPublicKey, copySshKey, checkSshKeyPermissions } from '../utils/shell.js';
 import * as readline from 'readline';
+import { print, printWarning } from '../utils/output.js';
 
 interface InitOptions {
   skipSshCheck?: boolean;
@@ -31,25 +32,25 @@ async function confirm(question: string): Promise<boolean> {
  * Returns true if connection is ready, false if user aborted
  */
 async function ensureSshConnection(host: string, sshOptions?: string): Promise<boolean> {
-  console.log(chalk.blue('Checking SSH connection...'));
+  print(chalk.blue('Checking SSH connection...'));
   
   // Test connection
   if (checkSshConnection(host, sshOptions)) {
-    console.log(chalk.green('  ✓ SSH key authentication working'));
+    print(chalk.green('  ✓ SSH key authentication working'));
     return true;
   }
   
-  console.log(chalk.yellow('  ⚠ SSH key authentication not working'));
+  printWarning(chalk.yellow('  ⚠ SSH key authentication not working'));
   
   // Find local public key
   const keyPath = findSshPublicKey();
   if (!keyPath) {
-    console.log(chalk.red('  ✗ No SSH public key found (~/.ssh/id_*.pub)'));
-    console.log(chalk.gray('    Generate one with: ssh-keygen -t ed25519'));
+    print(chalk.red('  ✗ No SSH public key found (~/.ssh/id_*.pub)'));
+    print(chalk.gray('    Generate one with: ssh-keygen -t ed25519'));
     return false;
   }
   
-  console.log(chalk.gray(`  Found key: ${keyPath}`));
+  print(chalk.gray(`  Found key: ${keyPath}`));
   
   // Check private key permissions (security warning if too open)
   checkSshKeyPermissions(keyPath);
@@ -57,25 +58,25 @@ async function ensureSshConnection(host: string, sshOptions?: string): Promise<b
   // Offer to copy key
   const shouldCopy = await confirm('  Copy SSH key to server?');
   if (!shouldCopy) {
-    console.log(chalk.yellow('  Skipping SSH key setup. You may need to enter password for each command.'));
+    print(chalk.yellow('  Skipping SSH key setup. You may need to enter password for each command.'));
     return true; // Continue anyway
   }
   
-  console.log(chalk.blue('  Copying SSH key...'));
+  print(chalk.blue('  Copying SSH key...'));
   try {
     copySshKey(host, keyPath, sshOptions);
-    console.log(chalk.green('  ✓ SSH key copied'));
+    print(chalk.green('  ✓ SSH key copied'));
     
     // Verify it works now
     if (checkSshConnection(host, sshOptions)) {
-      console.log(chalk.green('  ✓ SSH key authentication now working'));
+      print(chalk.green('  ✓ SSH key authentication now working'));
       return true;
     } else {
-      console.log(chalk.yellow('  ⚠ SSH still requires password. Check server configuration.'));
+      printWarning(chalk.yellow('  ⚠ SSH still requires password. Check server configuration.'));
       return true; // Continue anyway
     }
   } catch (error) {
-    console.log(chalk.red(`  ✗ Failed to copy SSH key: ${error}`));
+    print(chalk.red(`  ✗ Failed to copy SSH key: ${error}`));
     return false;
   }
 }
@@ -104,6 +105,7 @@ function generatePostReceiveHook(serviceName: string, config: {
       `GPD_GIT_DIR="${bareRepo}"`,
       `GPD_SERVICE="${serviceName}"`,
       `GPD_PM2_USER="${pm2User}"`,
+      'GPD_LOCK_ID="$GPD_LOCK_ID"',
     ];
     if (pm2Home) {
       envVars.push(`PM2_HOME="${pm2Home}"`);
@@ -130,6 +132,15 @@ log() {
 
 log "=== Deployment started for $SERVICE ==="
 
+# Deploy lock the push was made under (git push -o gpd-lock=<id>), checked by gpd install
+GPD_LOCK_ID=""
+for ((i = 0; i < \${GIT_PUSH_OPTION_COUNT:-0}; i++)); do
+    option_var="GIT_PUSH_OPTION_$i"
+    case "\${!option_var}" in
+        gpd-lock=*) GPD_LOCK_ID="\${!option_var#gpd-lock=}" ;;
+    esac
+done
+
 while read oldrev newrev refname; do
     BRANCH=$(echo "$refname" | sed 's|refs/heads/||')
     log "Received push to branch: $BRANCH"
@@ -143,6 +154,7 @@ while read oldrev newrev refname; do
     export GPD_TARGET_DIR="$TARGET_DIR"
     export GPD_GIT_DIR="$GIT_DIR"
     export GPD_SERVICE="$SERVICE"
+    export GPD_LOCK_ID
     ${pm2Home ? `export PM2_HOME="${pm2Home}"` : ''}
 
     # Run gpd install (handles checkout, npm install, pm2 restart)
@@ -179,7 +191,7 @@ export async function ensureInitialized(serviceName: string): Promise<void> {
     const isInitialized = checkServerInitialized(server.host, server.bareRepo, server.sshOptions);
     
     if (!isInitialized) {
-      console.log(chalk.yellow(`  Server ${server.host} not initialized, running init...`));
+      print(chalk.yellow(`  Server ${server.host} not initialized, running init...`));
       await initServer(serviceName, server, config, { skipSshCheck: false, quiet: false });
     }
   }
@@ -194,26 +206,26 @@ export async function ensureInitialized(serviceName: string): Promise<void> {
  * 3. Post-receive hook that calls `gpd install <service>`
  */
 export async function initCommand(serviceName: string, _options: InitOptions = {}): Promise<void> {
-  console.log(chalk.blue(`Initializing ${serviceName}...`));
+  print(chalk.blue(`Initializing ${serviceName}...`));
   
   const config = getServiceConfig(serviceName);
   const servers = getServers(config);
   const { pm2User, pm2Home } = config;
   
-  console.log(chalk.gray(`  Servers: ${servers.length}`));
-  if (pm2User) console.log(chalk.gray(`  PM2 user: ${pm2User}`));
-  console.log('');
+  print(chalk.gray(`  Servers: ${servers.length}`));
+  if (pm2User) print(chalk.gray(`  PM2 user: ${pm2User}`));
+  print('');
   
   // Initialize each server
   for (const server of servers) {
     await initServer(serviceName, server, config, _options);
-    if (servers.length > 1) console.log('');
+    if (servers.length > 1) print('');
   }
   
-  console.log(chalk.green(`✓ Initialized ${serviceName} on ${servers.length} server(s)`));
-  console.log('');
-  console.log(chalk.gray('Server setup complete. Now you can deploy:'));
-  console.log(chalk.white(`  gpd deploy ${serviceName}`));
+  print(chalk.green(`✓ Initialized ${serviceName} on ${servers.length} server(s)`));
+  print('');
+  print(chalk.gray('Server setup complete. Now you can deploy:'));
+  print(chalk.white(`  gpd deploy ${serviceName}`));
 }
 
 /**
@@ -229,43 +241,45 @@ async function initServer(
   const { pm2User, pm2Home } = config;
   const serverLabel = server.name || host;
   
-  console.log(chalk.blue(`  Setting up ${serverLabel}...`));
-  console.log(chalk.gray(`    Host: ${host}`));
-  console.log(chalk.gray(`    Bare repo: ${bareRepo}`));
-  console.log(chalk.gray(`    Target dir: ${targetDir}`));
-  if (group) console.log(chalk.gray(`    Group: ${group}`));
+  print(chalk.blue(`  Setting up ${serverLabel}...`));
+  print(chalk.gray(`    Host: ${host}`));
+  print(chalk.gray(`    Bare repo: ${bareRepo}`));
+  print(chalk.gray(`    Target dir: ${targetDir}`));
+  if (group) print(chalk.gray(`    Group: ${group}`));
   
   // 0. Check SSH connection first
   if (!options.skipSshCheck) {
     const sshReady = await ensureSshConnection(host, sshOptions);
     if (!sshReady) {
-      console.log(chalk.red(`  Skipping ${serverLabel} - SSH connection failed`));
+      print(chalk.red(`  Skipping ${serverLabel} - SSH connection failed`));
       return;
     }
   }
   
   // 1. Create group if specified
   if (group) {
-    console.log(chalk.gray(`    Creating group ${group}...`));
+    print(chalk.gray(`    Creating group ${group}...`));
     const createGroupCmd = `sudo groupadd -f ${group} && sudo usermod -aG ${group} $(whoami)`;
     sshExec(host, createGroupCmd, { sshOptions });
   }
   
   // 2. Create bare repo with shared group access
-  console.log(chalk.gray(`    Creating bare repo...`));
+  print(chalk.gray(`    Creating bare repo...`));
   const bareRepoParent = bareRepo.split('/').slice(0, -1).join('/');
   let createBareCmd = `sudo mkdir -p ${bareRepoParent}`;
   if (group) {
     createBareCmd += ` && sudo chgrp ${group} ${bareRepoParent} && sudo chmod g+rwxs ${bareRepoParent}`;
   }
   createBareCmd += ` && cd ${bareRepoParent} && git init --bare --shared=group ${bareRepo.split('/').pop()}`;
+  // Pushes send the deploy lock id as a push option (see acquireInstallLock)
+  createBareCmd += ` && git --git-dir=${bareRepo} config receive.advertisePushOptions true`;
   if (group) {
     createBareCmd += ` && sudo chgrp -R ${group} ${bareRepo}`;
   }
   sshExec(host, createBareCmd, { sshOptions });
   
   // 3. Create target directory
-  console.log(chalk.gray(`    Creating target directory...`));
+  print(chalk.gray(`    Creating target directory...`));
   const targetParent = targetDir.split('/').slice(0, -1).join('/');
   let createTargetCmd = `sudo mkdir -p ${targetDir}`;
   if (pm2User) {
@@ -277,7 +291,7 @@ async function initServer(
   sshExec(host, createTargetCmd, { sshOptions });
   
   // 4. Create post-receive hook
-  console.log(chalk.gray(`    Creating post-receive hook...`));
+  print(chalk.gray(`    Creating post-receive hook...`));
   const hookContent = generatePostReceiveHook(serviceName, {
     targetDir,
     bareRepo,
@@ -296,7 +310,7 @@ async function initServer(
   }
   
   // 5. Create log file
-  console.log(chalk.gray(`    Creating log file...`));
+  print(chalk.gray(`    Creating log file...`));
   const logFile = `/var/log/gpd-${serviceName}.log`;
   let createLogCmd = `sudo touch ${logFile} && sudo chmod 666 ${logFile}`;
   if (group) {
@@ -304,5 +318,5 @@ async function initServer(
   }
   sshExec(host, createLogCmd, { sshOptions });
   
-  console.log(chalk.green(`  ✓ Initialized on ${serverLabel}`));
+  print(chalk.green(`  ✓ Initialized on ${serverLabel}`));
 }
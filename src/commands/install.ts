@@ -1,9 +1,33 @@
 ﻿import chalk from 'chalk';
 import { execSync } from 'child_process';
-import { existsSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { getServiceConfig, findConfigFile } from '../config/loader.js';
-import type { ServiceConfig } from '../config/types.js';
+import { existsSync, writeFileSync, mkdirSync, readFileSync, symlinkSync, copyFileSync } from 'fs';
+import { join, basename } from 'path';
+import {
+  getServiceConfig,
+  selectServiceConfig,
+  parseConfig,
+  validateServiceConfig,
+  substituteEnvVarsInObject,
+  CONFIG_FILENAME
+} from '../config/loader.js';
+import { decryptSecrets, loadKey } from '../config/secrets.js';
+import { MANIFEST_FILENAME, parseManifest } from '../config/manifest.js';
+import { INSTALL_STATUS_FILENAME, HISTORY_FILENAME, type InstallConfig, type InstallStatus, type HookResult, type DeployLock } from '../config/types.js';
+import { generateSystemdUnit, getSystemdUnitName, getSystemdUnitPath } from '../utils/systemd.js';
+import { buildComposeCommand } from '../utils/docker.js';
+import { gitShowFile } from '../utils/git.js';
+import { appendHistoryEntry } from '../utils/history.js';
+import { DEFAULT_LOCK_TIMEOUT, createLock, formatLock, acquireLocalLock, removeLocalLock, readPushedLockId } from '../utils/lock.js';
+import {
+  DEFAULT_KEEP_RELEASES,
+  findRelease,
+  createReleaseDir,
+  markReleaseComplete,
+  getCurrentRelease,
+  getAppDir,
+  switchCurrentRelease,
+  pruneReleases
+} from '../utils/releases.js';
 
 interface InstallOptions {
   configPath?: string;
@@ -59,6 +83,87 @@ function execAsUser(cmd: string, user: string, options: { cwd?: string; env?: Re
   }
 }
 
+/**
+ * Write install outcome to target dir
+ * Read back by the client after the push to detect failed installs
+ */
+function writeInstallStatus(targetDir: string, status: InstallStatus): void {
+  try {
+    writeFileSync(join(targetDir, INSTALL_STATUS_FILENAME), JSON.stringify(status, null, 2) + '\n');
+  } catch (error: any) {
+    console.log(chalk.yellow(`  Could not write ${INSTALL_STATUS_FILENAME}: ${error.message}`));
+  }
+}
+
+/**
+ * Deployer and message of the deploy commit
+ * The deployer is the author of the deploy commit (the user who ran gpd release)
+ */
+function readDeployCommit(gitDir: string, commit: string): { deployer: string; message?: string } {
+  try {
+    const [author, subject] = execSync(`git --git-dir="${gitDir}" log -1 --format=%an%n%s ${commit}`, { encoding: 'utf-8', stdio: 'pipe' })
+      .trim()
+      .split('\n');
+    return { deployer: author || 'unknown', message: subject };
+  } catch {
+    return { deployer: 'unknown' };
+  }
+}
+
+/**
+ * Append the install to the history ledger in target dir
+ */
+function recordHistory(
+  targetDir: string,
+  commit: string,
+  deployCommit: { deployer: string; message?: string },
+  startedAt: Date,
+  hooks: HookResult[],
+  error?: string
+): void {
+  const { deployer, message } = deployCommit;
+  try {
+    appendHistoryEntry(targetDir, {
+      commit,
+      deployer,
+      message,
+      timestamp: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome: error ? 'failed' : 'success',
+      error,
+      hooks: hooks.length > 0 ? hooks : undefined
+    });
+  } catch (err: any) {
+    console.log(chalk.yellow(`  Could not write ${HISTORY_FILENAME}: ${err.message}`));
+  }
+}
+
+/**
+ * Take the deployment lock for this install
+ * A deploy lock covers the install of the push made under it (its id comes with the push, see readPushedLockId);
+ * any other live lock (someone else's deploy, a running install, a maintenance lock) refuses it.
+ * @returns Lock to release after the install (undefined if the deploy's lock covers it)
+ */
+function acquireInstallLock(targetDir: string, deployer: string, lockId?: string): DeployLock | undefined {
+  mkdirSync(targetDir, { recursive: true });
+  const lock = createLock('install', deployer, { timeout: DEFAULT_LOCK_TIMEOUT });
+  const held = acquireLocalLock(targetDir, lock);
+  if (!held) return lock;
+  if (held.operation === 'deploy' && lockId && held.id === lockId) return undefined;
+  throw new Error(`Deployment locked by ${formatLock(held)}`);
+}
+
+/**
+ * Get the commit that was pushed to the bare repo
+ */
+function getPushedCommit(gitDir: string): string {
+  try {
+    return execSync(`git --git-dir="${gitDir}" rev-parse HEAD`, { encoding: 'utf-8', stdio: 'pipe' }).trim();
+  } catch {
+    return '';
+  }
+}
+
 /**
  * Install command - runs on server after git push (called by post-receive hook)
  * 
@@ -66,14 +171,16 @@ function execAsUser(cmd: string, user: string, options: { cwd?: string; env?: Re
  * - GPD_TARGET_DIR: Where to install (e.g., /opt/kairox/staging/kairox-api)
  * - GPD_GIT_DIR: Bare repo path (e.g., /git/sym/deploy-kairox/staging/kairox-api)
  * - GPD_SERVICE: Service name (e.g., kairox-api-staging)
+ * - GPD_LOCK_ID: Id of the deploy lock the push was made under (optional, see acquireInstallLock)
  * - PM2_HOME: PM2 home directory (optional)
  * 
- * Steps:
- * 1. git checkout from bare repo to target dir (config file comes with this!)
- * 2. Load config from target dir
+ * Steps (under the deployment lock, see acquireInstallLock):
+ * 1. Load config from the pushed commit
+ * 2. git checkout to target dir (layout: releases -> releases/<timestamp>-<sha>)
  * 3. Generate .env file from config
  * 4. npm install --omit=dev
- * 5. PM2 restart
+ * 5. Switch `current` symlink (layout: releases)
+ * 6. Restart process manager
  */
 export async function installCommand(serviceName: string, options: InstallOptions = {}): Promise<void> {
   console.log(chalk.blue(`Installing ${serviceName}...`));
@@ -87,25 +194,96 @@ export async function installCommand(serviceName: string, options: InstallOption
     throw new Error('GPD_TARGET_DIR and GPD_GIT_DIR must be set. This command should be run by the post-receive hook.');
   }
 
-  console.log(chalk.gray(`  Target: ${targetDir}`));
-  console.log(chalk.gray(`  Git dir: ${gitDir}`));
+  // Record the outcome so the client can tell whether the install succeeded,
+  // and append it to the history ledger
+  const commit = getPushedCommit(gitDir);
+  const deployCommit = readDeployCommit(gitDir, commit);
+  const startedAt = new Date();
+  const hookResults: HookResult[] = [];
+  let lock: DeployLock | undefined;
+  try {
+    lock = acquireInstallLock(targetDir, deployCommit.deployer, readPushedLockId());
+    await runInstall(serviceName, options, targetDir, gitDir, pm2User, commit, hookResults);
+    writeInstallStatus(targetDir, { commit, success: true, timestamp: new Date().toISOString() });
+    recordHistory(targetDir, commit, deployCommit, startedAt, hookResults);
+  } catch (error: any) {
+    writeInstallStatus(targetDir, { commit, success: false, timestamp: new Date().toISOString(), error: error.message });
+    recordHistory(targetDir, commit, deployCommit, startedAt, hookResults, error.message);
+    throw error;
+  } finally {
+    if (lock) {
+      removeLocalLock(targetDir, lock.id);
+    }
+  }
+}
 
-  // 1. Git checkout FIRST - this brings .git-deploy.json to target dir
-  console.log(chalk.blue('Checking out files...'));
-  const checkoutCmd = `git --work-tree="${targetDir}" --git-dir="${gitDir}" checkout -f`;
-  exec(checkoutCmd);
+/**
+ * Read the service manifest of the pushed commit
+ * Substitutes ${VAR} from the server environment and decrypts referenced secrets with the server's key.
+ */
+function readManifestConfig(serviceName: string, gitDir: string, content: string): InstallConfig {
+  const source = `${gitDir}:${MANIFEST_FILENAME}`;
+  const manifest = parseManifest(content, source);
+  if (manifest.service !== serviceName) {
+    throw new Error(`${source} is for service '${manifest.service}', not '${serviceName}'`);
+  }
+  
+  const secrets = manifest.secrets ? decryptSecrets(manifest.secrets, loadKey(), source) : {};
+  const config = substituteEnvVarsInObject(manifest.config, secrets);
+  validateServiceConfig(serviceName, config);
+  return config;
+}
 
-  // 2. NOW load config from target dir (file exists after checkout)
-  const configPath = options.configPath || join(targetDir, '.git-deploy.json');
-  if (!existsSync(configPath)) {
-    throw new Error(`.git-deploy.json not found at ${configPath}. Make sure it's included in artifacts.`);
+/**
+ * Load service config for install
+ * Read from the pushed commit (.gpd-manifest.json, or the whole .git-deploy.json for commits
+ * staged by older versions), so the layout is known before anything is checked out.
+ * An explicit --config path takes precedence, except the legacy hook default
+ * <targetDir>/.git-deploy.json, which is the same file as the pushed one.
+ */
+function loadInstallConfig(serviceName: string, gitDir: string, targetDir: string, configPath?: string): InstallConfig {
+  if (configPath && configPath !== join(targetDir, CONFIG_FILENAME)) {
+    return getServiceConfig(serviceName, configPath);
   }
+  
+  const manifest = gitShowFile(gitDir, 'HEAD', MANIFEST_FILENAME);
+  if (manifest) {
+    return readManifestConfig(serviceName, gitDir, manifest);
+  }
+  
+  const content = gitShowFile(gitDir, 'HEAD', CONFIG_FILENAME);
+  if (!content) {
+    if (configPath && existsSync(configPath)) {
+      return getServiceConfig(serviceName, configPath);
+    }
+    throw new Error(`${MANIFEST_FILENAME} not found in pushed commit. Stage the service with 'gpd stage' before releasing.`);
+  }
+  return selectServiceConfig(parseConfig(content, `${gitDir}:${CONFIG_FILENAME}`), serviceName);
+}
 
-  const config = getServiceConfig(serviceName, configPath);
-  const { processName, pm2Home, pm2User: configPm2User, env } = config;
+/**
+ * Run the install steps (checkout, .env, npm install, hooks, restart)
+ */
+async function runInstall(
+  serviceName: string,
+  options: InstallOptions,
+  targetDir: string,
+  gitDir: string,
+  pm2User: string | undefined,
+  commit: string,
+  hookResults: HookResult[]
+): Promise<void> {
+  console.log(chalk.gray(`  Target: ${targetDir}`));
+  console.log(chalk.gray(`  Git dir: ${gitDir}`));
+
+  // 1. Load config from the pushed commit
+  const config = loadInstallConfig(serviceName, gitDir, targetDir, options.configPath);
+  const { pm2Home, pm2User: configPm2User, env } = config;
   const effectivePm2User = configPm2User || pm2User;
+  const useReleases = config.layout === 'releases';
 
   if (effectivePm2User) console.log(chalk.gray(`  PM2 user: ${effectivePm2User}`));
+  if (useReleases) console.log(chalk.gray(`  Layout: releases (keep ${config.keepReleases || DEFAULT_KEEP_RELEASES})`));
 
   // Environment for npm/pm2 commands
   const cmdEnv: Record<string, string> = {};
@@ -114,61 +292,129 @@ export async function installCommand(serviceName: string, options: InstallOption
     cmdEnv.HOME = `/opt/kairox`; // Use app directory as home for npm cache
   }
 
-  // 2. Generate .env file from config
+  // 2. Check out files
+  // In-place: directly into target dir. Releases: into a new releases/<timestamp>-<sha> dir,
+  // or reuse an already installed release of this commit (e.g. rollback)
+  let appDir = targetDir;
+  let reusedRelease = false;
+  if (useReleases) {
+    const existingRelease = findRelease(targetDir, commit);
+    if (existingRelease) {
+      console.log(chalk.blue(`Reusing installed release ${basename(existingRelease)}...`));
+      appDir = existingRelease;
+      reusedRelease = true;
+    } else {
+      appDir = createReleaseDir(targetDir, commit);
+      console.log(chalk.blue(`Checking out release ${basename(appDir)}...`));
+      exec(`git --git-dir="${gitDir}" archive ${commit} | tar -x -C "${appDir}"`);
+    }
+  } else {
+    console.log(chalk.blue('Checking out files...'));
+    const checkoutCmd = `git --work-tree="${targetDir}" --git-dir="${gitDir}" checkout -f`;
+    exec(checkoutCmd);
+  }
+
+  // 3. Generate .env file from config
   // Note: When running via hook with sudo -u <user>, we're already that user
   // so files we create already have correct ownership
   if (env && Object.keys(env).length > 0) {
     console.log(chalk.blue('Generating .env file...'));
-    const envPath = join(targetDir, '.env');
+    const envPath = join(appDir, '.env');
     const envContent = generateEnvContent(env);
     writeFileSync(envPath, envContent + '\n');
     console.log(chalk.gray(`  Written to ${envPath}`));
   }
 
-  // 3. Create logs directory if needed
+  // 4. Create logs directory if needed (shared between releases)
   // Note: We're running as the target user, so new dirs have correct ownership
   const logsDir = join(targetDir, 'logs');
   if (!existsSync(logsDir)) {
     mkdirSync(logsDir, { recursive: true });
     console.log(chalk.gray(`  Created ${logsDir}`));
   }
+  if (useReleases && !existsSync(join(appDir, 'logs'))) {
+    symlinkSync(logsDir, join(appDir, 'logs'));
+  }
 
-  // 4. npm install
+  const processManager = config.processManager || 'pm2';
+
+  // 5. npm install (docker images bring their own dependencies, reused releases are already installed)
   // Note: When invoked via hook, we're already running as the correct user
   // Use explicit cache path to avoid permission issues
   // Scripts should check NODE_ENV and skip themselves in production
-  console.log(chalk.blue('Installing dependencies...'));
-  const npmCachePath = pm2Home ? `${pm2Home.replace('/.pm2', '')}/.npm` : undefined;
-  const npmCmd = npmCachePath 
-    ? `npm install --omit=dev --cache="${npmCachePath}"`
-    : `npm install --omit=dev`;
-  exec(npmCmd, { cwd: targetDir });
-
-  // 5. Run post-deploy hooks (server-side, after npm install)
+  if (processManager !== 'docker' && !reusedRelease) {
+    console.log(chalk.blue('Installing dependencies...'));
+    const npmCachePath = pm2Home ? `${pm2Home.replace('/.pm2', '')}/.npm` : undefined;
+    const npmCmd = npmCachePath 
+      ? `npm install --omit=dev --cache="${npmCachePath}"`
+      : `npm install --omit=dev`;
+    exec(npmCmd, { cwd: appDir });
+  }
+  if (useReleases && !reusedRelease) {
+    markReleaseComplete(appDir, commit);
+  }
+
+  // 6. Run post-deploy hooks (server-side, after npm install)
   if (config.hooks?.postDeploy && config.hooks.postDeploy.length > 0) {
     console.log(chalk.yellow(`⚠ Running post-deploy hooks (${config.hooks.postDeploy.length} commands)...`));
-    console.log(chalk.gray(`  Working directory: ${targetDir}`));
+    console.log(chalk.gray(`  Working directory: ${appDir}`));
     for (const hookCmd of config.hooks.postDeploy) {
       console.log(chalk.yellow(`  ▶ ${hookCmd}`));
+      const hookStart = Date.now();
       try {
-        exec(hookCmd, { cwd: targetDir });
+        exec(hookCmd, { cwd: appDir });
         console.log(chalk.green(`  ✓ Hook completed`));
+        hookResults.push({ command: hookCmd, success: true, durationMs: Date.now() - hookStart });
       } catch (error) {
         console.log(chalk.red(`  ✗ Hook failed: ${hookCmd}`));
+        hookResults.push({ command: hookCmd, success: false, durationMs: Date.now() - hookStart });
         // Continue with other hooks, but warn
       }
     }
   }
 
-  // 6. Restart process manager
-  const processManager = config.processManager || 'pm2';
-  
-  if (processManager === 'gpdd') {
-    await restartWithGpdd(config, targetDir, cmdEnv);
-  } else if (processManager === 'pm2') {
-    await restartWithPm2(config, targetDir, cmdEnv);
-  } else {
-    console.log(chalk.yellow(`Unsupported process manager: ${processManager}`));
+  // 7. Releases: atomically switch `current` to the new release
+  // The process manager runs from `current`, so it picks up the new release on restart
+  let previousRelease: string | null = null;
+  if (useReleases) {
+    previousRelease = getCurrentRelease(targetDir);
+    // gpdd keeps its pid file in the app dir - carry it over so the running daemon gets reloaded
+    if (previousRelease && previousRelease !== appDir && existsSync(join(previousRelease, '.gpdd.pid'))) {
+      copyFileSync(join(previousRelease, '.gpdd.pid'), join(appDir, '.gpdd.pid'));
+    }
+    switchCurrentRelease(targetDir, appDir);
+    console.log(chalk.gray(`  current -> ${basename(appDir)}`));
+  }
+  const runDir = getAppDir(config, targetDir);
+
+  // 8. Restart process manager
+  try {
+    if (processManager === 'gpdd') {
+      await restartWithGpdd(config, runDir, cmdEnv);
+    } else if (processManager === 'pm2') {
+      await restartWithPm2(config, runDir, cmdEnv);
+    } else if (processManager === 'systemd') {
+      await restartWithSystemd(config, runDir);
+    } else if (processManager === 'docker') {
+      await restartWithDocker(config, runDir);
+    } else {
+      console.log(chalk.yellow(`Unsupported process manager: ${processManager}`));
+    }
+  } catch (error) {
+    // Point `current` back at the previous release so the next restart runs known-good code
+    if (useReleases && previousRelease && previousRelease !== appDir) {
+      switchCurrentRelease(targetDir, previousRelease);
+      console.log(chalk.yellow(`  current -> ${basename(previousRelease)} (restored after failed restart)`));
+    }
+    throw error;
+  }
+
+  // 9. Releases: remove old releases
+  if (useReleases) {
+    const removed = pruneReleases(targetDir, config.keepReleases || DEFAULT_KEEP_RELEASES);
+    if (removed.length > 0) {
+      console.log(chalk.gray(`  Removed old releases: ${removed.join(', ')}`));
+    }
   }
 
   console.log(chalk.green(`✓ Installed ${serviceName}`));
@@ -178,7 +424,7 @@ export async function installCommand(serviceName: string, options: InstallOption
  * Restart service using PM2
  */
 async function restartWithPm2(
-  config: ServiceConfig, 
+  config: InstallConfig, 
   targetDir: string, 
   cmdEnv: Record<string, string>
 ): Promise<void> {
@@ -230,7 +476,7 @@ async function restartWithPm2(
  * Zero-downtime cluster restart
  */
 async function restartWithGpdd(
-  config: ServiceConfig,
+  config: InstallConfig,
   targetDir: string,
   cmdEnv: Record<string, string>
 ): Promise<void> {
@@ -292,3 +538,110 @@ async function restartWithGpdd(
     console.log(chalk.yellow('Could not get gpdd status (process may still be starting)'));
   }
 }
+
+/**
+ * Run a systemctl query (is-active, show) and return its output
+ */
+function querySystemctl(args: string): string {
+  try {
+    return execSync(`systemctl ${args}`, { encoding: 'utf-8', stdio: 'pipe' }).trim();
+  } catch (error: any) {
+    // Non-zero exit (e.g. is-active of an inactive unit) still prints the state
+    return error.stdout?.toString().trim() || '';
+  }
+}
+
+/**
+ * Restart service using systemd
+ * Creates/updates the unit file (with .env as EnvironmentFile), restarts and verifies it is active.
+ * Requires sudo rights for tee/systemctl on the server.
+ */
+async function restartWithSystemd(config: InstallConfig, targetDir: string): Promise<void> {
+  const unitName = getSystemdUnitName(config.processName);
+  const unitPath = getSystemdUnitPath(unitName);
+  const user = config.pm2User || process.env.USER || 'root';
+  
+  console.log(chalk.blue(`Managing systemd unit ${unitName}...`));
+  
+  const unitContent = generateSystemdUnit({
+    description: `${config.processName} (gpd)`,
+    workingDirectory: targetDir,
+    envFile: join(targetDir, '.env'),
+    user,
+    group: user,
+    execStart: config.systemdExecStart || '/usr/bin/env node dist/index.js',
+    environment: config.environment,
+    afterServices: config.systemdAfterServices
+  }) + '\n';
+  
+  // Only rewrite the unit (and reload systemd) if it changed
+  const currentContent = existsSync(unitPath) ? readFileSync(unitPath, 'utf-8') : '';
+  if (currentContent !== unitContent) {
+    console.log(chalk.gray(`$ sudo tee ${unitPath}`));
+    try {
+      execSync(`sudo tee ${unitPath} > /dev/null`, { input: unitContent, stdio: ['pipe', 'inherit', 'inherit'] });
+    } catch {
+      throw new Error(`Could not write ${unitPath}`);
+    }
+    exec('sudo systemctl daemon-reload');
+    exec(`sudo systemctl enable ${unitName}`);
+  }
+  
+  exec(`sudo systemctl restart ${unitName}`);
+  
+  // Verify the unit stays active (catches crash on startup): a crashing unit cycles through
+  // Restart=on-failure and can look active on a single poll, so require two active polls
+  // in a row without a restart in between
+  console.log(chalk.blue('Verifying service is active...'));
+  let state = '';
+  let activePolls = 0;
+  let lastRestarts: string | undefined;
+  for (let attempt = 0; attempt < 5 && activePolls < 2; attempt++) {
+    await new Promise(r => setTimeout(r, 2000));
+    state = querySystemctl(`is-active ${unitName}`) || 'unknown';
+    const restarts = querySystemctl(`show -p NRestarts --value ${unitName}`);
+    if (state !== 'active') {
+      activePolls = 0;
+    } else {
+      activePolls = activePolls > 0 && restarts === lastRestarts ? activePolls + 1 : 1;
+    }
+    lastRestarts = restarts;
+  }
+  
+  if (activePolls < 2) {
+    try {
+      exec(`journalctl -u ${unitName} -n 20 --no-pager`);
+    } catch {
+      // Ignore - journal may not be readable by this user
+    }
+    throw new Error(`systemd unit ${unitName} is ${state === 'active' ? 'restarting (crash loop)' : state}`);
+  }
+  
+  console.log(chalk.green(`  ✓ ${unitName} is active`));
+}
+
+/**
+ * Restart service using docker compose
+ * Loads the image from the artifacts (dockerImageArchive) or builds it, then recreates containers.
+ */
+async function restartWithDocker(config: InstallConfig, targetDir: string): Promise<void> {
+  const useEnvFile = existsSync(join(targetDir, '.env'));
+  
+  console.log(chalk.blue(`Managing docker compose project ${config.processName}...`));
+  
+  if (config.dockerImageArchive) {
+    const archivePath = join(targetDir, config.dockerImageArchive);
+    if (!existsSync(archivePath)) {
+      throw new Error(`Docker image archive not found: ${archivePath}. Make sure it's included in artifacts.`);
+    }
+    exec(`docker load -i "${archivePath}"`, { cwd: targetDir });
+  } else {
+    exec(buildComposeCommand(config, 'build', { envFile: useEnvFile }), { cwd: targetDir });
+  }
+  
+  exec(buildComposeCommand(config, 'up -d --remove-orphans', { envFile: useEnvFile }), { cwd: targetDir });
+  
+  // Show status
+  console.log(chalk.blue('Container status:'));
+  exec(buildComposeCommand(config, 'ps'), { cwd: targetDir });
+}
@@ -0,0 +1,96 @@
+import chalk from 'chalk';
+import { getServiceConfig, getWorkspaceRoot } from '../config/loader.js';
+import { getServers, type ServerConfig } from '../config/types.js';
+import { createLock, getLockHolder, formatLock, isLockStale, acquireServiceLock, readServerLock, removeServerLock } from '../utils/lock.js';
+import { print, printWarning, printError, emitResult } from '../utils/output.js';
+
+interface LockOptions {
+  reason?: string;
+}
+
+interface UnlockOptions {
+  /** Also remove live deploy/install locks (e.g. left behind by a killed deploy) */
+  force?: boolean;
+}
+
+/**
+ * Lock command - freeze deployments of a service for maintenance
+ * 
+ * Takes a maintenance lock on every server: `gpd deploy` and the post-receive hook
+ * (`gpd install`) refuse to run until `gpd unlock`. Maintenance locks never go stale.
+ * 
+ * Usage:
+ *   gpd lock <service>
+ *   gpd lock <service> --reason "database migration"
+ */
+export async function lockCommand(serviceName: string, options: LockOptions = {}): Promise<void> {
+  const config = getServiceConfig(serviceName);
+  const servers = getServers(config);
+  const lock = createLock('maintenance', getLockHolder(getWorkspaceRoot()), { reason: options.reason });
+  
+  const broken = await acquireServiceLock(servers, lock);
+  for (const { server, lock: stale } of broken) {
+    printWarning(chalk.yellow(`⚠ Broke stale lock on ${server}: ${formatLock(stale)}`));
+  }
+  
+  emitResult({ service: serviceName, locked: true, servers: servers.map(s => s.name || s.host), lock });
+  print(chalk.green(`✓ Locked ${serviceName} on ${servers.length} server(s)${options.reason ? `: ${options.reason}` : ''}`));
+  print(chalk.gray(`  Deploys are refused until: gpd unlock ${serviceName}`));
+}
+
+/**
+ * Remove the lock of one server
+ * @returns Whether a lock was removed, and who held it
+ * @throws Error if a live deploy/install lock is held and --force is not given
+ */
+async function unlockServer(server: ServerConfig, options: UnlockOptions): Promise<{ removed: boolean; holder?: string }> {
+  if (options.force) {
+    const lock = await readServerLock(server).catch(() => undefined);
+    await removeServerLock(server);
+    return { removed: true, holder: lock?.holder };
+  }
+  
+  const lock = await readServerLock(server);
+  if (!lock) return { removed: false };
+  if (lock.operation !== 'maintenance' && !isLockStale(lock)) {
+    throw new Error(`${formatLock(lock)} is still running (use --force to remove it anyway)`);
+  }
+  await removeServerLock(server, lock.id);
+  return { removed: true, holder: lock.holder };
+}
+
+/**
+ * Unlock command - lift a maintenance freeze (or, with --force, remove a leftover deploy lock)
+ * 
+ * Usage:
+ *   gpd unlock <service>
+ *   gpd unlock <service> --force
+ */
+export async function unlockCommand(serviceName: string, options: UnlockOptions = {}): Promise<void> {
+  const config = getServiceConfig(serviceName);
+  const servers = getServers(config);
+  
+  const results = await Promise.allSettled(servers.map(server => unlockServer(server, options)));
+  
+  const serverResults = results.map((result, index) => ({
+    server: servers[index].name || servers[index].host,
+    ...(result.status === 'fulfilled'
+      ? result.value
+      : { removed: false, error: result.reason?.message || String(result.reason) })
+  }));
+  const failed = serverResults.filter(r => 'error' in r);
+  emitResult({ service: serviceName, success: failed.length === 0, servers: serverResults });
+  
+  for (const result of serverResults) {
+    if ('error' in result) {
+      printError(chalk.red(`  ✗ ${result.server}: ${result.error}`));
+    } else if (result.removed) {
+      print(chalk.green(`  ✓ ${result.server}: unlocked${result.holder ? ` (was held by ${result.holder})` : ''}`));
+    } else {
+      print(chalk.gray(`  - ${result.server}: not locked`));
+    }
+  }
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -1,7 +1,10 @@
 import chalk from 'chalk';
 import { spawn } from 'child_process';
 import { getServiceConfig } from '../config/loader.js';
-import { getPrimaryServer } from '../config/types.js';
+import { getPrimaryServer, type ServiceConfig } from '../config/types.js';
+import { getSystemdUnitName } from '../utils/systemd.js';
+import { buildComposeCommand } from '../utils/docker.js';
+import { getAppDir } from '../utils/releases.js';
 
 interface LogsOptions {
   lines?: string;
@@ -9,18 +12,32 @@ interface LogsOptions {
 }
 
 /**
- * Logs command - show PM2 logs from server via SSH
+ * Build the remote logs command for the service's process manager
+ */
+function buildLogsCommand(config: ServiceConfig, targetDir: string, lines: string, follow: boolean): string {
+  if (config.processManager === 'docker') {
+    return `cd "${getAppDir(config, targetDir)}" && ${buildComposeCommand(config, `logs --tail ${lines}${follow ? ' -f' : ''}`)}`;
+  }
+  
+  if (config.processManager === 'systemd') {
+    const unitName = getSystemdUnitName(config.processName);
+    return `journalctl -u ${unitName} -n ${lines} --no-pager${follow ? ' -f' : ''}`;
+  }
+  
+  const pm2Env = config.pm2Home ? `PM2_HOME=${config.pm2Home}` : '';
+  return `${pm2Env} pm2 logs ${config.processName} --lines ${lines}${follow ? '' : ' --nostream'}`;
+}
+
+/**
+ * Logs command - show logs from server via SSH (PM2 logs, journalctl for systemd, docker compose logs for docker)
  * Note: For multi-server, shows logs from primary server only
  */
 export async function logsCommand(serviceName: string, options: LogsOptions = {}): Promise<void> {
   const config = getServiceConfig(serviceName);
   const primaryServer = getPrimaryServer(config);
-  const { host, sshOptions } = primaryServer;
-  const { processName, pm2Home } = config;
+  const { host, sshOptions, targetDir } = primaryServer;
   const lines = options.lines || '50';
   
-  const pm2Env = pm2Home ? `PM2_HOME=${pm2Home}` : '';
-  
   console.log(chalk.blue(`Logs for ${serviceName} from ${host}...`));
   console.log('');
   
@@ -29,7 +46,7 @@ export async function logsCommand(serviceName: string, options: LogsOptions = {}
   
   if (options.follow) {
     // Use spawn for follow mode with SSH
-    const sshArgs = [...sshBaseArgs, host, `${pm2Env} pm2 logs ${processName} --lines ${lines}`];
+    const sshArgs = [...sshBaseArgs, host, buildLogsCommand(config, targetDir, lines, true)];
     const ssh = spawn('ssh', sshArgs, {
       stdio: 'inherit'
     });
@@ -39,7 +56,7 @@ export async function logsCommand(serviceName: string, options: LogsOptions = {}
     });
   } else {
     // Non-follow mode: get last N lines
-    const sshArgs = [...sshBaseArgs, host, `${pm2Env} pm2 logs ${processName} --lines ${lines} --nostream`];
+    const sshArgs = [...sshBaseArgs, host, buildLogsCommand(config, targetDir, lines, false)];
     const ssh = spawn('ssh', sshArgs, {
       stdio: 'inherit'
     });
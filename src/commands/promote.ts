@@ -0,0 +1,171 @@
+import chalk from 'chalk';
+import { getServiceConfig, getWorkspaceRoot, getDeployRepoPath } from '../config/loader.js';
+import { MANIFEST_FILENAME } from '../config/manifest.js';
+import { BUILD_INFO_FILENAME, getServers, getPrimaryServer, type ServiceConfig, type DeploymentResult } from '../config/types.js';
+import { getCommitByRef, gitImportTree, gitRestoreHead, gitAddAll, hasChanges, listTreeFiles } from '../utils/git.js';
+import { exists, joinPath } from '../utils/files.js';
+import { readStagedList, writeStagedList } from '../utils/artifacts.js';
+import { inspectServer } from '../utils/inspect.js';
+import { readVerifiedReleases } from '../utils/verify.js';
+import { enforceDeployWindow, type FreezeOptions } from '../utils/windows.js';
+import { assertNoPendingRelease } from '../utils/approval.js';
+import { initDeployRepoIfNeeded, writeServiceManifest } from './stage.js';
+import { releaseCommand } from './release.js';
+import { lockService, unlockService } from './deploy.js';
+import { print, printWarning, printError, emitEvent, emitResult } from '../utils/output.js';
+
+interface PromoteOptions extends FreezeOptions {
+  message?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Commit that is live on every server of a service (as installed, see getDeployedCommit)
+ * @throws Error if a server is unreachable, has nothing deployed or no successful install of it, or if servers run different commits
+ */
+async function getLiveCommit(serviceName: string, config: ServiceConfig): Promise<string> {
+  const states = await Promise.all(getServers(config).map(server => inspectServer(config, server)));
+  
+  const unreachable = states.filter(state => !state.reachable);
+  if (unreachable.length > 0) {
+    throw new Error(`Cannot determine the live commit of ${serviceName}: ${unreachable.map(s => `${s.server} unreachable (${s.error})`).join(', ')}`);
+  }
+  const empty = states.filter(state => !state.commit);
+  if (empty.length > 0) {
+    throw new Error(`${serviceName} has nothing deployed on ${empty.map(s => s.server).join(', ')}`);
+  }
+  const unverified = states.filter(state => !state.commitVerified);
+  if (unverified.length > 0) {
+    throw new Error(`Cannot confirm what ${serviceName} runs on ${unverified.map(s => s.server).join(', ')} (no successful install status)`);
+  }
+  const commits = new Set(states.map(state => state.commit));
+  if (commits.size > 1) {
+    const live = states.map(s => `${s.server}: ${s.commit!.substring(0, 7)}`).join(', ');
+    throw new Error(`${serviceName} servers run different commits (${live}), finish or roll back that rollout first`);
+  }
+  return states[0].commit!;
+}
+
+/**
+ * Promote command - push the exact release that is live on one service to another
+ * 
+ * Build once, test on staging, then ship the same artifacts to production:
+ * 1. Find the deploy repo commit live on the source service's servers
+ * 2. Refuse unless that commit passed verification when it was released (install + health check)
+ * 3. Copy its tree into the target service's deploy repo, re-rendering only the service manifest
+ *    (env, hooks, secrets of the target - the server renders .env from it)
+ * 4. Release the target like `gpd release` (commit, push, verify, notify)
+ * 
+ * Usage:
+ *   gpd promote <from-service> <to-service>
+ *   gpd promote api-staging api-production --dry-run
+ */
+export async function promoteCommand(fromService: string, toService: string, options: PromoteOptions = {}): Promise<void> {
+  if (fromService === toService) {
+    throw new Error('Cannot promote a service to itself');
+  }
+  
+  const fromConfig = getServiceConfig(fromService);
+  const toConfig = getServiceConfig(toService);
+  const workspaceRoot = getWorkspaceRoot();
+  const fromRepoPath = getDeployRepoPath(fromConfig, workspaceRoot);
+  const toRepoPath = getDeployRepoPath(toConfig, workspaceRoot);
+  
+  print(chalk.blue.bold(`${options.dryRun ? '[DRY RUN] ' : ''}Promoting ${fromService} → ${toService}`));
+  
+  // Deploy windows of the target (before its deploy repo is touched)
+  const freezeOverride = enforceDeployWindow(toConfig, options);
+  
+  if (!exists(joinPath(fromRepoPath, '.git'))) {
+    throw new Error(`Deploy repo of ${fromService} not found at ${fromRepoPath}. Have you deployed it before?`);
+  }
+  
+  // 1. The release that is live on the source service
+  const commit = await getLiveCommit(fromService, fromConfig);
+  const shortCommit = commit.substring(0, 7);
+  print(chalk.gray(`  Live on ${fromService}: ${shortCommit}`));
+  if (!getCommitByRef(fromRepoPath, commit)) {
+    throw new Error(`Commit ${shortCommit} is not in the local deploy repo of ${fromService} (released from another machine?)`);
+  }
+  
+  // 2. Only verified releases are promoted
+  const verified = readVerifiedReleases(fromRepoPath)[commit];
+  if (!verified) {
+    throw new Error(`${fromService} ${shortCommit} was never verified healthy, refusing to promote it. ` +
+      `Only releases that passed verification on all servers (gpd release/deploy) can be promoted.`);
+  }
+  print(chalk.gray(`  Verified: ${verified.verifiedAt} on ${verified.servers.join(', ')}`));
+  if (!verified.healthChecked) {
+    printWarning(chalk.yellow(`  ⚠ ${fromService} has no health check, ${shortCommit} was only verified by its install status`));
+  }
+  
+  await assertNoPendingRelease(toService, toConfig, toRepoPath);
+  if (exists(joinPath(toRepoPath, '.git')) && hasChanges(toRepoPath)) {
+    throw new Error(`Deploy repo of ${toService} has unreleased changes. Release or discard them before promoting.`);
+  }
+  
+  const files = listTreeFiles(fromRepoPath, commit);
+  const servers = getServers(toConfig).map(s => s.name || s.host).join(', ');
+  if (options.dryRun) {
+    print(chalk.gray(`  Would copy the tree of ${shortCommit} (${files.length} files) to ${toConfig.sourceDir}/${toConfig.deployRepo}`));
+    print(chalk.gray(`  Would re-render ${MANIFEST_FILENAME} for ${toService}`));
+    print(chalk.gray(`  Would release to: ${servers}`));
+    emitResult({ service: toService, dryRun: true, promotedFrom: { service: fromService, commit } });
+    return;
+  }
+  
+  // The target is locked like for a deploy while its deploy repo is touched and released
+  const lock = await lockService(toService, toConfig);
+  let result: DeploymentResult | null;
+  let stagedList: string[] | undefined;
+  try {
+    // 3. Same artifacts, only the manifest is rendered for the target service
+    const { host, bareRepo, sshOptions } = getPrimaryServer(toConfig);
+    initDeployRepoIfNeeded(toRepoPath, host, bareRepo, sshOptions);
+    stagedList = readStagedList(toRepoPath);
+    gitImportTree(toRepoPath, fromRepoPath, commit);
+    writeServiceManifest(toService, workspaceRoot, toRepoPath);
+    // The index still holds the source service's manifest
+    gitAddAll(toRepoPath);
+    writeStagedList(toRepoPath, files.filter(file => file !== MANIFEST_FILENAME && file !== BUILD_INFO_FILENAME));
+    print(chalk.gray(`  Copied ${files.length} files, re-rendered ${MANIFEST_FILENAME}`));
+    emitEvent('promoted', { service: toService, from: fromService, commit });
+    print('');
+    
+    // 4. Release
+    const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
+    result = await releaseCommand(toService, {
+      message: options.message || `promote: ${toService} @ ${timestamp} (from ${fromService} ${shortCommit})`,
+      promotedFrom: { service: fromService, commit },
+      freezeOverride,
+      lockId: lock.id,
+      overrideFreeze: options.overrideFreeze,
+      reason: options.reason
+    });
+  } finally {
+    // Nothing was committed (refused, aborted or failed): put HEAD's tree back, or the next release would ship the promoted one
+    if (stagedList && hasChanges(toRepoPath)) {
+      gitRestoreHead(toRepoPath);
+      writeStagedList(toRepoPath, stagedList);
+    }
+    await unlockService(toConfig, lock);
+  }
+  if (!result) {
+    emitResult({ service: toService, success: true, released: false, message: `${fromService} ${shortCommit} is already live on ${toService}` });
+    return;
+  }
+  
+  emitResult(result);
+  print('');
+  if (result.pendingApproval) {
+    print(chalk.yellow.bold(`⏸ Promotion of ${fromService} ${shortCommit} to ${toService} is waiting for approval`));
+  } else if (result.success) {
+    print(chalk.green.bold(`✓ Promoted ${fromService} ${shortCommit} to ${toService}`));
+  } else {
+    printError(chalk.red.bold(`✗ Promotion of ${fromService} ${shortCommit} to ${toService} failed`));
+    if (result.message) {
+      printError(chalk.red(`  ${result.message}`));
+    }
+    process.exitCode = 1;
+  }
+}
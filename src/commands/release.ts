@@ -1,14 +1,112 @@
 import chalk from 'chalk';
 import { execSync } from 'child_process';
-import { getServiceConfig, getWorkspaceRoot, getDeployRepoPath } from '../config/loader.js';
-import { getServers, parseSshPort, buildSshUrl, type DeploymentResult } from '../config/types.js';
-import { gitAddAll, gitCommit, gitPush, hasChanges, getCurrentBranch, getGitStatus, getLastCommitHash, getLastCommitMessage } from '../utils/git.js';
+import { readFileSync } from 'fs';
+import { getServiceConfig, getWorkspaceRoot, getDeployRepoPath, loadConfig } from '../config/loader.js';
+import { getServers, getPrimaryServer, parseSshPort, buildSshUrl, type DeploymentResult, type ServerDeploymentResult, type ServerConfig, type ServiceConfig, type FreezeOverride, type PendingRelease } from '../config/types.js';
+import { gitAddAll, gitCommit, gitPushAsync, gitPushCommitForceAsync, gitDeleteRemoteTagAsync, gitResetHard, gitDeleteTag, hasChanges, getCurrentBranch, getGitStatus, getLastCommitHash, getLastCommitMessage, getCurrentCommit, gitPushRefAsync, gitTag, tagExists, listTags } from '../utils/git.js';
 import { exists } from '../utils/files.js';
 import { joinPath } from '../utils/files.js';
 import { sendNotifications } from '../utils/notifications.js';
+import { readBuildInfo, formatSourceCommit } from '../utils/build.js';
+import { executeRollout, describeRollout, planRollout, type RolloutTarget } from '../utils/rollout.js';
+import { getHealthCheckUrl, verifyDeployment, checkInstallStatus, recordVerifiedRelease } from '../utils/verify.js';
+import { enforceSourceGuards } from '../utils/guards.js';
+import { getLockPushOptions } from '../utils/lock.js';
+import { enforceDeployWindow, type FreezeOptions } from '../utils/windows.js';
+import { getApproval, assertNoPendingRelease, getPendingRef, getServerIdentity, writePendingRelease, writeRequestedRelease, dropReleaseCommit } from '../utils/approval.js';
+import { print, printWarning, printError, emitEvent, isTextOutput } from '../utils/output.js';
 
-interface ReleaseOptions {
+interface ReleaseOptions extends FreezeOptions {
   message?: string;
+  /** Tag for the release commit (overrides the service's `tagging` scheme) */
+  tag?: string;
+  /** Release notes for the tag annotation (default: the commit message) */
+  notes?: string;
+  /** Service and commit a promoted release comes from (see promote) */
+  promotedFrom?: { service: string; commit: string };
+  /** Commit whose tree this release restores (see rollback --revert) */
+  revertedTo?: string;
+  /** Release even if source guards fail (recorded in the commit message and notifications) */
+  allowDirty?: boolean;
+  /** Source guard violations the caller already checked and overrode (see deploy) */
+  guardOverrides?: string[];
+  /** Deploy window violation the caller already checked and overrode (see deploy) */
+  freezeOverride?: FreezeOverride;
+  /** Id of the deploy lock the caller holds (sent with the push, so the server install accepts it) */
+  lockId?: string;
+}
+
+/**
+ * A committed release, ready to push (see pushRelease)
+ */
+export type ReleaseCommit = Omit<PendingRelease, 'id' | 'requestedBy' | 'requestedAt'> & {
+  /** Deploy window violation overridden for the push */
+  freezeOverride?: FreezeOverride;
+};
+
+/**
+ * Rollout target for a release (server + its git remote)
+ */
+interface ReleaseTarget extends RolloutTarget {
+  server: ServerConfig;
+}
+
+/**
+ * Tag names gpd creates or accepts (safe to use in shell commands)
+ */
+const TAG_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Version from sourceDir/package.json
+ */
+function readPackageVersion(sourceDir: string): string | undefined {
+  try {
+    const { version } = JSON.parse(readFileSync(joinPath(sourceDir, 'package.json'), 'utf-8'));
+    return typeof version === 'string' && version ? version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Tag for a release: --tag, else the service's `tagging` scheme
+ * @returns undefined if the release is not tagged
+ * @throws Error if an explicit tag is invalid or already exists
+ */
+function resolveReleaseTag(config: ServiceConfig, sourceDir: string, deployRepoPath: string, explicitTag?: string): string | undefined {
+  if (explicitTag) {
+    if (!TAG_NAME_PATTERN.test(explicitTag)) {
+      throw new Error(`Invalid tag name: ${explicitTag} (letters, digits, ".", "_" and "-" only)`);
+    }
+    if (tagExists(deployRepoPath, explicitTag)) {
+      throw new Error(`Tag ${explicitTag} already exists in the deploy repo`);
+    }
+    return explicitTag;
+  }
+  
+  switch (config.tagging) {
+    case 'package': {
+      const version = readPackageVersion(sourceDir);
+      const tag = version && `v${version}`;
+      if (!tag || !TAG_NAME_PATTERN.test(tag)) {
+        printWarning(chalk.yellow(`  ⚠ No usable version in ${config.sourceDir}/package.json, release is not tagged`));
+        return undefined;
+      }
+      if (tagExists(deployRepoPath, tag)) {
+        printWarning(chalk.yellow(`  ⚠ Tag ${tag} already exists (bump the version in package.json), release is not tagged`));
+        return undefined;
+      }
+      return tag;
+    }
+    case 'counter': {
+      const numbers = listTags(deployRepoPath, 'deploy-*')
+        .map(tag => Number(tag.substring('deploy-'.length)))
+        .filter(n => Number.isInteger(n));
+      return `deploy-${Math.max(0, ...numbers) + 1}`;
+    }
+    default:
+      return undefined;
+  }
 }
 
 /**
@@ -18,27 +116,35 @@ interface ReleaseOptions {
 function executeHooks(hooks: string[], label: string, cwd: string): boolean {
   if (!hooks || hooks.length === 0) return true;
   
-  console.log(chalk.yellow(`  ⚠ Running ${label} hooks (${hooks.length} commands)...`));
-  console.log(chalk.gray(`    Working directory: ${cwd}`));
+  print(chalk.yellow(`  ⚠ Running ${label} hooks (${hooks.length} commands)...`));
+  print(chalk.gray(`    Working directory: ${cwd}`));
   
   for (const cmd of hooks) {
-    console.log(chalk.yellow(`    ▶ ${cmd}`));
+    print(chalk.yellow(`    ▶ ${cmd}`));
     try {
-      execSync(cmd, { cwd, stdio: 'inherit' });
-      console.log(chalk.green(`    ✓ Hook completed`));
+      execSync(cmd, { cwd, stdio: isTextOutput() ? 'inherit' : 'pipe' });
+      print(chalk.green(`    ✓ Hook completed`));
     } catch (error: any) {
-      console.log(chalk.red(`    ✗ Hook failed: ${cmd}`));
+      printError(chalk.red(`    ✗ Hook failed: ${cmd}`));
       return false;
     }
   }
   return true;
 }
 
+/**
+ * Get the git remote name for a server
+ * Single server uses 'origin', multi-server uses server-0, server-1, etc.
+ */
+export function getRemoteName(index: number, serverCount: number): string {
+  return serverCount === 1 ? 'origin' : `server-${index}`;
+}
+
 /**
  * Ensure remotes are set up for all servers
  * Creates remote-0, remote-1, etc. for each server
  */
-function ensureRemotes(deployRepoPath: string, serviceName: string): void {
+export function ensureRemotes(deployRepoPath: string, serviceName: string): void {
   const config = getServiceConfig(serviceName);
   const servers = getServers(config);
   
@@ -87,13 +193,72 @@ function ensureRemotes(deployRepoPath: string, serviceName: string): void {
   }
 }
 
+/**
+ * Roll back servers to a previous commit (force push + install check, like `gpd rollback`)
+ * The local deploy repo is only reset once every server is back on the commit.
+ * @param tag Tag of the rolled back release, deleted along with it (a fixed release may reuse the name)
+ * @returns Labels of the servers that were reverted
+ */
+async function rollbackTargets(
+  deployRepoPath: string,
+  targets: ReleaseTarget[],
+  commit: string,
+  branch: string,
+  pushOptions: string[],
+  tag?: string
+): Promise<string[]> {
+  print(chalk.yellow(`  ⏪ Auto-rollback to ${commit} on ${targets.map(t => t.label).join(', ')}...`));
+  
+  const settled = await Promise.allSettled(targets.map(async target => {
+    await gitPushCommitForceAsync(deployRepoPath, target.remote, commit, branch, pushOptions);
+    await checkInstallStatus(target.server, commit);
+  }));
+  
+  const reverted: string[] = [];
+  settled.forEach((result, index) => {
+    const label = targets[index].label;
+    if (result.status === 'fulfilled') {
+      print(chalk.green(`    ✓ ${label} rolled back`));
+      emitEvent('server', { server: label, status: 'rolledBack', commitHash: commit });
+      reverted.push(label);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      printError(chalk.red(`    ✗ ${label}: ${error}`));
+      emitEvent('server', { server: label, status: 'rollbackFailed', error });
+    }
+  });
+  
+  if (tag) {
+    const revertedTargets = targets.filter(target => reverted.includes(target.label));
+    const deleted = await Promise.allSettled(revertedTargets.map(target => gitDeleteRemoteTagAsync(deployRepoPath, target.remote, tag, pushOptions)));
+    const kept = revertedTargets.filter((_, index) => deleted[index].status === 'rejected').map(target => target.label);
+    if (kept.length > 0) {
+      printWarning(chalk.yellow(`    ⚠ Could not delete tag ${tag} on ${kept.join(', ')}`));
+    }
+  }
+  if (reverted.length === targets.length) {
+    gitResetHard(deployRepoPath, commit);
+    if (tag) {
+      gitDeleteTag(deployRepoPath, tag);
+    }
+  }
+  return reverted;
+}
+
 /**
  * Release command - commit and push deploy repository
  * 
  * Pushes to the bare repo on the server(s), which triggers the post-receive hook.
+ * Refused outside the environment's deploy windows unless overridden (--override-freeze --reason).
+ * If a health check URL is configured, each server is polled after its push and
+ * an unhealthy server halts the rollout like a failed push.
+ * If the environment requires approval (two-person rule), the commit is kept unpushed
+ * until someone else runs `gpd approve` (result: pendingApproval).
+ * 
+ * @returns Deployment result, or null if there was nothing to release
  */
-export async function releaseCommand(serviceName: string, options: ReleaseOptions = {}): Promise<void> {
-  console.log(chalk.blue(`Releasing ${serviceName}...`));
+export async function releaseCommand(serviceName: string, options: ReleaseOptions = {}): Promise<DeploymentResult | null> {
+  print(chalk.blue(`Releasing ${serviceName}...`));
   
   const startTime = Date.now();
   const config = getServiceConfig(serviceName);
@@ -101,72 +266,219 @@ export async function releaseCommand(serviceName: string, options: ReleaseOption
   const workspaceRoot = getWorkspaceRoot();
   const deployRepoPath = getDeployRepoPath(config, workspaceRoot);
   const sourceDir = joinPath(workspaceRoot, config.sourceDir);
+  await assertNoPendingRelease(serviceName, config, deployRepoPath);
+  const freezeOverride = options.freezeOverride ?? enforceDeployWindow(config, options);
+  // deploy checks the guards before building; promoted and reverted releases aren't built from the source
+  const guardOverrides = options.guardOverrides
+    ?? (options.promotedFrom || options.revertedTo ? [] : enforceSourceGuards(config, options));
   
   // Run pre-deploy hooks (local, in source directory)
   if (config.hooks?.preDeploy) {
     if (!executeHooks(config.hooks.preDeploy, 'pre-deploy', sourceDir)) {
-      console.log(chalk.red('✗ Pre-deploy hooks failed, aborting release.'));
-      await sendNotifications(config.notifications, {
+      printError(chalk.red('✗ Pre-deploy hooks failed, aborting release.'));
+      const hookResult: DeploymentResult = {
         service: serviceName,
         environment: config.environment,
         servers: servers.map(s => s.name || s.host),
         success: false,
         message: 'Pre-deploy hooks failed',
         timestamp: new Date().toISOString()
-      });
-      return;
+      };
+      await sendNotifications(config.notifications, hookResult);
+      return hookResult;
     }
   }
   
   // Check for changes
   if (!hasChanges(deployRepoPath)) {
-    console.log(chalk.yellow('No changes to release.'));
-    return;
+    print(chalk.yellow('No changes to release.'));
+    return null;
   }
   
   // Ensure remotes are configured
   ensureRemotes(deployRepoPath, serviceName);
   
+  // Remember the currently deployed commit (servers that don't get the new one stay on it)
+  const previousCommit = getLastCommitHash(deployRepoPath);
+  
+  // Resolve the tag before committing, so an invalid --tag doesn't leave a commit behind
+  const tag = resolveReleaseTag(config, sourceDir, deployRepoPath, options.tag);
+  
   // Commit
   const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
-  const message = options.message || `deploy: ${serviceName} @ ${timestamp}`;
+  const buildInfo = readBuildInfo(deployRepoPath);
+  const sourceRef = buildInfo && formatSourceCommit(buildInfo);
+  const message = (options.message || `deploy: ${serviceName} @ ${timestamp}${sourceRef ? ` (source ${sourceRef})` : ''}`)
+    + (guardOverrides.length ? ' [allow-dirty]' : '')
+    + (freezeOverride ? ' [override-freeze]' : '');
   gitAddAll(deployRepoPath);
   
   const committed = gitCommit(deployRepoPath, message);
   if (!committed) {
-    console.log(chalk.yellow('No changes to commit.'));
-    return;
+    print(chalk.yellow('No changes to commit.'));
+    return null;
   }
   
   const branch = getCurrentBranch(deployRepoPath);
+  const commitHash = getLastCommitHash(deployRepoPath);
+  const commitMessage = getLastCommitMessage(deployRepoPath);
+  if (tag) {
+    // Pushed along with the commit (push --tags)
+    gitTag(deployRepoPath, tag, options.notes || message);
+    print(chalk.gray(`  Tagged ${tag}`));
+  }
+  emitEvent('committed', { service: serviceName, commitHash, message: commitMessage, branch, tag, sourceCommit: buildInfo?.sourceCommit });
   
-  // Push to each server
-  let pushSuccess = true;
-  const failedServers: string[] = [];
+  const release: ReleaseCommit = {
+    commitHash,
+    commitMessage,
+    branch,
+    previousCommit,
+    tag,
+    promotedFrom: options.promotedFrom,
+    revertedTo: options.revertedTo,
+    guardOverrides: guardOverrides.length ? guardOverrides : undefined,
+    freezeOverride,
+    sourceCommit: buildInfo?.sourceCommit
+  };
+  
+  // Two-person rule: someone else pushes the commit with gpd approve
+  if (getApproval(loadConfig(), config).required) {
+    return requestApproval(serviceName, release);
+  }
+  return pushRelease(serviceName, release, startTime, undefined, options.lockId);
+}
+
+/**
+ * Keep a committed release for `gpd approve` instead of pushing it
+ * The release waits on the primary server, so it can be approved from any clone: its commit
+ * (or its tag, which carries the release notes) as the pending ref, and the request next to the lock.
+ * If it can't be recorded there, the commit is undone again.
+ */
+async function requestApproval(serviceName: string, release: ReleaseCommit): Promise<DeploymentResult> {
+  const config = getServiceConfig(serviceName);
+  const deployRepoPath = getDeployRepoPath(config, getWorkspaceRoot());
+  const { freezeOverride, ...commit } = release;
+  let pending: PendingRelease;
+  try {
+    pending = {
+      // Short hash (getLastCommitHash)
+      id: release.commitHash,
+      ...commit,
+      requestedBy: await getServerIdentity(getPrimaryServer(config)),
+      requestedAt: new Date().toISOString()
+    };
+    // origin is the primary server (see ensureRemotes)
+    await gitPushRefAsync(deployRepoPath, 'origin', release.tag ? `refs/tags/${release.tag}` : release.commitHash, getPendingRef(pending.id));
+    await writePendingRelease(config, pending);
+  } catch (error) {
+    dropReleaseCommit(deployRepoPath, release);
+    throw error;
+  }
+  writeRequestedRelease(deployRepoPath, pending);
+  emitEvent('pendingApproval', { service: serviceName, id: pending.id, requestedBy: pending.requestedBy });
+  
+  const result: DeploymentResult = {
+    service: serviceName,
+    environment: config.environment,
+    servers: getServers(config).map(s => s.name || s.host),
+    success: true,
+    message: `Waiting for approval: gpd approve ${serviceName} ${pending.id}`,
+    timestamp: pending.requestedAt,
+    commitHash: release.commitHash,
+    commitMessage: release.commitMessage,
+    tag: release.tag,
+    promotedFrom: release.promotedFrom,
+    revertedTo: release.revertedTo,
+    guardOverrides: release.guardOverrides,
+    freezeOverride,
+    pendingApproval: true,
+    requestedBy: pending.requestedBy,
+    sourceCommit: release.sourceCommit
+  };
+  await sendNotifications(config.notifications, result);
+  
+  print(chalk.yellow(`⏸ Release ${pending.id} is committed but not pushed: it needs approval by someone other than ${pending.requestedBy}`));
+  print(chalk.gray(`  Approve: gpd approve ${serviceName} ${pending.id}`));
+  print(chalk.gray(`  Reject:  gpd approve ${serviceName} ${pending.id} --reject`));
+  return result;
+}
+
+/**
+ * Push a committed release to the servers according to the rollout strategy,
+ * verify it, roll back on failure (autoRollback) and notify
+ * @param approval Requester and approver of a release that waited for `gpd approve`
+ * @param lockId Id of the deploy lock held for the push (see lockService)
+ */
+export async function pushRelease(
+  serviceName: string,
+  release: ReleaseCommit,
+  startTime: number = Date.now(),
+  approval?: { requestedBy: string; approvedBy: string },
+  lockId?: string
+): Promise<DeploymentResult> {
+  const config = getServiceConfig(serviceName);
+  const servers = getServers(config);
+  const workspaceRoot = getWorkspaceRoot();
+  const deployRepoPath = getDeployRepoPath(config, workspaceRoot);
+  const sourceDir = joinPath(workspaceRoot, config.sourceDir);
+  const { commitHash, commitMessage, branch, previousCommit, tag } = release;
+  const pushOptions = getLockPushOptions(lockId);
+  
+  // Push to servers according to the rollout strategy
+  const targets: ReleaseTarget[] = servers.map((server, index) => ({
+    label: server.name || server.host,
+    remote: getRemoteName(index, servers.length),
+    server
+  }));
   
   if (servers.length === 1) {
-    console.log(chalk.gray(`  Pushing to origin/${branch}...`));
-    try {
-      gitPush(deployRepoPath, 'origin', branch);
-    } catch (error: any) {
-      pushSuccess = false;
-      failedServers.push(servers[0].name || servers[0].host);
-    }
+    print(chalk.gray(`  Pushing to origin/${branch}...`));
   } else {
-    console.log(chalk.gray(`  Pushing to ${servers.length} servers...`));
-    for (let i = 0; i < servers.length; i++) {
-      const remoteName = `server-${i}`;
-      const serverLabel = servers[i].name || servers[i].host;
-      console.log(chalk.gray(`    → ${serverLabel}...`));
-      try {
-        gitPush(deployRepoPath, remoteName, branch);
-        console.log(chalk.green(`    ✓ ${serverLabel}`));
-      } catch (error: any) {
-        console.log(chalk.red(`    ✗ ${serverLabel}: ${error.message}`));
-        pushSuccess = false;
-        failedServers.push(serverLabel);
-      }
-    }
+    print(chalk.gray(`  Pushing to ${servers.length} servers (${describeRollout(config.rollout)})...`));
+  }
+  
+  const healthUrl = getHealthCheckUrl(config);
+  if (healthUrl) {
+    print(chalk.gray(`  Verifying health after push: ${healthUrl}`));
+  }
+  
+  // Targets that received the new commit (push succeeded, health check may still fail)
+  const pushed = new Set<ReleaseTarget>();
+  // Servers without an install status (the install can't be confirmed)
+  const unverified: string[] = [];
+  const outcomes = await executeRollout(targets, config.rollout, async (target) => {
+    await gitPushAsync(deployRepoPath, target.remote, branch, pushOptions);
+    pushed.add(target);
+    const { installVerified } = await verifyDeployment(config, target.server, commitHash);
+    if (!installVerified) unverified.push(target.label);
+  });
+  
+  const serverResults: ServerDeploymentResult[] = outcomes.map(outcome => {
+    const gotCommit = pushed.has(outcome.target);
+    const status = outcome.status === 'failed' && gotCommit ? 'unhealthy' : outcome.status;
+    return {
+      server: outcome.target.label,
+      status,
+      commitHash: gotCommit ? commitHash : (previousCommit || undefined),
+      healthy: healthUrl && gotCommit ? status === 'deployed' : undefined,
+      error: outcome.error
+    };
+  });
+  const failedServers = serverResults.filter(r => r.status === 'failed').map(r => r.server);
+  const unhealthyServers = serverResults.filter(r => r.status === 'unhealthy').map(r => r.server);
+  const skippedServers = serverResults.filter(r => r.status === 'skipped').map(r => r.server);
+  const pushSuccess = serverResults.every(r => r.status === 'deployed');
+  
+  // Remember verified releases (gpd promote only promotes those)
+  if (pushSuccess && unverified.length > 0) {
+    printWarning(chalk.yellow(`⚠ No install status on ${unverified.join(', ')}, ${commitHash} is not recorded as verified (gpd promote will refuse it)`));
+  } else if (pushSuccess) {
+    recordVerifiedRelease(deployRepoPath, getCurrentCommit(deployRepoPath), {
+      verifiedAt: new Date().toISOString(),
+      servers: serverResults.map(r => r.server),
+      healthChecked: healthUrl !== undefined
+    });
   }
   
   // Run post-deploy-local hooks (local, after successful push)
@@ -177,81 +489,147 @@ export async function releaseCommand(serviceName: string, options: ReleaseOption
   // Calculate duration
   const duration = Math.round((Date.now() - startTime) / 1000);
   
-  // Get commit info for notification
-  const commitHash = getLastCommitHash(deployRepoPath);
-  const commitMessage = getLastCommitMessage(deployRepoPath);
-  
   // Send notifications
+  const problems: string[] = [];
+  if (failedServers.length > 0) {
+    problems.push(`Failed on: ${failedServers.join(', ')}`);
+  }
+  if (unhealthyServers.length > 0) {
+    problems.push(`Health check failed on: ${unhealthyServers.join(', ')}`);
+  }
+  if (skippedServers.length > 0) {
+    problems.push(`Rollout halted, not deployed to: ${skippedServers.join(', ')}`);
+  }
+  
+  // Revert servers that got the bad commit
+  let rolledBack = false;
+  if (!pushSuccess && config.autoRollback && pushed.size > 0) {
+    if (!previousCommit) {
+      printWarning(chalk.yellow('  ⚠ autoRollback: no previous deployment to roll back to'));
+    } else {
+      const affected = targets.filter(t => pushed.has(t));
+      const reverted = await rollbackTargets(deployRepoPath, affected, previousCommit, branch, pushOptions, tag);
+      for (const serverResult of serverResults) {
+        if (reverted.includes(serverResult.server)) {
+          serverResult.commitHash = previousCommit;
+          serverResult.rolledBack = true;
+        }
+      }
+      rolledBack = reverted.length === affected.length;
+      problems.push(rolledBack
+        ? `Rolled back to ${previousCommit}`
+        : `Rollback to ${previousCommit} incomplete (reverted: ${reverted.join(', ') || 'none'})`);
+    }
+  }
+  
+  const resultMessage = problems.length > 0 ? problems.join('. ') : undefined;
+  
   const result: DeploymentResult = {
     service: serviceName,
     environment: config.environment,
     servers: servers.map(s => s.name || s.host),
     success: pushSuccess,
-    message: pushSuccess ? undefined : `Failed on: ${failedServers.join(', ')}`,
+    message: resultMessage,
     timestamp: new Date().toISOString(),
     duration,
     commitHash,
-    commitMessage
+    commitMessage,
+    tag,
+    strategy: servers.length > 1 ? (config.rollout?.strategy || 'rolling') : undefined,
+    serverResults,
+    verified: healthUrl ? pushSuccess : undefined,
+    rolledBack: rolledBack || undefined,
+    rolledBackTo: rolledBack ? previousCommit : undefined,
+    promotedFrom: release.promotedFrom,
+    revertedTo: release.revertedTo,
+    guardOverrides: release.guardOverrides,
+    freezeOverride: release.freezeOverride,
+    requestedBy: approval?.requestedBy,
+    approvedBy: approval?.approvedBy,
+    sourceCommit: release.sourceCommit
   };
   
   await sendNotifications(config.notifications, result);
   
   if (pushSuccess) {
-    console.log(chalk.green(`✓ Released ${serviceName}`));
+    print(chalk.green(`✓ Released ${serviceName}${tag ? ` ${tag}` : ''}`));
+  } else if (rolledBack) {
+    printWarning(chalk.yellow(`⚠ Release failed, rolled back to ${previousCommit}: ${[...failedServers, ...unhealthyServers].join(', ')}`));
   } else {
-    console.log(chalk.yellow(`⚠ Released with errors: ${failedServers.join(', ')}`));
+    printWarning(chalk.yellow(`⚠ Released with errors: ${[...failedServers, ...unhealthyServers].join(', ')}`));
+    if (skippedServers.length > 0) {
+      print(chalk.yellow(`  Not deployed (still on ${previousCommit || 'previous version'}): ${skippedServers.join(', ')}`));
+    }
   }
+  
+  return result;
 }
 
 /**
  * Dry run version of release command - shows what would be committed/pushed
  */
-export async function releaseCommandDryRun(serviceName: string): Promise<void> {
-  console.log(chalk.blue(`[DRY RUN] Release preview for ${serviceName}...`));
+export async function releaseCommandDryRun(serviceName: string, options: ReleaseOptions = {}): Promise<void> {
+  print(chalk.blue(`[DRY RUN] Release preview for ${serviceName}...`));
   
   const config = getServiceConfig(serviceName);
   const servers = getServers(config);
   const workspaceRoot = getWorkspaceRoot();
   const deployRepoPath = getDeployRepoPath(config, workspaceRoot);
+  const sourceDir = joinPath(workspaceRoot, config.sourceDir);
   
   // Check if deploy repo exists
   if (!exists(joinPath(deployRepoPath, '.git'))) {
-    console.log(chalk.yellow('  Deploy repo not initialized yet'));
-    console.log(chalk.gray('  Would be created on first deploy'));
+    print(chalk.yellow('  Deploy repo not initialized yet'));
+    print(chalk.gray('  Would be created on first deploy'));
     return;
   }
   
   // Check for changes
   if (!hasChanges(deployRepoPath)) {
-    console.log(chalk.yellow('  No changes to release'));
+    print(chalk.yellow('  No changes to release'));
     return;
   }
   
   // Show what would be committed
   const status = getGitStatus(deployRepoPath);
-  console.log(chalk.gray('  Would commit:'));
+  print(chalk.gray('  Would commit:'));
   for (const line of status.split('\n').filter(l => l.trim())) {
     const [flag, ...fileParts] = line.trim().split(' ');
     const file = fileParts.join(' ');
     if (flag === 'M' || flag === 'MM') {
-      console.log(chalk.yellow(`    M ${file}`));
+      print(chalk.yellow(`    M ${file}`));
     } else if (flag === 'A' || flag === '??') {
-      console.log(chalk.green(`    A ${file}`));
+      print(chalk.green(`    A ${file}`));
     } else if (flag === 'D') {
-      console.log(chalk.red(`    D ${file}`));
+      print(chalk.red(`    D ${file}`));
     } else {
-      console.log(chalk.gray(`    ${line.trim()}`));
+      print(chalk.gray(`    ${line.trim()}`));
     }
   }
   
+  const buildInfo = readBuildInfo(deployRepoPath);
+  const sourceRef = buildInfo && formatSourceCommit(buildInfo);
+  if (buildInfo && sourceRef) {
+    print(chalk.gray(`  Source: ${sourceRef}${buildInfo.sourceBranch ? ` (${buildInfo.sourceBranch})` : ''}`));
+  }
+  
+  const tag = resolveReleaseTag(config, sourceDir, deployRepoPath, options.tag);
+  if (tag) {
+    print(chalk.gray(`  Would tag: ${tag}`));
+  }
+  
   const branch = getCurrentBranch(deployRepoPath);
   if (servers.length === 1) {
-    console.log(chalk.gray(`  Would push to: origin/${branch}`));
-    console.log(chalk.gray(`  Server: ${servers[0].host}`));
+    print(chalk.gray(`  Would push to: origin/${branch}`));
+    print(chalk.gray(`  Server: ${servers[0].host}`));
   } else {
-    console.log(chalk.gray(`  Would push to ${servers.length} servers:`));
-    servers.forEach((s, i) => {
-      console.log(chalk.gray(`    server-${i}: ${s.name || s.host}`));
+    print(chalk.gray(`  Would push to ${servers.length} servers (${describeRollout(config.rollout)}):`));
+    const batches = planRollout(servers.map((s, i) => `server-${i}: ${s.name || s.host}`), config.rollout);
+    batches.forEach((batch, i) => {
+      if (batches.length > 1) {
+        print(chalk.gray(`    Batch ${i + 1}:`));
+      }
+      batch.forEach(line => print(chalk.gray(`    ${batches.length > 1 ? '  ' : ''}${line}`)));
     });
   }
 }
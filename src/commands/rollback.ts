@@ -1,13 +1,179 @@
 import chalk from 'chalk';
 import * as readline from 'readline';
 import { getServiceConfig, getWorkspaceRoot, getDeployRepoPath } from '../config/loader.js';
-import { getCommitLogDetailed, getCurrentCommit, getCommitByRef, gitResetHard, gitPushForce, getCurrentBranch } from '../utils/git.js';
+import { MANIFEST_FILENAME } from '../config/manifest.js';
+import { BUILD_INFO_FILENAME, getServers, type ServiceConfig, type ServerConfig, type FreezeOverride, type InstallStatus, type DeploymentResult } from '../config/types.js';
+import { getCommitLogDetailed, getCurrentCommit, getCommitByRef, gitResetHard, gitPushCommitForceAsync, getCurrentBranch, getTagNotes, gitRestoreTree, hasChanges, listTreeFiles } from '../utils/git.js';
 import { exists, joinPath } from '../utils/files.js';
+import { readStagedList, writeStagedList } from '../utils/artifacts.js';
+import { readInstallStatus } from '../utils/verify.js';
+import { sendNotifications } from '../utils/notifications.js';
+import { enforceDeployWindow, type FreezeOptions } from '../utils/windows.js';
+import { assertNoPendingRelease } from '../utils/approval.js';
+import { getLockPushOptions } from '../utils/lock.js';
+import { ensureRemotes, getRemoteName, releaseCommand } from './release.js';
+import { lockService, unlockService } from './deploy.js';
+import { print, printError, printWarning, emitEvent, emitResult, isTextOutput } from '../utils/output.js';
 
-interface RollbackOptions {
+interface RollbackOptions extends FreezeOptions {
   force?: boolean;
   steps?: number;
   list?: boolean;
+  /** Only roll back these servers (names or hosts) */
+  servers?: string[];
+  /** Release a new commit with the target's tree instead of resetting history */
+  revert?: boolean;
+}
+
+/**
+ * A server to roll back and the deploy repo remote that points at it
+ */
+interface RollbackTarget {
+  label: string;
+  remote: string;
+  server: ServerConfig;
+}
+
+/**
+ * Outcome of a rollback on one server
+ */
+interface ServerRollbackResult {
+  server: string;
+  /** unverified: pushed, but the server has no install status to confirm it */
+  status: 'rolledBack' | 'unverified' | 'failed';
+  /** Commit last installed on the server after the rollback (undefined if it has no install status) */
+  commitHash?: string;
+  error?: string;
+}
+
+/**
+ * Servers to roll back: all servers of the service, or the requested subset
+ * @throws Error if a requested server is not configured for the service
+ */
+function selectTargets(config: ServiceConfig, names?: string[]): RollbackTarget[] {
+  const servers = getServers(config);
+  const targets = servers.map((server, index) => ({
+    label: server.name || server.host,
+    remote: getRemoteName(index, servers.length),
+    server
+  }));
+  if (!names || names.length === 0) return targets;
+  
+  const unknown = names.filter(name => !targets.some(t => t.server.name === name || t.server.host === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown server(s): ${unknown.join(', ')} (configured: ${targets.map(t => t.label).join(', ')})`);
+  }
+  return targets.filter(t => names.includes(t.server.name || '') || names.includes(t.server.host));
+}
+
+/**
+ * Install status of each server (undefined if unreachable or it has no status file)
+ * The bare repo's HEAD moves before `gpd install` runs, so only the install status shows what a server runs.
+ */
+async function getInstallStatuses(targets: RollbackTarget[]): Promise<Array<InstallStatus | undefined>> {
+  const settled = await Promise.allSettled(targets.map(target => readInstallStatus(target.server)));
+  return settled.map(result => result.status === 'fulfilled' ? result.value : undefined);
+}
+
+/**
+ * Why a server is not running a commit (undefined if it installed the commit successfully)
+ */
+function describeInstallMismatch(status: InstallStatus | undefined, commit: string): string | undefined {
+  if (!status) return 'no install status';
+  if (status.commit !== commit) return `still on ${status.commit.substring(0, 7)}`;
+  if (!status.success) return `install failed: ${status.error || 'unknown error'}`;
+  return undefined;
+}
+
+/**
+ * Revert mode - commit the target's tree on top of HEAD and release it like `gpd release`
+ * History stays append-only: the bad release keeps its commit and the rollback is a deployment of its own.
+ */
+async function revertToCommit(
+  serviceName: string,
+  deployRepoPath: string,
+  targetCommit: string,
+  freeze: FreezeOptions & { freezeOverride?: FreezeOverride },
+  lockId: string
+): Promise<void> {
+  const shortTarget = targetCommit.substring(0, 7);
+  
+  print(chalk.gray(`  Restoring the tree of ${shortTarget}...`));
+  const stagedList = readStagedList(deployRepoPath);
+  gitRestoreTree(deployRepoPath, targetCommit);
+  writeStagedList(deployRepoPath, listTreeFiles(deployRepoPath, targetCommit)
+    .filter(file => file !== MANIFEST_FILENAME && file !== BUILD_INFO_FILENAME));
+  emitEvent('reverted', { service: serviceName, commit: targetCommit });
+  print('');
+  
+  const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
+  let result: DeploymentResult | null;
+  try {
+    result = await releaseCommand(serviceName, {
+      message: `revert: ${serviceName} to ${shortTarget} @ ${timestamp}`,
+      revertedTo: targetCommit,
+      lockId,
+      ...freeze
+    });
+  } finally {
+    // Nothing was committed (refused or aborted): put HEAD's tree back, or the next release would ship the revert
+    if (hasChanges(deployRepoPath)) {
+      gitRestoreTree(deployRepoPath, 'HEAD');
+      writeStagedList(deployRepoPath, stagedList);
+    }
+  }
+  if (!result) {
+    emitResult({ service: serviceName, success: true, rolledBack: false, commitHash: targetCommit, message: `Deploy repo already has the tree of ${shortTarget}` });
+    return;
+  }
+  
+  emitResult(result);
+  print('');
+  if (result.pendingApproval) {
+    print(chalk.yellow.bold(`⏸ Revert of ${serviceName} to ${shortTarget} is waiting for approval`));
+  } else if (result.success) {
+    print(chalk.green.bold(`✓ Reverted ${serviceName} to ${shortTarget} (${result.commitHash?.substring(0, 7)})`));
+  } else {
+    printError(chalk.red.bold(`✗ Revert of ${serviceName} to ${shortTarget} failed`));
+    if (result.message) {
+      printError(chalk.red(`  ${result.message}`));
+    }
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Deploy repo commit with the release notes of its tag (if annotated)
+ */
+type Version = ReturnType<typeof getCommitLogDetailed>[number] & { notes?: string };
+
+/**
+ * Recent deploy repo commits, newest first
+ */
+function getVersions(deployRepoPath: string, count: number): Version[] {
+  const tagNotes = getTagNotes(deployRepoPath);
+  return getCommitLogDetailed(deployRepoPath, count).map(commit => ({
+    ...commit,
+    notes: commit.tags.map(tag => tagNotes[tag]).find(notes => notes)
+  }));
+}
+
+/**
+ * One version line: tags first (they name the version), then commit, date and message
+ */
+function formatVersion(version: Version): string {
+  const tags = version.tags.length > 0 ? chalk.cyan(`${version.tags.join(', ')} `) : '';
+  return tags + chalk.yellow(version.shortHash) + chalk.gray(` ${version.date} `) + version.message;
+}
+
+/**
+ * Print release notes below a version (unless they just repeat the commit message)
+ */
+function printNotes(notes: string | undefined, message: string, indent: string): void {
+  if (!notes || notes === message) return;
+  for (const line of notes.split('\n')) {
+    print(chalk.gray(`${indent}${line}`));
+  }
 }
 
 /**
@@ -61,6 +227,14 @@ async function promptNumber(prompt: string, max: number): Promise<number> {
  *   gpd rollback <service> --steps 2 - Go back 2 commits
  *   gpd rollback <service> --list    - Show available versions without rollback
  *   gpd rollback <service> abc123    - Rollback to specific commit
+ *   gpd rollback <service> v1.4.2    - Rollback to a tagged release
+ *   gpd rollback <service> abc123 --server web-2 - Only roll back some servers
+ *   gpd rollback <service> abc123 --revert - Release a "revert" commit instead of resetting
+ * 
+ * Every server of the service (or the --server subset) is force-pushed in parallel,
+ * then their install status is checked to confirm they all converged on the target commit,
+ * and a "rolled back" notification is sent. The deploy repo is only reset once every server rolled back. Like deploys, rollbacks are refused outside the deploy windows.
+ * With --revert, the deploy repo history is kept and a new commit with the target's tree is released.
  */
 export async function rollbackCommand(serviceName: string, target?: string, options: RollbackOptions = {}): Promise<void> {
   const config = getServiceConfig(serviceName);
@@ -74,58 +248,71 @@ export async function rollbackCommand(serviceName: string, target?: string, opti
   
   const currentCommit = getCurrentCommit(deployRepoPath);
   const branch = getCurrentBranch(deployRepoPath);
+  const allServers = getServers(config);
+  const targets = selectTargets(config, options.servers);
+  
+  if (options.revert && !options.list) {
+    if (options.servers) {
+      throw new Error('--revert releases to every server and cannot be combined with --server');
+    }
+    if (hasChanges(deployRepoPath)) {
+      throw new Error('Deploy repo has unreleased changes. Release or discard them before reverting.');
+    }
+  }
   
   // List mode - just show versions
   if (options.list) {
-    console.log(chalk.blue(`Deployment history for ${serviceName}:`));
-    console.log('');
+    print(chalk.blue(`Deployment history for ${serviceName}:`));
+    print('');
     
-    const commits = getCommitLogDetailed(deployRepoPath, 15);
-    commits.forEach((commit, index) => {
-      const tagInfo = commit.tags.length > 0 ? chalk.cyan(` [${commit.tags.join(', ')}]`) : '';
+    const versions = getVersions(deployRepoPath, 15);
+    emitResult({ service: serviceName, current: currentCommit, versions });
+    versions.forEach((version, index) => {
       const current = index === 0 ? chalk.green(' (current)') : '';
-      console.log(
-        chalk.yellow(commit.shortHash) + 
-        chalk.gray(` ${commit.date} `) + 
-        commit.message + 
-        tagInfo + 
-        current
-      );
+      print(formatVersion(version) + current);
+      printNotes(version.notes, version.message, '    ');
     });
     return;
   }
   
-  console.log(chalk.blue(`Rollback ${serviceName}...`));
-  console.log(chalk.gray(`  Current: ${currentCommit.substring(0, 7)}`));
-  console.log(chalk.gray(`  Branch: ${branch}`));
-  console.log('');
+  // Prompts would corrupt machine-readable output
+  if (!isTextOutput() && (!options.force || (!target && !options.steps))) {
+    throw new Error('Rollback with --json/--quiet needs a target (commit or --steps) and --force');
+  }
+  
+  // HEAD would be rolled back from (or reverted on top of) a release nobody approved
+  await assertNoPendingRelease(serviceName, config, deployRepoPath);
+  const freezeOverride = enforceDeployWindow(config, options);
+  
+  print(chalk.blue(`Rollback ${serviceName}...`));
+  print(chalk.gray(`  Current: ${currentCommit.substring(0, 7)}`));
+  print(chalk.gray(`  Branch: ${branch}`));
+  print(chalk.gray(`  Servers: ${targets.map(t => t.label).join(', ')}`));
+  print('');
   
   let targetCommit: string;
   
   if (target) {
-    // Specific commit/ref provided
-    try {
-      targetCommit = getCommitByRef(deployRepoPath, target);
-      console.log(chalk.gray(`  Target: ${targetCommit.substring(0, 7)} (from ${target})`));
-    } catch {
+    // Specific commit/ref (or tag) provided
+    targetCommit = getCommitByRef(deployRepoPath, target);
+    if (!targetCommit) {
       throw new Error(`Invalid commit reference: ${target}`);
     }
+    print(chalk.gray(`  Target: ${targetCommit.substring(0, 7)} (from ${target})`));
+    printNotes(getTagNotes(deployRepoPath)[target], '', '    ');
   } else if (options.steps) {
     // Go back N steps
-    try {
-      targetCommit = getCommitByRef(deployRepoPath, `HEAD~${options.steps}`);
-      const commits = getCommitLogDetailed(deployRepoPath, options.steps + 1);
-      const targetInfo = commits[options.steps];
-      if (targetInfo) {
-        const tagInfo = targetInfo.tags.length > 0 ? chalk.cyan(` [${targetInfo.tags.join(', ')}]`) : '';
-        console.log(chalk.gray(`  Target: ${targetInfo.shortHash} ${targetInfo.message}${tagInfo}`));
-      }
-    } catch {
+    targetCommit = getCommitByRef(deployRepoPath, `HEAD~${options.steps}`);
+    if (!targetCommit) {
       throw new Error(`Cannot go back ${options.steps} commits`);
     }
+    const targetInfo = getVersions(deployRepoPath, options.steps + 1)[options.steps];
+    if (targetInfo) {
+      print(chalk.gray('  Target: ') + formatVersion(targetInfo));
+    }
   } else {
     // Interactive selection - show detailed commit list
-    const commits = getCommitLogDetailed(deployRepoPath, 10);
+    const commits = getVersions(deployRepoPath, 10);
     
     if (commits.length <= 1) {
       throw new Error('No previous commits to rollback to');
@@ -134,62 +321,159 @@ export async function rollbackCommand(serviceName: string, target?: string, opti
     // Skip first commit (current) and display the rest
     const previousCommits = commits.slice(1);
     
-    console.log(chalk.blue('Available versions to rollback to:'));
-    console.log('');
+    print(chalk.blue('Available versions to rollback to:'));
+    print('');
     previousCommits.forEach((commit, index) => {
-      const tagInfo = commit.tags.length > 0 ? chalk.cyan(` [${commit.tags.join(', ')}]`) : '';
-      console.log(chalk.white(`  ${index + 1}) `) + chalk.yellow(commit.shortHash) + chalk.gray(` ${commit.date} `) + commit.message + tagInfo);
+      print(chalk.white(`  ${index + 1}) `) + formatVersion(commit));
+      printNotes(commit.notes, commit.message, '       ');
     });
-    console.log('');
+    print('');
     
     const selection = await promptNumber(`Select version (1-${previousCommits.length}, q to quit): `, previousCommits.length);
     if (selection < 0) {
-      console.log(chalk.yellow('Cancelled'));
+      print(chalk.yellow('Cancelled'));
       return;
     }
     
     targetCommit = previousCommits[selection].hash;
-    const selected = previousCommits[selection];
-    const tagInfo = selected.tags.length > 0 ? ` [${selected.tags.join(', ')}]` : '';
-    console.log(chalk.gray(`  Selected: ${selected.shortHash} ${selected.message}${tagInfo}`));
+    print(chalk.gray('  Selected: ') + formatVersion(previousCommits[selection]));
   }
   
-  // Check if we're already at target
-  if (targetCommit === currentCommit) {
-    console.log(chalk.yellow('Already at target commit'));
+  // Check if we're already at target (locally and on every selected server)
+  const partial = targets.length < allServers.length;
+  const before = await getInstallStatuses(targets);
+  if ((partial || targetCommit === currentCommit) && before.every(status => !describeInstallMismatch(status, targetCommit))) {
+    print(chalk.yellow('Already at target commit'));
+    emitResult({ service: serviceName, success: true, rolledBack: false, commitHash: targetCommit, message: 'Already at target commit' });
     return;
   }
   
+  const shortTarget = targetCommit.substring(0, 7);
+  
   // Confirm unless --force
   if (!options.force) {
-    console.log('');
-    console.log(chalk.yellow.bold('⚠ Warning: This will:'));
-    console.log(chalk.yellow(`  1. Reset deploy repo to ${targetCommit.substring(0, 7)}`));
-    console.log(chalk.yellow(`  2. Force push to server`));
-    console.log(chalk.yellow(`  3. Server will checkout and restart with old version`));
-    console.log('');
+    print('');
+    print(chalk.yellow.bold('⚠ Warning: This will:'));
+    if (options.revert) {
+      print(chalk.yellow(`  1. Commit the tree of ${shortTarget} on top of ${currentCommit.substring(0, 7)} (history is kept)`));
+      print(chalk.yellow(`  2. Release it to ${targets.map(t => t.label).join(', ')}`));
+    } else {
+      print(chalk.yellow(`  1. Force push ${shortTarget} to ${targets.map(t => t.label).join(', ')}`));
+      print(chalk.yellow(partial
+        ? `  2. Keep the deploy repo at ${currentCommit.substring(0, 7)} (other servers stay on it)`
+        : `  2. Reset deploy repo to ${shortTarget} (once every server rolled back)`));
+    }
+    print(chalk.yellow(`  3. Server will checkout and restart with old version`));
+    print('');
     
     const shouldContinue = await confirm('Continue with rollback?');
     if (!shouldContinue) {
-      console.log(chalk.yellow('Cancelled'));
+      print(chalk.yellow('Cancelled'));
       return;
     }
   }
   
   // Perform rollback
-  console.log('');
-  console.log(chalk.blue('Performing rollback...'));
+  print('');
+  print(chalk.blue('Performing rollback...'));
+  
+  // Same lock as deploys: a rollback must not race a deploy (or another rollback)
+  const lock = await lockService(serviceName, config);
+  if (options.revert) {
+    try {
+      await revertToCommit(serviceName, deployRepoPath, targetCommit, {
+        freezeOverride,
+        overrideFreeze: options.overrideFreeze,
+        reason: options.reason
+      }, lock.id);
+    } finally {
+      await unlockService(config, lock);
+    }
+    return;
+  }
+  
+  let serverResults: ServerRollbackResult[];
+  try {
+    // 1. Force push to every selected server in parallel
+    ensureRemotes(deployRepoPath, serviceName);
+    print(chalk.gray(`  Force pushing ${shortTarget} to ${targets.length} server(s)...`));
+    const pushOptions = getLockPushOptions(lock.id);
+    const pushed = await Promise.allSettled(
+      targets.map(target => gitPushCommitForceAsync(deployRepoPath, target.remote, targetCommit, branch, pushOptions))
+    );
+    
+    // 2. Check that every server installed the target commit
+    const after = await getInstallStatuses(targets);
+    serverResults = targets.map((target, index): ServerRollbackResult => {
+      const push = pushed[index];
+      if (push.status === 'rejected') {
+        const error = push.reason instanceof Error ? push.reason.message : String(push.reason);
+        return { server: target.label, status: 'failed', commitHash: after[index]?.commit, error };
+      }
+      // Pushed, but nothing on the server says whether the install ran (e.g. a custom post-receive hook)
+      if (!after[index]) {
+        return { server: target.label, status: 'unverified' };
+      }
+      const error = describeInstallMismatch(after[index], targetCommit);
+      return { server: target.label, status: error ? 'failed' : 'rolledBack', commitHash: after[index]?.commit, error };
+    });
+    
+    // 3. Reset local deploy repo once every server reverted
+    // (not for a subset: the other servers keep running its HEAD)
+    if (!partial && serverResults.every(r => r.status !== 'failed')) {
+      print(chalk.gray(`  Resetting to ${shortTarget}...`));
+      gitResetHard(deployRepoPath, targetCommit);
+    }
+  } finally {
+    await unlockService(config, lock);
+  }
   
-  // 1. Reset local deploy repo
-  console.log(chalk.gray(`  Resetting to ${targetCommit.substring(0, 7)}...`));
-  gitResetHard(deployRepoPath, targetCommit);
+  for (const result of serverResults) {
+    if (result.status === 'rolledBack') {
+      print(chalk.green(`    ✓ ${result.server} on ${shortTarget}`));
+      emitEvent('server', { server: result.server, status: 'rolledBack', commitHash: targetCommit });
+    } else if (result.status === 'unverified') {
+      print(chalk.yellow(`    ⚠ ${result.server}: pushed ${shortTarget}, no install status`));
+      emitEvent('server', { server: result.server, status: 'unverified', commitHash: targetCommit });
+    } else {
+      printError(chalk.red(`    ✗ ${result.server}: ${result.error}`));
+      emitEvent('server', { server: result.server, status: 'rollbackFailed', error: result.error });
+    }
+  }
   
-  // 2. Force push to server
-  console.log(chalk.gray(`  Force pushing to origin/${branch}...`));
-  gitPushForce(deployRepoPath, 'origin', branch);
+  const failed = serverResults.filter(r => r.status === 'failed').map(r => r.server);
+  const unverified = serverResults.filter(r => r.status === 'unverified').map(r => r.server);
+  const success = failed.length === 0;
+  if (unverified.length > 0) {
+    printWarning(chalk.yellow(`⚠ No install status on ${unverified.join(', ')}, the rollback to ${shortTarget} could not be confirmed there`));
+  }
+  emitResult({ service: serviceName, success, rolledBack: true, from: currentCommit, commitHash: targetCommit, serverResults, freezeOverride });
+  await sendNotifications(config.notifications, {
+    service: serviceName,
+    environment: config.environment,
+    servers: targets.map(t => t.label),
+    success,
+    message: success ? undefined : `Did not converge on ${shortTarget}: ${failed.join(', ')}`,
+    timestamp: new Date().toISOString(),
+    commitHash: targetCommit,
+    rolledBack: true,
+    rolledBackTo: targetCommit,
+    freezeOverride
+  });
   
-  console.log('');
-  console.log(chalk.green.bold(`✓ Rolled back ${serviceName} to ${targetCommit.substring(0, 7)}`));
-  console.log(chalk.gray('  The server hook will handle: git checkout, npm install, pm2 restart'));
-  console.log(chalk.gray(`  Check logs: gpd logs ${serviceName}`));
+  print('');
+  if (success) {
+    print(chalk.green.bold(`✓ Rolled back ${serviceName} to ${shortTarget} on ${targets.length} server(s)`));
+    if (partial) {
+      print(chalk.yellow(`  Not rolled back: ${allServers.length - targets.length} server(s) stay on ${currentCommit.substring(0, 7)}`));
+    }
+  } else {
+    printError(chalk.red.bold(`✗ Rollback of ${serviceName} did not converge on ${shortTarget}: ${failed.join(', ')}`));
+    if (!partial) {
+      print(chalk.yellow(`  Deploy repo kept at ${currentCommit.substring(0, 7)}, retry with: gpd rollback ${serviceName} ${shortTarget}`));
+    }
+    process.exitCode = 1;
+  }
+  print(chalk.gray('  The server hook will handle: git checkout, npm install, pm2 restart'));
+  print(chalk.gray(`  Check logs: gpd logs ${serviceName}`));
 }
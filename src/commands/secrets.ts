@@ -0,0 +1,174 @@
+import chalk from 'chalk';
+import { existsSync, readFileSync, copyFileSync } from 'fs';
+import { findConfigFile, CONFIG_FILENAME } from '../config/loader.js';
+import {
+  getSecretsPath,
+  getKeyPath,
+  loadKey,
+  generateKey,
+  writeKey,
+  getKeyId,
+  validateSecretName,
+  encryptSecret,
+  decryptSecrets,
+  readSecretsFile,
+  createSecretsFile,
+  writeSecretsFile,
+  type SecretsFile
+} from '../config/secrets.js';
+import { print, printWarning, emitResult } from '../utils/output.js';
+
+interface SecretsOptions {
+  config?: string;
+}
+
+/**
+ * Resolve the secrets file next to .git-deploy.json
+ */
+function resolveSecretsPath(configPath?: string): string {
+  const path = configPath || findConfigFile();
+  if (!path) {
+    throw new Error(`Config file ${CONFIG_FILENAME} not found. Run from workspace root or specify path.`);
+  }
+  return getSecretsPath(path);
+}
+
+/**
+ * Load the key, creating a key file on first use
+ */
+function loadOrCreateKey(): Buffer {
+  if (process.env.GPD_SECRETS_KEY || existsSync(getKeyPath())) {
+    return loadKey();
+  }
+  const key = generateKey();
+  writeKey(getKeyPath(), key);
+  printWarning(chalk.yellow(`Created secrets key ${getKeyPath()}`));
+  printWarning(chalk.yellow('  Copy it to each server (same path, for the user running the git hook) and keep a backup.'));
+  return key;
+}
+
+/**
+ * Make sure the file is encrypted with this key before adding to it
+ */
+function checkKey(file: SecretsFile, key: Buffer, secretsPath: string): void {
+  if (Object.keys(file.secrets).length > 0 && file.keyId !== getKeyId(key)) {
+    throw new Error(`Secrets key does not match ${secretsPath} (key id ${file.keyId}). Was the key rotated?`);
+  }
+}
+
+/**
+ * Read a secret value from stdin (keeps it out of shell history)
+ */
+function readValueFromStdin(): string {
+  if (process.stdin.isTTY) {
+    print(chalk.gray('Enter value, then Ctrl-D:'));
+  }
+  return readFileSync(0, 'utf-8').replace(/\r?\n$/, '');
+}
+
+/**
+ * Set (add or update) a secret
+ */
+async function setSecret(secretsPath: string, name: string, value?: string): Promise<void> {
+  validateSecretName(name);
+  const key = loadOrCreateKey();
+  const file = readSecretsFile(secretsPath) || createSecretsFile(key);
+  checkKey(file, key, secretsPath);
+  
+  const plain = value ?? readValueFromStdin();
+  const updated = name in file.secrets;
+  file.keyId = getKeyId(key);
+  file.secrets[name] = encryptSecret(key, name, plain);
+  writeSecretsFile(secretsPath, file);
+  
+  emitResult({ file: secretsPath, name, updated });
+  print(chalk.green(`✓ ${updated ? 'Updated' : 'Added'} secret ${name}`));
+  print(chalk.gray(`  Reference it in .git-deploy.json as \${secret:${name}}`));
+}
+
+/**
+ * Print the decrypted value of a secret
+ */
+async function getSecret(secretsPath: string, name: string): Promise<void> {
+  const file = readSecretsFile(secretsPath);
+  const values = file ? decryptSecrets(file, loadKey(), secretsPath) : {};
+  if (!(name in values)) {
+    throw new Error(`Secret ${name} not found in ${secretsPath}`);
+  }
+  
+  emitResult({ name, value: values[name] });
+  print(values[name]);
+}
+
+/**
+ * List secret names (values stay encrypted, no key needed)
+ */
+async function listSecrets(secretsPath: string): Promise<void> {
+  const names = Object.keys(readSecretsFile(secretsPath)?.secrets || {});
+  
+  emitResult({ file: secretsPath, names });
+  if (names.length === 0) {
+    print(chalk.yellow('No secrets stored'));
+    return;
+  }
+  print(chalk.blue(`Secrets in ${secretsPath}:`));
+  for (const name of names) {
+    print(`  ${name}`);
+  }
+}
+
+/**
+ * Re-encrypt all secrets with a new key
+ * The old key file is kept as <key>.old until the servers have the new one.
+ */
+async function rotateSecrets(secretsPath: string): Promise<void> {
+  if (process.env.GPD_SECRETS_KEY) {
+    throw new Error('Cannot rotate a key given via GPD_SECRETS_KEY. Use a key file (GPD_SECRETS_KEY_FILE) instead.');
+  }
+  const file = readSecretsFile(secretsPath);
+  if (!file) {
+    throw new Error(`No secrets file found at ${secretsPath}`);
+  }
+  
+  const keyPath = getKeyPath();
+  const oldKey = loadKey();
+  const values = decryptSecrets(file, oldKey, secretsPath);
+  
+  const newKey = generateKey();
+  file.keyId = getKeyId(newKey);
+  file.secrets = {};
+  for (const [name, value] of Object.entries(values)) {
+    file.secrets[name] = encryptSecret(newKey, name, value);
+  }
+  
+  copyFileSync(keyPath, `${keyPath}.old`);
+  writeKey(keyPath, newKey);
+  writeSecretsFile(secretsPath, file);
+  
+  emitResult({ file: secretsPath, keyId: file.keyId, rotated: Object.keys(values).length });
+  print(chalk.green(`✓ Rotated key and re-encrypted ${Object.keys(values).length} secret(s)`));
+  print(chalk.gray(`  New key: ${keyPath} (old key kept as ${keyPath}.old)`));
+  printWarning(chalk.yellow('  Install the new key on all servers before the next deploy.'));
+}
+
+/**
+ * Secrets command - manage the encrypted secrets file (.git-deploy.secrets.json)
+ */
+export async function secretsCommand(action: string, name: string | undefined, value: string | undefined, options: SecretsOptions = {}): Promise<void> {
+  const secretsPath = resolveSecretsPath(options.config);
+  
+  switch (action) {
+    case 'set':
+      if (!name) throw new Error('Usage: gpd secrets set <name> [value]');
+      return setSecret(secretsPath, name, value);
+    case 'get':
+      if (!name) throw new Error('Usage: gpd secrets get <name>');
+      return getSecret(secretsPath, name);
+    case 'list':
+      return listSecrets(secretsPath);
+    case 'rotate':
+      return rotateSecrets(secretsPath);
+    default:
+      throw new Error(`Unknown secrets action: ${action}. Available: set, get, list, rotate`);
+  }
+}
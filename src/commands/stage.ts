@@ -1,14 +1,20 @@
 import chalk from 'chalk';
 import { execSync } from 'child_process';
-import { getServiceConfig, getWorkspaceRoot, getSourceDir, getDeployRepoPath, CONFIG_FILENAME } from '../config/loader.js';
-import { DEFAULT_ARTIFACTS, parseSshPort, buildSshUrl, getPrimaryServer } from '../config/types.js';
-import { ensureDir, removeDir, copy, exists, joinPath } from '../utils/files.js';
+import { writeFileSync } from 'fs';
+import { getServiceConfig, loadConfig, getWorkspaceRoot, getSourceDir, getDeployRepoPath, CONFIG_FILENAME } from '../config/loader.js';
+import { SECRETS_FILENAME, readSecretsFile } from '../config/secrets.js';
+import { MANIFEST_FILENAME, buildManifest } from '../config/manifest.js';
+import { DEFAULT_ARTIFACTS, BUILD_INFO_FILENAME, parseSshPort, buildSshUrl, getPrimaryServer } from '../config/types.js';
+import { ensureDir, removeDir, exists, joinPath } from '../utils/files.js';
+import { resolveArtifacts, planSync, applySync, type SyncPlan } from '../utils/artifacts.js';
+import { createBuildInfo, readBuildInfo, formatSourceCommit } from '../utils/build.js';
+import { print, printWarning, emitEvent } from '../utils/output.js';
 
 /**
  * Initialize deploy repo if it doesn't exist (lazy init)
  * Creates git repo and adds remote pointing to server bare repo
  */
-function initDeployRepoIfNeeded(
+export function initDeployRepoIfNeeded(
   deployRepoPath: string, 
   host: string, 
   bareRepo: string, 
@@ -18,7 +24,7 @@ function initDeployRepoIfNeeded(
     return false; // Already initialized
   }
 
-  console.log(chalk.blue('  Initializing deploy repository...'));
+  print(chalk.blue('  Initializing deploy repository...'));
   ensureDir(deployRepoPath);
   
   // git init
@@ -29,10 +35,30 @@ function initDeployRepoIfNeeded(
   const sshUrl = buildSshUrl(host, bareRepo, port);
   execSync(`git remote add origin ${sshUrl}`, { cwd: deployRepoPath, stdio: 'pipe' });
   
-  console.log(chalk.gray(`    Remote: ${sshUrl}`));
+  print(chalk.gray(`    Remote: ${sshUrl}`));
   return true;
 }
 
+/**
+ * Write the service manifest (needed by server-side install) into the deploy repo
+ * Rendered from the unsubstituted config, so env vars are resolved on the server.
+ */
+export function writeServiceManifest(serviceName: string, workspaceRoot: string, deployRepoPath: string): void {
+  const rawConfig = loadConfig(undefined, { substituteEnv: false }).services[serviceName];
+  const manifest = buildManifest(serviceName, rawConfig, readSecretsFile(joinPath(workspaceRoot, SECRETS_FILENAME)));
+  writeFileSync(joinPath(deployRepoPath, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Print added/modified/deleted files (like the release dry run does for git status)
+ */
+function printSyncPlan(plan: SyncPlan): void {
+  plan.added.forEach(file => print(chalk.green(`    A ${file}`)));
+  plan.modified.forEach(file => print(chalk.yellow(`    M ${file}`)));
+  plan.deleted.forEach(file => print(chalk.red(`    D ${file}`)));
+  print(chalk.gray(`  ${plan.added.length} added, ${plan.modified.length} modified, ${plan.deleted.length} deleted (${plan.unchanged} unchanged)`));
+}
+
 /**
  * Stage command - copy build artifacts to deploy repository
  * 
@@ -42,7 +68,7 @@ function initDeployRepoIfNeeded(
  * - artifacts: copied from sourceDir to deployRepo
  */
 export async function stageCommand(serviceName: string): Promise<void> {
-  console.log(chalk.blue(`Staging ${serviceName}...`));
+  print(chalk.blue(`Staging ${serviceName}...`));
   
   const config = getServiceConfig(serviceName);
   const workspaceRoot = getWorkspaceRoot();
@@ -55,54 +81,73 @@ export async function stageCommand(serviceName: string): Promise<void> {
     throw new Error(`Source directory not found: ${sourceDir}`);
   }
   
-  console.log(chalk.gray(`  Source: ${config.sourceDir}`));
-  console.log(chalk.gray(`  Deploy: ${config.sourceDir}/${config.deployRepo}`));
+  print(chalk.gray(`  Source: ${config.sourceDir}`));
+  print(chalk.gray(`  Deploy: ${config.sourceDir}/${config.deployRepo}`));
   
   // Lazy init deploy repo (use primary server for remote)
   const primaryServer = getPrimaryServer(config);
   const { host, bareRepo, sshOptions } = primaryServer;
   const wasInitialized = initDeployRepoIfNeeded(deployRepoPath, host, bareRepo, sshOptions);
   if (wasInitialized) {
-    console.log(chalk.green('  ✓ Deploy repo initialized'));
+    print(chalk.green('  ✓ Deploy repo initialized'));
   }
   
-  // Copy artifacts from sourceDir to deployRepo
-  let copiedCount = 0;
-  for (const artifact of artifacts) {
-    const srcPath = joinPath(sourceDir, artifact);
-    const destPath = joinPath(deployRepoPath, artifact);
-    
-    if (exists(srcPath)) {
-      // Remove old artifact first (clean copy)
-      removeDir(destPath);
-      copy(srcPath, destPath);
-      console.log(chalk.gray(`    ${artifact}`));
-      copiedCount++;
-    } else {
-      console.log(chalk.yellow(`  Warning: ${artifact} not found in ${config.sourceDir}`));
-    }
+  // Resolve artifact paths/globs to files (minus exclude and .gpdignore)
+  const { files, matched: copied, missing } = resolveArtifacts(sourceDir, artifacts, config.exclude, [deployRepoPath]);
+  for (const artifact of missing) {
+    printWarning(chalk.yellow(`  Warning: ${artifact} matched no files in ${config.sourceDir}`));
   }
+  const copiedCount = copied.length;
   
   if (copiedCount === 0) {
     throw new Error('No artifacts were copied. Check your artifacts config and build output.');
   }
   
-  // Copy .git-deploy.json to deploy repo (needed by server-side install)
-  const configSrc = joinPath(workspaceRoot, CONFIG_FILENAME);
-  const configDest = joinPath(deployRepoPath, CONFIG_FILENAME);
-  if (exists(configSrc)) {
-    copy(configSrc, configDest);
-    console.log(chalk.gray(`    ${CONFIG_FILENAME}`));
+  // Sync: only copy changed files and delete removed ones (unchanged files keep their mtime)
+  const plan = planSync(sourceDir, deployRepoPath, files);
+  applySync(sourceDir, deployRepoPath, plan, files);
+  for (const artifact of copied) {
+    print(chalk.gray(`    ${artifact}`));
+  }
+  printSyncPlan(plan);
+  
+  // Write the service manifest instead of the whole workspace config
+  writeServiceManifest(serviceName, workspaceRoot, deployRepoPath);
+  print(chalk.gray(`    ${MANIFEST_FILENAME}`));
+  
+  // Stamp build metadata, but only when something changed (a fresh timestamp alone would always need a release)
+  const buildInfo = createBuildInfo(sourceDir, deployRepoPath);
+  const previousBuildInfo = readBuildInfo(deployRepoPath);
+  const artifactsChanged = plan.added.length + plan.modified.length + plan.deleted.length > 0;
+  if (artifactsChanged || !previousBuildInfo
+    || previousBuildInfo.sourceCommit !== buildInfo.sourceCommit || previousBuildInfo.dirty !== buildInfo.dirty) {
+    writeFileSync(joinPath(deployRepoPath, BUILD_INFO_FILENAME), JSON.stringify(buildInfo, null, 2) + '\n');
+    print(chalk.gray(`    ${BUILD_INFO_FILENAME} (source ${formatSourceCommit(buildInfo) || 'unknown'})`));
   }
   
-  console.log(chalk.green(`✓ Staged ${copiedCount} artifact(s) to ${config.sourceDir}/${config.deployRepo}`));
+  // Remove the config files staged by older versions
+  removeDir(joinPath(deployRepoPath, CONFIG_FILENAME));
+  removeDir(joinPath(deployRepoPath, SECRETS_FILENAME));
+  
+  print(chalk.green(`✓ Staged ${copiedCount} artifact(s) (${files.length} files) to ${config.sourceDir}/${config.deployRepo}`));
+  emitEvent('staged', {
+    service: serviceName,
+    artifacts: copied,
+    missing,
+    files: files.length,
+    sourceCommit: buildInfo.sourceCommit,
+    dirty: buildInfo.dirty,
+    added: plan.added.length,
+    modified: plan.modified.length,
+    deleted: plan.deleted.length
+  });
 }
 
 /**
  * Dry run version of stage command - shows what would be copied without copying
  */
 export async function stageCommandDryRun(serviceName: string): Promise<void> {
-  console.log(chalk.blue(`[DRY RUN] Stage preview for ${serviceName}...`));
+  print(chalk.blue(`[DRY RUN] Stage preview for ${serviceName}...`));
   
   const config = getServiceConfig(serviceName);
   const workspaceRoot = getWorkspaceRoot();
@@ -115,30 +160,49 @@ export async function stageCommandDryRun(serviceName: string): Promise<void> {
     throw new Error(`Source directory not found: ${sourceDir}`);
   }
   
-  console.log(chalk.gray(`  Source: ${config.sourceDir}`));
-  console.log(chalk.gray(`  Deploy: ${config.sourceDir}/${config.deployRepo}`));
+  print(chalk.gray(`  Source: ${config.sourceDir}`));
+  print(chalk.gray(`  Deploy: ${config.sourceDir}/${config.deployRepo}`));
   
   // Check if deploy repo needs init
   if (!exists(joinPath(deployRepoPath, '.git'))) {
-    console.log(chalk.yellow(`  Would initialize deploy repo at ${config.deployRepo}`));
+    print(chalk.yellow(`  Would initialize deploy repo at ${config.deployRepo}`));
   }
   
-  // Show what would be copied
-  console.log(chalk.gray('  Would copy:'));
-  let wouldCopy = 0;
-  for (const artifact of artifacts) {
-    const srcPath = joinPath(sourceDir, artifact);
-    if (exists(srcPath)) {
-      console.log(chalk.gray(`    ✓ ${artifact}`));
-      wouldCopy++;
-    } else {
-      console.log(chalk.yellow(`    ✗ ${artifact} (not found)`));
-    }
+  // Show the exact files that would be copied
+  const { files, matched, missing } = resolveArtifacts(sourceDir, artifacts, config.exclude, [deployRepoPath]);
+  print(chalk.gray('  Would copy:'));
+  for (const file of files) {
+    print(chalk.gray(`    ✓ ${file}`));
   }
+  for (const artifact of missing) {
+    print(chalk.yellow(`    ✗ ${artifact} (no matching files)`));
+  }
+  
+  print(chalk.gray(`    ✓ ${MANIFEST_FILENAME} (service manifest)`));
+  const buildInfo = createBuildInfo(sourceDir, deployRepoPath);
+  print(chalk.gray(`    ✓ ${BUILD_INFO_FILENAME} (source ${formatSourceCommit(buildInfo) || 'unknown'})`));
   
-  if (wouldCopy === 0) {
-    console.log(chalk.red('  No artifacts would be copied!'));
+  if (matched.length === 0) {
+    print(chalk.red('  No artifacts would be copied!'));
   } else {
-    console.log(chalk.gray(`  Total: ${wouldCopy} artifact(s) would be staged`));
+    print(chalk.gray(`  Total: ${files.length} file(s) from ${matched.length} artifact(s) would be staged`));
   }
+  
+  // Compare with what is staged already
+  const plan = planSync(sourceDir, deployRepoPath, files);
+  print(chalk.gray('  Would change:'));
+  printSyncPlan(plan);
+  
+  emitEvent('staged', {
+    service: serviceName,
+    dryRun: true,
+    artifacts: matched,
+    missing,
+    files,
+    sourceCommit: buildInfo.sourceCommit,
+    dirty: buildInfo.dirty,
+    added: plan.added,
+    modified: plan.modified,
+    deleted: plan.deleted
+  });
 }
@@ -1,46 +1,138 @@
 import chalk from 'chalk';
-import { loadConfig, listServices } from '../config/loader.js';
-import { getServers } from '../config/types.js';
+import { loadConfig, listServices, selectServiceConfig, getWorkspaceRoot, getDeployRepoPath } from '../config/loader.js';
+import { getServers, type ServiceConfig } from '../config/types.js';
+import { getCurrentCommit } from '../utils/git.js';
+import { exists, joinPath } from '../utils/files.js';
+import { inspectServer, formatUptime, type ServerState } from '../utils/inspect.js';
+import { print, emitResult } from '../utils/output.js';
 
 /**
- * Status command - show all configured services
+ * Live status of a service across its servers
  */
-export async function statusCommand(): Promise<void> {
-  console.log(chalk.blue('Service Status'));
-  console.log('');
+interface ServiceStatus {
+  service: string;
+  processManager: string;
+  environment?: string;
+  /** HEAD of the local deploy repo (what the next release would push) */
+  localCommit?: string;
+  /** Servers run different commits */
+  drift: boolean;
+  servers: Array<ServerState & { upToDate?: boolean }>;
+}
+
+/**
+ * Get HEAD of the local deploy repo, if it exists
+ */
+function getLocalCommit(config: ServiceConfig, workspaceRoot: string): string | undefined {
+  const deployRepoPath = getDeployRepoPath(config, workspaceRoot);
+  if (!exists(joinPath(deployRepoPath, '.git'))) return undefined;
+  return getCurrentCommit(deployRepoPath) || undefined;
+}
+
+/**
+ * Query all servers of a service in parallel and compare their commits
+ */
+async function getServiceStatus(name: string, config: ServiceConfig, workspaceRoot: string): Promise<ServiceStatus> {
+  const localCommit = getLocalCommit(config, workspaceRoot);
+  const states = await Promise.all(getServers(config).map(server => inspectServer(config, server)));
+  const commits = new Set(states.filter(s => s.commit).map(s => s.commit));
   
-  // List configured services
+  return {
+    service: name,
+    processManager: config.processManager || 'pm2',
+    environment: config.environment,
+    localCommit,
+    drift: commits.size > 1,
+    servers: states.map(state => ({
+      ...state,
+      upToDate: localCommit && state.commit ? state.commit === localCommit : undefined
+    }))
+  };
+}
+
+/**
+ * Print one server line (commit, process state, uptime, health)
+ */
+function printServerState(state: ServiceStatus['servers'][number]): void {
+  if (!state.reachable) {
+    print(`  ${chalk.red('✗')} ${state.server} ${chalk.red(`unreachable: ${state.error}`)}`);
+    return;
+  }
+  
+  const processState = state.process?.state || 'unknown';
+  const ok = processState === 'running' && state.health?.healthy !== false && state.upToDate !== false && state.commitVerified !== false;
+  const icon = ok ? chalk.green('✓') : chalk.yellow('⚠');
+  const commit = state.commit ? state.commit.substring(0, 7) : 'none';
+  
+  const parts = [
+    chalk.yellow(commit)
+      + (state.commitVerified === false ? chalk.yellow(' (unverified)') : '')
+      + (state.upToDate === false ? chalk.yellow(' (not latest)') : ''),
+    processState === 'running' ? chalk.green(processState)
+      : processState === 'errored' ? chalk.red(processState)
+      : chalk.yellow(processState)
+  ];
+  if (state.build?.sourceCommit) {
+    const source = [state.build.sourceBranch, state.build.dirty ? 'dirty' : undefined].filter(Boolean).join(', ');
+    parts.push(chalk.gray(`from ${state.build.sourceCommit.substring(0, 7)}${source ? ` (${source})` : ''}`));
+  }
+  if (state.process?.detail) parts.push(chalk.gray(`(${state.process.detail})`));
+  if (state.process?.uptime !== undefined) parts.push(chalk.gray(`up ${formatUptime(state.process.uptime)}`));
+  if (state.health) {
+    const code = state.health.status ?? 'no response';
+    parts.push(state.health.healthy ? chalk.green(`healthy (${code})`) : chalk.red(`unhealthy (${code})`));
+  }
+  
+  print(`  ${icon} ${state.server} ${parts.join(' ')}`);
+}
+
+/**
+ * Status command - show live state of services on their servers
+ * 
+ * For each server (queried in parallel via SSH): deployed commit (install status, else unverified bare repo HEAD) vs local deploy repo HEAD,
+ * the source commit it was built from, process state, uptime and health check. Flags drift between servers of the same service.
+ * 
+ * Usage:
+ *   gpd status                  - All services
+ *   gpd status <service>        - One service
+ *   gpd status --json           - Machine-readable output
+ */
+export async function statusCommand(serviceName?: string): Promise<void> {
+  let services: string[];
+  let config;
   try {
-    const services = listServices();
-    const config = loadConfig();
-    
-    console.log(chalk.white('Configured Services:'));
-    for (const name of services) {
-      const svc = config.services[name];
-      const servers = getServers(svc);
-      console.log(chalk.gray(`  ${name}`));
-      if (servers.length === 1) {
-        console.log(chalk.gray(`    Host: ${servers[0].host}`));
-      } else {
-        console.log(chalk.gray(`    Servers: ${servers.length}`));
-        for (const server of servers) {
-          const label = server.name || server.host;
-          console.log(chalk.gray(`      - ${label}`));
-        }
-      }
-      console.log(chalk.gray(`    Process: ${svc.processName}`));
-      console.log(chalk.gray(`    Source: ${svc.sourceDir}`));
-      console.log(chalk.gray(`    Deploy: ${svc.sourceDir}/${svc.deployRepo}`));
-      if (servers.length === 1) {
-        console.log(chalk.gray(`    Target: ${servers[0].targetDir}`));
-      }
-      if (svc.environment) {
-        console.log(chalk.gray(`    Environment: ${svc.environment}`));
-      }
-    }
-    console.log('');
+    services = listServices();
+    config = loadConfig();
   } catch {
-    console.log(chalk.yellow('No .git-deploy.json found in current directory tree.'));
-    console.log('');
+    emitResult({ services: [] });
+    print(chalk.yellow('No .git-deploy.json found in current directory tree.'));
+    print('');
+    return;
+  }
+  
+  if (serviceName) {
+    services = [serviceName];
+  }
+  
+  // selectServiceConfig validates values are shell-safe before they end up in SSH commands
+  const workspaceRoot = getWorkspaceRoot();
+  const statuses = await Promise.all(
+    services.map(name => getServiceStatus(name, selectServiceConfig(config, name), workspaceRoot))
+  );
+  
+  emitResult({ services: statuses });
+  
+  print(chalk.blue('Service Status'));
+  print('');
+  
+  for (const status of statuses) {
+    const env = status.environment ? `, ${status.environment}` : '';
+    print(chalk.white(`${status.service}`) + chalk.gray(` (${status.processManager}${env})`));
+    print(chalk.gray(`  Local: ${status.localCommit ? status.localCommit.substring(0, 7) : 'no deploy repo'}`));
+    status.servers.forEach(printServerState);
+    if (status.drift) {
+      print(chalk.yellow('  ⚠ Drift: servers run different commits'));
+    }
+    print('');
   }
 }
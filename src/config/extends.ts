@@ -0,0 +1,109 @@
+import type { DeployConfig, ServiceConfig } from './types.js';
+
+/**
+ * Keys that are deep-merged when a service extends another service or template
+ * All other keys are replaced by the extending service
+ */
+const DEEP_MERGE_KEYS = ['env', 'hooks', 'notifications', 'guards', 'deployWindows', 'approval'] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge two values: objects are merged key by key, anything else (incl. arrays) is replaced
+ */
+export function deepMerge<T>(base: T, override: T): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge(result[key], value);
+  }
+  return result as T;
+}
+
+/**
+ * Merge a service config over its base
+ * - env, hooks, notifications, guards, deployWindows, approval: deep-merged
+ * - server/servers: defining either one replaces both (a service never inherits a mix)
+ * - everything else: replaced
+ */
+export function mergeServiceConfig(base: Partial<ServiceConfig>, child: Partial<ServiceConfig>): Partial<ServiceConfig> {
+  const merged: Partial<ServiceConfig> = { ...base, ...child };
+  
+  for (const key of DEEP_MERGE_KEYS) {
+    if (base[key] !== undefined && child[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = deepMerge<unknown>(base[key], child[key]);
+    }
+  }
+  
+  if (child.server !== undefined || child.servers !== undefined) {
+    merged.server = child.server;
+    merged.servers = child.servers;
+    if (merged.server === undefined) delete merged.server;
+    if (merged.servers === undefined) delete merged.servers;
+  }
+  
+  delete merged.extends;
+  return merged;
+}
+
+/**
+ * Resolve `extends` for all services
+ * A service extends a template (`templates.<name>`) or another service (`services.<name>`).
+ * Templates may extend other templates or services as well. Chains are resolved base-first.
+ * @returns Config with fully merged services (no `extends` left); templates are kept as-is
+ * @throws Error on unknown, ambiguous or circular references
+ */
+export function resolveExtends(config: DeployConfig): DeployConfig {
+  if (!isPlainObject(config) || !isPlainObject(config.services)) {
+    return config;
+  }
+  
+  const templates = isPlainObject(config.templates) ? config.templates : {};
+  const resolved = new Map<string, Partial<ServiceConfig>>();
+  
+  function resolve(kind: 'services' | 'templates', name: string, chain: string[]): Partial<ServiceConfig> {
+    const key = `${kind}.${name}`;
+    const cached = resolved.get(key);
+    if (cached) return cached;
+    
+    if (chain.includes(key)) {
+      throw new Error(`Circular extends in config: ${[...chain, key].join(' -> ')}`);
+    }
+    
+    const entry = (kind === 'services' ? config.services[name] : templates[name]) as Partial<ServiceConfig>;
+    if (!isPlainObject(entry) || entry.extends === undefined) {
+      resolved.set(key, entry);
+      return entry;
+    }
+    
+    if (typeof entry.extends !== 'string') {
+      throw new Error(`Invalid extends in ${key}: must be the name of a template or service`);
+    }
+    
+    const base = entry.extends;
+    const inTemplates = base in templates;
+    const inServices = base in config.services && !(kind === 'services' && base === name);
+    if (inTemplates && inServices) {
+      throw new Error(`Ambiguous extends in ${key}: "${base}" is both a template and a service`);
+    }
+    if (!inTemplates && !inServices) {
+      throw new Error(`Unknown extends in ${key}: no template or service named "${base}"`);
+    }
+    
+    const baseConfig = resolve(inTemplates ? 'templates' : 'services', base, [...chain, key]);
+    const merged = mergeServiceConfig(baseConfig, entry);
+    resolved.set(key, merged);
+    return merged;
+  }
+  
+  const services: Record<string, ServiceConfig> = {};
+  for (const name of Object.keys(config.services)) {
+    services[name] = resolve('services', name, []) as ServiceConfig;
+  }
+  
+  return { ...config, services };
+}
@@ -1,7 +1,11 @@
 import { existsSync, readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import chalk from 'chalk';
-import type { DeployConfig, ServiceConfig } from './types.js';
+import type { DeployConfig, ServiceConfig, InstallConfig } from './types.js';
+import { printWarning } from '../utils/output.js';
+import { validateConfigSchema, formatConfigIssues } from './schema.js';
+import { resolveExtends } from './extends.js';
+import { SECRET_REF_PATTERN, getSecretsPath, hasSecretRefs, loadSecrets } from './secrets.js';
 
 export const CONFIG_FILENAME = '.git-deploy.json';
 
@@ -42,19 +46,33 @@ export function substituteEnvVars(value: string): string {
 }
 
 /**
- * Recursively substitute env vars in an object
+ * Substitute secret references in a string
+ * Supports ${secret:NAME} syntax
+ * @throws Error if the secret is not in the secrets file
  */
-function substituteEnvVarsInObject<T>(obj: T): T {
+function substituteSecrets(value: string, secrets: Record<string, string>): string {
+  return value.replace(SECRET_REF_PATTERN, (match, name) => {
+    if (!(name in secrets)) {
+      throw new Error(`Secret ${name} is not set (referenced in config as \${secret:${name}}). Use 'gpd secrets set ${name}'.`);
+    }
+    return secrets[name];
+  });
+}
+
+/**
+ * Recursively substitute env vars and secrets in an object
+ */
+export function substituteEnvVarsInObject<T>(obj: T, secrets: Record<string, string> = {}): T {
   if (typeof obj === 'string') {
-    return substituteEnvVars(obj) as T;
+    return substituteSecrets(substituteEnvVars(obj), secrets) as T;
   }
   if (Array.isArray(obj)) {
-    return obj.map(item => substituteEnvVarsInObject(item)) as T;
+    return obj.map(item => substituteEnvVarsInObject(item, secrets)) as T;
   }
   if (obj !== null && typeof obj === 'object') {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = substituteEnvVarsInObject(value);
+      result[key] = substituteEnvVarsInObject(value, secrets);
     }
     return result as T;
   }
@@ -70,8 +88,8 @@ function warnAboutSensitiveValues(config: DeployConfig, configPath: string): voi
   
   function checkValue(value: unknown, path: string): void {
     if (typeof value === 'string') {
-      // Skip if already using env var substitution
-      if (ENV_VAR_PATTERN.test(value)) return;
+      // Skip if already using env var or secret substitution
+      if (ENV_VAR_PATTERN.test(value) || hasSecretRefs(value)) return;
       
       // Check if the key suggests this is sensitive
       const keyName = path.split('.').pop() || '';
@@ -96,10 +114,10 @@ function warnAboutSensitiveValues(config: DeployConfig, configPath: string): voi
   checkValue(config, '');
   
   if (warnings.length > 0) {
-    console.log(chalk.yellow('\n⚠ Security warning: Possible hardcoded secrets detected in config:'));
-    warnings.forEach(w => console.log(chalk.yellow(w)));
-    console.log(chalk.gray(`  File: ${configPath}`));
-    console.log(chalk.gray('  Tip: Use ${ENV_VAR} syntax for sensitive values\n'));
+    printWarning(chalk.yellow('\n⚠ Security warning: Possible hardcoded secrets detected in config:'));
+    warnings.forEach(w => printWarning(chalk.yellow(w)));
+    printWarning(chalk.gray(`  File: ${configPath}`));
+    printWarning(chalk.gray('  Tip: Use ${ENV_VAR} syntax for sensitive values\n'));
   }
 }
 
@@ -120,31 +138,75 @@ export function findConfigFile(startDir: string = process.cwd()): string | null
   return null;
 }
 
+export interface ParseConfigOptions {
+  /** Substitute ${VAR} and ${secret:NAME} references (default: true) */
+  substituteEnv?: boolean;
+  /** Decrypted secrets for ${secret:NAME} references (only called if the config has any) */
+  secrets?: () => Record<string, string>;
+}
+
 /**
  * Load and parse config file
  * Performs env var substitution and security checks
  */
-export function loadConfig(configPath?: string): DeployConfig {
+export function loadConfig(configPath?: string, options: ParseConfigOptions = {}): DeployConfig {
   const path = configPath || findConfigFile();
   
   if (!path) {
     throw new Error(`Config file ${CONFIG_FILENAME} not found. Run from workspace root or specify path.`);
   }
   
+  return parseConfig(readFileSync(path, 'utf-8'), path, {
+    secrets: () => loadSecrets(getSecretsPath(path)),
+    ...options
+  });
+}
+
+/**
+ * Parse config content (e.g., read from a file or from a git commit)
+ * Resolves `extends`, then performs schema validation, env var substitution and security checks
+ * @param source Where the content came from (for messages)
+ * @throws Error listing all schema errors (unknown keys are only warned about)
+ */
+export function parseConfig(content: string, source: string, options: ParseConfigOptions = {}): DeployConfig {
   try {
-    const content = readFileSync(path, 'utf-8');
-    const rawConfig = JSON.parse(content) as DeployConfig;
+    const rawConfig = resolveExtends(JSON.parse(content) as DeployConfig);
+    
+    // Validate structure (of the merged services) before anything else touches it
+    const issues = validateConfigSchema(rawConfig);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    if (warnings.length > 0) {
+      printWarning(chalk.yellow(`⚠ Config warnings in ${source}:`));
+      printWarning(chalk.yellow(formatConfigIssues(warnings)));
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid config in ${source}:\n${formatConfigIssues(errors)}\nRun 'gpd config validate' for details.`);
+    }
     
     // Warn about hardcoded secrets before substitution
-    warnAboutSensitiveValues(rawConfig, path);
+    warnAboutSensitiveValues(rawConfig, source);
     
-    // Substitute environment variables
-    const config = substituteEnvVarsInObject(rawConfig);
+    if (options.substituteEnv === false) {
+      return rawConfig;
+    }
+    
+    // Decrypt secrets only if they are referenced (the key may not be available otherwise)
+    let secrets: Record<string, string> = {};
+    if (hasSecretRefs(rawConfig)) {
+      if (!options.secrets) {
+        throw new Error(`Config ${source} references secrets, but no secrets file is available`);
+      }
+      secrets = options.secrets();
+    }
+    
+    // Substitute environment variables and secrets
+    const config = substituteEnvVarsInObject(rawConfig, secrets);
     
     return config;
   } catch (error) {
     if (error instanceof SyntaxError) {
-      throw new Error(`Invalid JSON in ${path}: ${error.message}`);
+      throw new Error(`Invalid JSON in ${source}: ${error.message}`);
     }
     throw error;
   }
@@ -158,6 +220,7 @@ const VALID_HOST_PATTERN = /^[a-zA-Z0-9._@:-]+$/;
 const VALID_USER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
 const VALID_PROCESS_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
 const VALID_PATH_PATTERN = /^[a-zA-Z0-9_./-]+$/;
+const VALID_URL_PATTERN = /^https?:\/\/[a-zA-Z0-9._~:/?#@!&*+,=%-]+$/;
 
 /**
  * Validate a value against a pattern
@@ -173,7 +236,7 @@ function validateValue(value: string, pattern: RegExp, fieldName: string): void
  * Validate service config for shell-safe values
  * Prevents command injection via config values
  */
-function validateServiceConfig(serviceName: string, config: ServiceConfig): void {
+export function validateServiceConfig(serviceName: string, config: InstallConfig & Pick<ServiceConfig, 'server' | 'servers'>): void {
   // Validate process name
   if (config.processName) {
     validateValue(config.processName, VALID_PROCESS_NAME_PATTERN, 'processName');
@@ -184,6 +247,25 @@ function validateServiceConfig(serviceName: string, config: ServiceConfig): void
     validateValue(config.pm2User, VALID_USER_PATTERN, 'pm2User');
   }
   
+  // Validate docker paths (used in docker commands on the server)
+  if (config.dockerComposeFile) {
+    validateValue(config.dockerComposeFile, VALID_PATH_PATTERN, 'dockerComposeFile');
+  }
+  if (config.dockerImageArchive) {
+    validateValue(config.dockerImageArchive, VALID_PATH_PATTERN, 'dockerImageArchive');
+  }
+  
+  // Validate health check URLs (requested on the server via curl)
+  if (config.healthUrl) {
+    validateValue(config.healthUrl, VALID_URL_PATTERN, 'healthUrl');
+  }
+  if (config.gpddHealthUrl) {
+    validateValue(config.gpddHealthUrl, VALID_URL_PATTERN, 'gpddHealthUrl');
+  }
+  if (config.gpddReadyUrl) {
+    validateValue(config.gpddReadyUrl, VALID_URL_PATTERN, 'gpddReadyUrl');
+  }
+  
   // Validate server configs
   const servers = config.servers || (config.server ? [config.server] : []);
   for (const server of servers) {
@@ -200,7 +282,13 @@ function validateServiceConfig(serviceName: string, config: ServiceConfig): void
  * Get configuration for a specific service
  */
 export function getServiceConfig(serviceName: string, configPath?: string): ServiceConfig {
-  const config = loadConfig(configPath);
+  return selectServiceConfig(loadConfig(configPath), serviceName);
+}
+
+/**
+ * Select and validate a service from an already loaded config
+ */
+export function selectServiceConfig(config: DeployConfig, serviceName: string): ServiceConfig {
   const serviceConfig = config.services[serviceName];
   
   if (!serviceConfig) {
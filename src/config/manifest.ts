@@ -0,0 +1,88 @@
+import { LOCAL_ONLY_SERVICE_KEYS, type InstallConfig, type ServiceConfig } from './types.js';
+import { SECRET_REF_PATTERN, type SecretsFile } from './secrets.js';
+
+export const MANIFEST_FILENAME = '.gpd-manifest.json';
+
+/**
+ * Per-service manifest staged into the deploy repo (read by `gpd install` on the server)
+ * Contains only the deployed service, without deployer-only settings (other services, hosts,
+ * notification webhooks). ${VAR} references are kept and substituted on the server;
+ * referenced secrets stay encrypted and are decrypted with the server's key.
+ */
+export interface ServiceManifest {
+  version: 1;
+  service: string;
+  config: InstallConfig;
+  /** Encrypted values of the secrets the config references */
+  secrets?: SecretsFile;
+}
+
+/**
+ * Names of the secrets referenced by a config
+ */
+export function getSecretRefs(value: unknown): string[] {
+  const names = new Set<string>();
+  for (const match of JSON.stringify(value).matchAll(SECRET_REF_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Build the manifest for a service
+ * @param config Service config with extends resolved, but ${VAR}/${secret:NAME} not substituted
+ * @param secretsFile Workspace secrets file (referenced entries are copied, still encrypted)
+ * @throws Error if a referenced secret is missing
+ */
+export function buildManifest(serviceName: string, config: ServiceConfig, secretsFile?: SecretsFile): ServiceManifest {
+  const installConfig: Record<string, unknown> = { ...config };
+  for (const key of LOCAL_ONLY_SERVICE_KEYS) {
+    delete installConfig[key];
+  }
+  
+  // Pre-deploy and local post-deploy hooks run on the deploying machine
+  if (config.hooks) {
+    const { preDeploy, postDeployLocal, ...serverHooks } = config.hooks;
+    if (Object.keys(serverHooks).length > 0) {
+      installConfig.hooks = serverHooks;
+    } else {
+      delete installConfig.hooks;
+    }
+  }
+  
+  const manifest: ServiceManifest = { version: 1, service: serviceName, config: installConfig as InstallConfig };
+  
+  const refs = getSecretRefs(installConfig);
+  if (refs.length > 0) {
+    if (!secretsFile) {
+      throw new Error(`Service ${serviceName} references secrets, but there is no secrets file`);
+    }
+    const secrets: Record<string, string> = {};
+    for (const name of refs.sort()) {
+      if (!(name in secretsFile.secrets)) {
+        throw new Error(`Secret ${name} is not set. Use 'gpd secrets set ${name}'.`);
+      }
+      secrets[name] = secretsFile.secrets[name];
+    }
+    manifest.secrets = { ...secretsFile, secrets };
+  }
+  
+  return manifest;
+}
+
+/**
+ * Parse manifest content
+ * @param source Where the content came from (for messages)
+ */
+export function parseManifest(content: string, source: string): ServiceManifest {
+  let manifest: ServiceManifest;
+  try {
+    manifest = JSON.parse(content) as ServiceManifest;
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${source}: ${error.message}`);
+  }
+  if (manifest?.version !== 1 || typeof manifest.config !== 'object' || !manifest.service) {
+    throw new Error(`Unsupported manifest ${source} (expected version 1). Update gpd on the server.`);
+  }
+  return manifest;
+}
@@ -0,0 +1,219 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Subset of JSON Schema (draft-07) keywords used by schema/git-deploy.schema.json
+ */
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  minItems?: number;
+  definitions?: Record<string, JsonSchema>;
+  description?: string;
+}
+
+/**
+ * A schema violation
+ * Errors make the config unusable, warnings (unknown keys) are reported but don't fail
+ */
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  /** JSON path of the offending value (e.g. $.services.api.servers[0].host) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Published JSON Schema (also used by editors for autocompletion)
+ * Resolved relative to dist/config/ and src/config/ alike
+ */
+export const SCHEMA_PATH = new URL('../../schema/git-deploy.schema.json', import.meta.url);
+
+let cachedSchema: JsonSchema | undefined;
+
+function getSchema(): JsonSchema {
+  if (!cachedSchema) {
+    cachedSchema = JSON.parse(readFileSync(SCHEMA_PATH, 'utf-8')) as JsonSchema;
+  }
+  return cachedSchema;
+}
+
+/**
+ * Append a key or index to a JSON path
+ */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+}
+
+/**
+ * JSON type name of a value (integer is reported as number)
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Edit distance, used to suggest the intended key for unknown keys
+ */
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const distance = levenshtein(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : undefined;
+}
+
+/**
+ * Validate a value against a schema node, collecting issues
+ */
+function validateNode(value: unknown, schema: JsonSchema, path: string, root: JsonSchema, issues: ConfigIssue[]): void {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    const target = root.definitions?.[name];
+    if (!target) throw new Error(`Schema reference not found: ${schema.$ref}`);
+    validateNode(value, target, path, root, issues);
+    return;
+  }
+  
+  const error = (message: string) => issues.push({ severity: 'error', path, message });
+  
+  for (const branch of schema.allOf || []) {
+    validateNode(value, branch, path, root, issues);
+  }
+  
+  if (schema.if) {
+    const conditionIssues: ConfigIssue[] = [];
+    validateNode(value, schema.if, path, root, conditionIssues);
+    const branch = conditionIssues.some(issue => issue.severity === 'error') ? schema.else : schema.then;
+    if (branch) validateNode(value, branch, path, root, issues);
+  }
+  
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      error(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  
+  if (schema.enum && !schema.enum.includes(value)) {
+    error(`must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+    return;
+  }
+  
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) error(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) error(`must be <= ${schema.maximum}`);
+  }
+  
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    error(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+  
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    error(`must match ${schema.pattern}, got ${JSON.stringify(value)}`);
+  }
+  
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      error(`must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, childPath(path, index), root, issues));
+    }
+  }
+  
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    
+    for (const key of schema.required || []) {
+      if (!(key in obj)) {
+        error(`missing required property "${key}"`);
+      }
+    }
+    
+    if (schema.anyOf && !schema.anyOf.some(branch => {
+      const branchIssues: ConfigIssue[] = [];
+      validateNode(value, branch, path, root, branchIssues);
+      return !branchIssues.some(issue => issue.severity === 'error');
+    })) {
+      const alternatives = schema.anyOf.flatMap(branch => branch.required || []);
+      error(`must define one of: ${alternatives.join(', ')}`);
+    }
+    
+    const known = Object.keys(schema.properties || {});
+    for (const [key, child] of Object.entries(obj)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(child, propertySchema, childPath(path, key), root, issues);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestKey(key, known);
+        issues.push({
+          severity: 'warning',
+          path: childPath(path, key),
+          message: `unknown property "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, childPath(path, key), root, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a parsed .git-deploy.json against the published schema
+ * @returns Issues in document order (empty if valid)
+ */
+export function validateConfigSchema(config: unknown): ConfigIssue[] {
+  const schema = getSchema();
+  const issues: ConfigIssue[] = [];
+  validateNode(config, schema, '$', schema, issues);
+  return issues;
+}
+
+/**
+ * Format issues as indented lines (e.g. for error messages)
+ */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n');
+}
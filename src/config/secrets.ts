@@ -0,0 +1,198 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync, chmodSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { randomBytes, createCipheriv, createDecipheriv, createHash } from 'crypto';
+
+export const SECRETS_FILENAME = '.git-deploy.secrets.json';
+
+/**
+ * Pattern for secret references: ${secret:NAME}
+ */
+export const SECRET_REF_PATTERN = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypted secrets file (committed next to .git-deploy.json)
+ * Each value is encrypted on its own (base64 of iv + auth tag + ciphertext, secret name as AAD),
+ * so diffs show which secrets changed without revealing anything.
+ */
+export interface SecretsFile {
+  version: 1;
+  cipher: typeof CIPHER;
+  /** Fingerprint of the key the values are encrypted with (detects a wrong key) */
+  keyId: string;
+  secrets: Record<string, string>;
+}
+
+/**
+ * Default key file location (outside the repo, never committed)
+ */
+export function getDefaultKeyPath(): string {
+  return join(homedir(), '.config', 'gpd', 'secrets.key');
+}
+
+/**
+ * Key file location: GPD_SECRETS_KEY_FILE or ~/.config/gpd/secrets.key
+ */
+export function getKeyPath(): string {
+  return process.env.GPD_SECRETS_KEY_FILE || getDefaultKeyPath();
+}
+
+/**
+ * Path of the secrets file belonging to a config file
+ */
+export function getSecretsPath(configPath: string): string {
+  return join(dirname(configPath), SECRETS_FILENAME);
+}
+
+function decodeKey(encoded: string, source: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Invalid secrets key in ${source}: expected ${KEY_LENGTH} bytes (base64)`);
+  }
+  return key;
+}
+
+/**
+ * Load the secrets key
+ * GPD_SECRETS_KEY (base64) takes precedence over the key file
+ * @throws Error if no key is available
+ */
+export function loadKey(): Buffer {
+  if (process.env.GPD_SECRETS_KEY) {
+    return decodeKey(process.env.GPD_SECRETS_KEY, 'GPD_SECRETS_KEY');
+  }
+  const keyPath = getKeyPath();
+  if (!existsSync(keyPath)) {
+    throw new Error(`Secrets key not found. Set GPD_SECRETS_KEY or create ${keyPath} (gpd secrets set creates one).`);
+  }
+  return decodeKey(readFileSync(keyPath, 'utf-8'), keyPath);
+}
+
+/**
+ * Generate a new random key
+ */
+export function generateKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Write a key file (readable by the owner only)
+ */
+export function writeKey(keyPath: string, key: Buffer): void {
+  mkdirSync(dirname(keyPath), { recursive: true });
+  writeFileSync(keyPath, key.toString('base64') + '\n', { mode: 0o600 });
+  chmodSync(keyPath, 0o600);
+}
+
+/**
+ * Short fingerprint of a key (stored in the secrets file)
+ */
+export function getKeyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+export function validateSecretName(name: string): void {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid secret name: "${name}". Use letters, digits and underscores.`);
+  }
+}
+
+export function encryptSecret(key: Buffer, name: string, value: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+export function decryptSecret(key: Buffer, name: string, encrypted: string): string {
+  const data = Buffer.from(encrypted, 'base64');
+  const decipher = createDecipheriv(CIPHER, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Could not decrypt secret ${name}: wrong key or corrupted value`);
+  }
+}
+
+/**
+ * Parse secrets file content
+ * @param source Where the content came from (for messages)
+ */
+export function parseSecretsFile(content: string, source: string): SecretsFile {
+  let parsed: SecretsFile;
+  try {
+    parsed = JSON.parse(content) as SecretsFile;
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${source}: ${error.message}`);
+  }
+  if (parsed?.version !== 1 || parsed.cipher !== CIPHER || typeof parsed.secrets !== 'object') {
+    throw new Error(`Unsupported secrets file ${source} (expected version 1, ${CIPHER})`);
+  }
+  return parsed;
+}
+
+/**
+ * Read a secrets file
+ * @returns undefined if it doesn't exist yet
+ */
+export function readSecretsFile(path: string): SecretsFile | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return parseSecretsFile(readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * Create an empty secrets file (in memory) for a key
+ */
+export function createSecretsFile(key: Buffer): SecretsFile {
+  return { version: 1, cipher: CIPHER, keyId: getKeyId(key), secrets: {} };
+}
+
+export function writeSecretsFile(path: string, file: SecretsFile): void {
+  const secrets = Object.fromEntries(Object.entries(file.secrets).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(path, JSON.stringify({ ...file, secrets }, null, 2) + '\n');
+}
+
+/**
+ * Decrypt all secrets of a file
+ * @throws Error if the key doesn't match the one the file was encrypted with
+ */
+export function decryptSecrets(file: SecretsFile, key: Buffer, source: string): Record<string, string> {
+  if (file.keyId !== getKeyId(key)) {
+    throw new Error(`Secrets key does not match ${source} (key id ${file.keyId}). Was the key rotated?`);
+  }
+  const values: Record<string, string> = {};
+  for (const [name, encrypted] of Object.entries(file.secrets)) {
+    values[name] = decryptSecret(key, name, encrypted);
+  }
+  return values;
+}
+
+/**
+ * Read and decrypt a secrets file with the local key
+ */
+export function loadSecrets(path: string): Record<string, string> {
+  const file = readSecretsFile(path);
+  if (!file) {
+    throw new Error(`Config references secrets, but ${path} does not exist. Use 'gpd secrets set' to create it.`);
+  }
+  return decryptSecrets(file, loadKey(), path);
+}
+
+/**
+ * Check whether a config contains ${secret:NAME} references
+ */
+export function hasSecretRefs(value: unknown): boolean {
+  return JSON.stringify(value).search(SECRET_REF_PATTERN) !== -1;
+}
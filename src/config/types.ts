@@ -1,13 +1,82 @@
 ﻿/**
  * Process manager type
  */
-export type ProcessManagerType = 'pm2' | 'systemd' | 'gpdd';
+export type ProcessManagerType = 'pm2' | 'systemd' | 'gpdd' | 'docker';
 
 /**
  * Environment type for deployment
  */
 export type EnvironmentType = 'production' | 'staging' | 'development';
 
+/**
+ * Build step run by `gpd deploy` before staging
+ */
+export interface BuildConfig {
+  /** Build command (e.g. "npm run build") */
+  command: string;
+  /** Working directory relative to sourceDir (default: sourceDir) */
+  cwd?: string;
+  /** Extra environment variables for the build */
+  env?: Record<string, string>;
+  /** Files/dirs or glob patterns (relative to sourceDir) the build must produce */
+  outputs?: string[];
+  /** Skip the build if the source tree is unchanged since the last build (default: true) */
+  cache?: boolean;
+}
+
+/**
+ * Checks on the source repo that `gpd deploy` enforces (overridable with --allow-dirty)
+ */
+export interface SourceGuardsConfig {
+  /** Refuse uncommitted or untracked changes in sourceDir */
+  requireClean?: boolean;
+  /** Only deploy from one of these branches */
+  branches?: string[];
+  /** The source commit must be on the branch's upstream (as of the last fetch) */
+  requirePushed?: boolean;
+}
+
+/**
+ * Change freeze: deploys are refused between from and to (in the timezone of the deploy windows)
+ */
+export interface FreezeConfig {
+  /** Start, YYYY-MM-DD (start of day) or YYYY-MM-DDTHH:mm */
+  from: string;
+  /** End (inclusive), YYYY-MM-DD (end of day) or YYYY-MM-DDTHH:mm */
+  to: string;
+  reason?: string;
+}
+
+/**
+ * When deploy, release and rollback are allowed (overridable with --override-freeze --reason)
+ */
+export interface DeployWindowsConfig {
+  /** IANA timezone of windows and freezes, e.g. Europe/Berlin (default: local time) */
+  timezone?: string;
+  /** Cron-like windows in which deploys are allowed: minute hour day-of-month month day-of-week (default: any time) */
+  allow?: string[];
+  /** Change freezes (blackouts), checked before the allowed windows */
+  freeze?: FreezeConfig[];
+}
+
+/**
+ * Two-person rule: releases wait for `gpd approve` by someone else (as the server identifies them)
+ */
+export interface ApprovalConfig {
+  /** Commit releases without pushing them until someone else approves */
+  required?: boolean;
+  /** Seconds after which a pending release can no longer be approved (default: 86400) */
+  expiresAfter?: number;
+}
+
+/**
+ * Deploy window violation overridden with --override-freeze
+ */
+export interface FreezeOverride {
+  violation: string;
+  reason: string;
+}
+
 /**
  * Hooks configuration for pre/post deployment scripts
  */
@@ -74,6 +143,49 @@ export interface NotificationsConfig {
   webhook?: WebhookNotificationConfig;
 }
 
+/**
+ * Rollout strategy for multi-server deployments
+ * - all-at-once: push to every server in parallel
+ * - rolling: push in batches of `batchSize` servers
+ * - canary: push to `canaryCount` servers first, then to the rest in parallel
+ */
+export type RolloutStrategyType = 'all-at-once' | 'rolling' | 'canary';
+
+/**
+ * Rollout configuration
+ * A failed batch halts the rollout - remaining servers keep the old commit
+ */
+export interface RolloutConfig {
+  /** Rollout strategy (default: 'rolling') */
+  strategy: RolloutStrategyType;
+
+  /** Rolling: number of servers per batch (default: 1) */
+  batchSize?: number;
+
+  /** Canary: number of servers in the canary batch (default: 1) */
+  canaryCount?: number;
+}
+
+/**
+ * Deployment outcome for a single server
+ */
+export interface ServerDeploymentResult {
+  /** Server label (name or host) */
+  server: string;
+  /**
+   * deployed = got the new commit, unhealthy = got the new commit but its install or health check failed,
+   * failed = push failed, skipped = rollout halted before this server
+   */
+  status: 'deployed' | 'unhealthy' | 'failed' | 'skipped';
+  /** Commit the server is on after the rollout */
+  commitHash?: string;
+  /** Health check outcome (undefined if no health check is configured) */
+  healthy?: boolean;
+  /** Server was reverted to the previous commit by autoRollback */
+  rolledBack?: boolean;
+  error?: string;
+}
+
 /**
  * Deployment result for notifications
  */
@@ -87,6 +199,56 @@ export interface DeploymentResult {
   duration?: number;
   commitHash?: string;
   commitMessage?: string;
+  /** Tag created for the release commit */
+  tag?: string;
+  /** Rollout strategy used for the push */
+  strategy?: RolloutStrategyType;
+  /** Per-server outcome (which server got which commit) */
+  serverResults?: ServerDeploymentResult[];
+  /** True if every deployed server passed its health check (undefined if not checked) */
+  verified?: boolean;
+  /** Failed deployment was automatically rolled back */
+  rolledBack?: boolean;
+  /** Commit the servers were rolled back to */
+  rolledBackTo?: string;
+  /** Release promoted by `gpd promote` (service and deploy repo commit it came from) */
+  promotedFrom?: { service: string; commit: string };
+  /** Commit whose tree a `gpd rollback --revert` release restored */
+  revertedTo?: string;
+  /** Source guard violations that were overridden with --allow-dirty */
+  guardOverrides?: string[];
+  /** Deploy window / change freeze that was overridden with --override-freeze */
+  freezeOverride?: FreezeOverride;
+  /** Committed but not pushed: waits for `gpd approve` (two-person rule) */
+  pendingApproval?: boolean;
+  /** Server-side identity that requested the release (two-person rule) */
+  requestedBy?: string;
+  /** Server-side identity that approved the release with `gpd approve` */
+  approvedBy?: string;
+  /** Source repo commit the released artifacts were built from (from gpd-build.json) */
+  sourceCommit?: string;
+}
+
+/**
+ * Build metadata file written into the deploy repo by `gpd stage`
+ */
+export const BUILD_INFO_FILENAME = 'gpd-build.json';
+
+/**
+ * Where and by whom the staged artifacts were built
+ */
+export interface BuildInfo {
+  /** Source repo commit (undefined if sourceDir is not a git repo or has no commits) */
+  sourceCommit?: string;
+  /** Source repo branch (undefined on a detached HEAD) */
+  sourceBranch?: string;
+  /** Source had uncommitted changes when staged */
+  dirty: boolean;
+  /** ISO timestamp of the stage */
+  builtAt: string;
+  gpdVersion: string;
+  /** Git identity, or OS user if none is configured */
+  deployer: string;
 }
 
 /**
@@ -128,13 +290,19 @@ export interface ServiceConfig {
   /** Path to deploy repository (relative to sourceDir) */
   deployRepo: string;
 
-  /** Files/dirs to copy to deploy repo */
+  /** Files/dirs or glob patterns (e.g. dist/*.js) to copy to deploy repo */
   artifacts: string[];
 
+  /** Patterns to leave out of the artifacts (gitignore syntax, like .gpdignore in sourceDir) */
+  exclude?: string[];
+
+  /** Build step run by `gpd deploy` before staging */
+  build?: BuildConfig;
+
   /** Process manager type (default: 'pm2') */
   processManager?: ProcessManagerType;
 
-  /** Process name (PM2 name or systemd service name) */
+  /** Process name (PM2 name, systemd service name or docker compose project name) */
   processName: string;
 
   /** PM2 home directory on server */
@@ -164,9 +332,48 @@ export interface ServiceConfig {
   /** GPDD: Systemd services to start after (e.g., ['postgresql.service']) */
   gpddAfterServices?: string[];
 
+  /** Systemd: ExecStart command (default: /usr/bin/env node dist/index.js) */
+  systemdExecStart?: string;
+
+  /** Systemd: Units to start after (e.g., ['postgresql.service']) */
+  systemdAfterServices?: string[];
+
+  /** Docker: Compose file in the deployed artifacts (default: docker-compose.yml) */
+  dockerComposeFile?: string;
+
+  /** Docker: Image archive in the deployed artifacts to `docker load` (default: build with compose) */
+  dockerImageArchive?: string;
+
+  /** Health check URL polled on each server after deploy (falls back to gpddHealthUrl/gpddReadyUrl) */
+  healthUrl?: string;
+
+  /** Seconds to wait for the health check to pass after deploy (default: 60) */
+  healthTimeout?: number;
+
+  /** Seconds between health check attempts (default: 2) */
+  healthInterval?: number;
+
+  /** Revert affected servers to the previous commit if install or health check fails */
+  autoRollback?: boolean;
+
+  /** Server directory layout: in-place checkout into targetDir, or releases/<timestamp-sha> + `current` symlink (default: 'inplace') */
+  layout?: 'inplace' | 'releases';
+
+  /** Releases layout: number of releases to keep on the server (default: 5) */
+  keepReleases?: number;
+
   /** Environment type (production, staging, development) */
   environment?: EnvironmentType;
 
+  /** Source guards for this service (override the guards of its environment) */
+  guards?: SourceGuardsConfig;
+
+  /** Deploy windows for this service (override those of its environment) */
+  deployWindows?: DeployWindowsConfig;
+
+  /** Two-person rule for this service (overrides that of its environment) */
+  approval?: ApprovalConfig;
+
   /** Environment variables to write to .env file on server */
   env?: Record<string, string | number | boolean>;
 
@@ -182,6 +389,18 @@ export interface ServiceConfig {
   /** Multiple servers for parallel deployment */
   servers?: ServerConfig[];
 
+  /** Rollout strategy for multi-server deployments (default: rolling, batch size 1) */
+  rollout?: RolloutConfig;
+
+  /** Tag each release commit: 'package' = v<version from sourceDir/package.json>, 'counter' = deploy-<N> */
+  tagging?: 'package' | 'counter';
+
+  /** Seconds after which a `gpd deploy` lock counts as stale and may be broken (default: 1800) */
+  lockTimeout?: number;
+
+  /** Template or service to inherit from (env, hooks, notifications, guards, deployWindows, approval are deep-merged) */
+  extends?: string;
+
   // Legacy fields for backwards compatibility
   /** @deprecated Use sourceDir instead */
   packages?: string[];
@@ -196,9 +415,150 @@ export interface DeployConfig {
   /** Port ranges for different environments (informational) */
   portRanges?: Record<string, Record<string, number>>;
   
+  /** Source guards per environment (checked by `gpd deploy`) */
+  guards?: Partial<Record<EnvironmentType, SourceGuardsConfig>>;
+  
+  /** Deploy windows and change freezes per environment (checked by deploy, release, rollback) */
+  deployWindows?: Partial<Record<EnvironmentType, DeployWindowsConfig>>;
+  
+  /** Two-person rule per environment (releases wait for `gpd approve`) */
+  approval?: Partial<Record<EnvironmentType, ApprovalConfig>>;
+  
+  /** Shared partial service configs, used via `extends` */
+  templates?: Record<string, Partial<ServiceConfig>>;
+  
   services: Record<string, ServiceConfig>;
 }
 
+/**
+ * Service settings only used on the deploying machine (not shipped to servers)
+ */
+export const LOCAL_ONLY_SERVICE_KEYS = [
+  'sourceDir',
+  'deployRepo',
+  'artifacts',
+  'exclude',
+  'build',
+  'notifications',
+  'server',
+  'servers',
+  'rollout',
+  'tagging',
+  'lockTimeout',
+  'guards',
+  'deployWindows',
+  'approval',
+  'extends',
+  'packages',
+  'mainPackage'
+] as const;
+
+/**
+ * Service config as used by `gpd install` on the server (see .gpd-manifest.json)
+ */
+export type InstallConfig = Omit<ServiceConfig, typeof LOCAL_ONLY_SERVICE_KEYS[number]>;
+
+/**
+ * Install outcome written by `gpd install` on the server
+ */
+export interface InstallStatus {
+  /** Commit that was installed */
+  commit: string;
+  success: boolean;
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * Install status file (in server target dir)
+ */
+export const INSTALL_STATUS_FILENAME = '.gpd-install.json';
+
+/**
+ * Result of a single post-deploy hook
+ */
+export interface HookResult {
+  command: string;
+  success: boolean;
+  durationMs: number;
+}
+
+/**
+ * Deployment history entry, one JSON line per install in the server ledger
+ */
+export interface HistoryEntry {
+  /** Commit that was installed */
+  commit: string;
+  /** Author of the deploy commit (the user who ran gpd release) */
+  deployer: string;
+  /** Deploy commit message */
+  message?: string;
+  /** Install start time (ISO) */
+  timestamp: string;
+  durationMs: number;
+  outcome: 'success' | 'failed';
+  error?: string;
+  hooks?: HookResult[];
+}
+
+/**
+ * Deployment history ledger (JSON lines, in server target dir)
+ */
+export const HISTORY_FILENAME = '.gpd-history.jsonl';
+
+/**
+ * Deployment lock, taken by `gpd deploy` (whole deploy), `gpd install` (post-receive hook)
+ * and `gpd lock` (maintenance freeze)
+ */
+export interface DeployLock {
+  /** Random id, so only the owner releases the lock */
+  id: string;
+  /** Who holds the lock (git author name, as recorded in the deployment history) */
+  holder: string;
+  /** Machine the lock was taken on */
+  hostname: string;
+  operation: 'deploy' | 'install' | 'maintenance';
+  /** Time the lock was taken (ISO) */
+  acquiredAt: string;
+  /** Seconds after which the lock counts as stale (none: held until `gpd unlock`) */
+  timeout?: number;
+  reason?: string;
+}
+
+/**
+ * Deployment lock file (JSON, in server target dir)
+ */
+export const LOCK_FILENAME = '.gpd-lock.json';
+
+/**
+ * Release waiting for `gpd approve` (JSON PendingRelease, in the primary server's target dir)
+ */
+export const PENDING_RELEASE_FILENAME = '.gpd-pending.json';
+
+/**
+ * Release committed to the deploy repo but not pushed to the branch, waiting for `gpd approve` (two-person rule)
+ * Kept on the primary server: the commit as refs/gpd/pending/<id> in the bare repo, this record next to the lock.
+ */
+export interface PendingRelease {
+  /** Short hash of the release commit (`gpd approve <service> <id>` takes any prefix of the full hash, at least 4 characters) */
+  id: string;
+  /** Short hash of the release commit (the same as id) */
+  commitHash: string;
+  commitMessage: string;
+  branch: string;
+  /** Commit the servers are on ('' before the first release), auto-rollback target */
+  previousCommit: string;
+  tag?: string;
+  /** Identity of the requester on the primary server (see getServerIdentity), e.g. "jane" */
+  requestedBy: string;
+  /** Time the release was committed (ISO) */
+  requestedAt: string;
+  promotedFrom?: { service: string; commit: string };
+  revertedTo?: string;
+  guardOverrides?: string[];
+  sourceCommit?: string;
+}
+
 /**
  * Default artifacts to copy if not specified
  */
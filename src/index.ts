@@ -1,6 +1,7 @@
 ﻿#!/usr/bin/env node
 
 import { Command } from 'commander';
+import chalk from 'chalk';
 import { createRequire } from 'module';
 import { stageCommand } from './commands/stage.js';
 import { releaseCommand } from './commands/release.js';
@@ -10,9 +11,15 @@ import { statusCommand } from './commands/status.js';
 import { logsCommand } from './commands/logs.js';
 import { installCommand } from './commands/install.js';
 import { rollbackCommand } from './commands/rollback.js';
-import { configCommand } from './commands/config.js';
+import { promoteCommand } from './commands/promote.js';
+import { approveCommand } from './commands/approve.js';
+import { lockCommand, unlockCommand } from './commands/lock.js';
+import { configCommand, configValidateCommand, configShowCommand } from './commands/config.js';
+import { secretsCommand } from './commands/secrets.js';
 import { daemonCommand } from './commands/daemon.js';
 import { autostartCommand } from './commands/autostart.js';
+import { historyCommand } from './commands/history.js';
+import { setOutputMode, printError, emitResult } from './utils/output.js';
 
 // Read version from package.json dynamically
 const require = createRequire(import.meta.url);
@@ -23,7 +30,13 @@ const program = new Command();
 program
   .name('gpd')
   .description('Git Push Deploy - CLI for git-based deployments with PM2 support')
-  .version(version);
+  .version(version)
+  .option('--json', 'Machine-readable output (JSON lines: events, then a final result)')
+  .option('-q, --quiet', 'Only print warnings and errors')
+  .hook('preAction', () => {
+    const { json, quiet } = program.opts();
+    setOutputMode(json ? 'json' : quiet ? 'quiet' : 'text');
+  });
 
 // Development commands (run on dev machine)
 program
@@ -35,18 +48,74 @@ program
   .command('release <service>')
   .description('Commit and push deploy repository to server')
   .option('-m, --message <message>', 'Commit message')
-  .action(releaseCommand);
+  .option('-t, --tag <tag>', 'Tag the release commit (overrides the tagging config)')
+  .option('--notes <notes>', 'Release notes for the tag (default: commit message)')
+  .option('--allow-dirty', 'Release even if the source guards fail (dirty tree, wrong branch, unpushed commit)')
+  .option('--override-freeze', 'Release outside the deploy windows or during a change freeze (needs --reason)')
+  .option('--reason <reason>', 'Why the freeze is overridden (recorded in notifications)')
+  .action(async (service, options) => {
+    const result = await releaseCommand(service, {
+      message: options.message,
+      tag: options.tag,
+      notes: options.notes,
+      allowDirty: options.allowDirty,
+      overrideFreeze: options.overrideFreeze,
+      reason: options.reason
+    });
+    emitResult(result || { service, success: true, released: false, message: 'No changes to release' });
+    if (result && !result.success) {
+      process.exitCode = 1;
+    }
+  });
 
 program
   .command('deploy <service>')
   .description('Stage and push to server (hook handles install)')
   .option('-m, --message <message>', 'Commit message')
+  .option('-t, --tag <tag>', 'Tag the release commit (overrides the tagging config)')
+  .option('--notes <notes>', 'Release notes for the tag (default: commit message)')
   .option('--skip-push', 'Only stage, do not push')
   .option('--dry-run', 'Preview what would happen without making changes')
+  .option('--rebuild', 'Run the build step even if the source is unchanged')
+  .option('--allow-dirty', 'Deploy even if the source guards fail (dirty tree, wrong branch, unpushed commit)')
+  .option('--override-freeze', 'Deploy outside the deploy windows or during a change freeze (needs --reason)')
+  .option('--reason <reason>', 'Why the freeze is overridden (recorded in notifications)')
   .action((service, options) => deployCommand(service, { 
     message: options.message, 
+    tag: options.tag,
+    notes: options.notes,
     skipPush: options.skipPush,
-    dryRun: options.dryRun
+    dryRun: options.dryRun,
+    rebuild: options.rebuild,
+    allowDirty: options.allowDirty,
+    overrideFreeze: options.overrideFreeze,
+    reason: options.reason
+  }));
+
+program
+  .command('promote <from-service> <to-service>')
+  .description('Release the commit live on one service (e.g. staging) to another (e.g. production)')
+  .option('-m, --message <message>', 'Commit message')
+  .option('--dry-run', 'Preview what would happen without making changes')
+  .option('--override-freeze', 'Promote outside the deploy windows or during a change freeze (needs --reason)')
+  .option('--reason <reason>', 'Why the freeze is overridden (recorded in notifications)')
+  .action((fromService, toService, options) => promoteCommand(fromService, toService, {
+    message: options.message,
+    dryRun: options.dryRun,
+    overrideFreeze: options.overrideFreeze,
+    reason: options.reason
+  }));
+
+program
+  .command('approve <service> [id]')
+  .description('Push a release that waits for approval (two-person rule); without id, show it')
+  .option('--reject', 'Discard the pending release instead (its changes stay staged)')
+  .option('--override-freeze', 'Push outside the deploy windows or during a change freeze (needs --reason)')
+  .option('--reason <reason>', 'Why the freeze is overridden (recorded in notifications)')
+  .action((service, id, options) => approveCommand(service, id, {
+    reject: options.reject,
+    overrideFreeze: options.overrideFreeze,
+    reason: options.reason
   }));
 
 program
@@ -55,12 +124,32 @@ program
   .option('-s, --steps <n>', 'Go back N commits', parseInt)
   .option('-l, --list', 'List available versions without rollback')
   .option('-f, --force', 'Skip confirmation prompt')
+  .option('--server <names>', 'Only roll back these servers (comma-separated names or hosts)')
+  .option('--revert', 'Release a new commit with the target\'s tree instead of rewriting deploy repo history')
+  .option('--override-freeze', 'Roll back outside the deploy windows or during a change freeze (needs --reason)')
+  .option('--reason <reason>', 'Why the freeze is overridden (recorded in notifications)')
   .action((service, target, options) => rollbackCommand(service, target, {
     steps: options.steps,
     list: options.list,
-    force: options.force
+    force: options.force,
+    revert: options.revert,
+    overrideFreeze: options.overrideFreeze,
+    reason: options.reason,
+    servers: options.server?.split(',').map((name: string) => name.trim()).filter(Boolean)
   }));
 
+program
+  .command('lock <service>')
+  .description('Lock deployments of a service on its servers (maintenance freeze)')
+  .option('-r, --reason <reason>', 'Reason shown to anyone trying to deploy')
+  .action((service, options) => lockCommand(service, { reason: options.reason }));
+
+program
+  .command('unlock <service>')
+  .description('Remove the maintenance lock of a service')
+  .option('-f, --force', 'Also remove a deploy/install lock that is still live')
+  .action((service, options) => unlockCommand(service, { force: options.force }));
+
 // Server setup command
 program
   .command('init <service>')
@@ -76,27 +165,57 @@ program
   .action((service, options) => installCommand(service, { configPath: options.config }));
 
 program
-  .command('status')
-  .description('Show all configured services')
-  .action(statusCommand);
+  .command('status [service]')
+  .description('Show live state of services on their servers')
+  .action((service) => statusCommand(service));
 
 program
   .command('logs <service>')
-  .description('Show PM2 logs from server via SSH')
+  .description('Show logs from server via SSH (PM2, journalctl or docker compose)')
   .option('-n, --lines <lines>', 'Number of lines to show', '50')
   .option('-f, --follow', 'Follow log output')
   .action(logsCommand);
 
 program
-  .command('config')
-  .description('Interactive configuration wizard for .git-deploy.json')
+  .command('history <service>')
+  .description('Show deployment history recorded on each server')
+  .option('--since <date>', 'Only deployments since date or age (e.g. 2025-01-31, 7d)')
+  .option('--until <date>', 'Only deployments until date or age')
+  .option('--outcome <outcome>', 'Only deployments with outcome (success|failed)')
+  .option('-n, --lines <lines>', 'Number of entries per server', '20')
+  .action((service, options) => historyCommand(service, options));
+
+program
+  .command('config [action] [service]')
+  .description('Interactive configuration wizard for .git-deploy.json (validate: check config against schema, show <service>: print effective service config)')
   .option('-e, --edit <service>', 'Edit existing service')
   .option('-l, --list', 'List configured services')
-  .action((options) => configCommand({ edit: options.edit, list: options.list }));
+  .option('-c, --config <path>', 'Path to .git-deploy.json (validate, show)')
+  .action((action, service, options) => {
+    if (action === 'validate') {
+      return configValidateCommand(options.config);
+    }
+    if (action === 'show') {
+      if (!service) {
+        throw new Error('Usage: gpd config show <service>');
+      }
+      return configShowCommand(service, options.config);
+    }
+    if (action) {
+      throw new Error(`Unknown config action: ${action}. Available: validate, show`);
+    }
+    return configCommand({ edit: options.edit, list: options.list });
+  });
+
+program
+  .command('secrets <action> [name] [value]')
+  .description('Manage encrypted secrets for ${secret:NAME} references (set, get, list, rotate)')
+  .option('-c, --config <path>', 'Path to .git-deploy.json (secrets file is stored next to it)')
+  .action((action, name, value, options) => secretsCommand(action, name, value, options));
 
 program
   .command('daemon <service> <action>')
-  .description('Control gpdd daemon on server (status|reload|stop|start)')
+  .description('Control gpdd daemon or docker containers on server (status|reload|stop|start)')
   .action((service, action) => daemonCommand(service, action));
 
 program
@@ -104,4 +223,7 @@ program
   .description('Manage systemd autostart for gpdd services (enable|disable|status)')
   .action((service, action) => autostartCommand(service, action));
 
-program.parse();
+program.parseAsync().catch((error: Error) => {
+  printError(chalk.red(`Error: ${error.message}`));
+  process.exitCode = 1;
+});
@@ -0,0 +1,178 @@
+import chalk from 'chalk';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PENDING_RELEASE_FILENAME, getPrimaryServer, type ApprovalConfig, type DeployConfig, type PendingRelease, type ServerConfig, type ServiceConfig } from '../config/types.js';
+import { getLastCommitHash, gitDeleteTag, gitFetchRef, gitUndoCommit, isAncestor, tagExists } from './git.js';
+import { runSshCommand } from './shell.js';
+import { printWarning } from './output.js';
+
+/**
+ * Default seconds after which a pending release can no longer be approved
+ */
+export const DEFAULT_APPROVAL_EXPIRY = 86400;
+
+/**
+ * Release requested from this clone, kept in the deploy repo's .git dir until it is approved or rejected
+ * (from any clone), so the unpushed commit can be dropped here if it was rejected elsewhere
+ */
+const REQUESTED_RELEASE_PATH = join('.git', 'gpd-requested.json');
+
+/**
+ * Two-person rule that applies to a service: that of its environment, overridden by the service's own
+ */
+export function getApproval(config: DeployConfig, service: ServiceConfig): ApprovalConfig {
+  const environment = service.environment || 'production';
+  return { ...config.approval?.[environment], ...service.approval };
+}
+
+/**
+ * Ref of a pending release in the bare repo: its tag if the release is tagged, else its commit
+ */
+export function getPendingRef(id: string): string {
+  return `refs/gpd/pending/${id}`;
+}
+
+/**
+ * Identity of whoever runs gpd, as the server sees the SSH session: GPD_USER if the server sets it
+ * (e.g. per key with environment="GPD_USER=jane" in authorized_keys of a shared deploy account),
+ * else the login name. Unlike the git identity, the client can't choose it.
+ */
+export async function getServerIdentity(server: ServerConfig): Promise<string> {
+  const identity = await runSshCommand(server.host, 'echo "${GPD_USER:-$(id -un)}"', server.sshOptions);
+  if (!identity) {
+    throw new Error(`Could not tell who is logged in on ${server.name || server.host}`);
+  }
+  return identity;
+}
+
+function getPendingPath(server: ServerConfig): string {
+  return `${server.targetDir}/${PENDING_RELEASE_FILENAME}`;
+}
+
+/**
+ * Pending release of a service, read from its primary server
+ * @returns undefined if no release waits for approval
+ */
+export async function readPendingRelease(config: ServiceConfig): Promise<PendingRelease | undefined> {
+  const server = getPrimaryServer(config);
+  const output = await runSshCommand(server.host, `cat "${getPendingPath(server)}" 2>/dev/null || true`, server.sshOptions);
+  if (!output) return undefined;
+  try {
+    return JSON.parse(output) as PendingRelease;
+  } catch {
+    throw new Error(`Unreadable pending release ${getPendingPath(server)} on ${server.name || server.host}`);
+  }
+}
+
+/**
+ * Record the release waiting for approval on the primary server (its commit must be pushed to getPendingRef first)
+ * The file is created with noclobber, so of two concurrent requests only one waits for approval.
+ * @throws Error if another release is already waiting
+ */
+export async function writePendingRelease(config: ServiceConfig, release: PendingRelease): Promise<void> {
+  const server = getPrimaryServer(config);
+  const path = getPendingPath(server);
+  const content = Buffer.from(JSON.stringify(release, null, 2) + '\n').toString('base64');
+  const output = await runSshCommand(server.host,
+    `mkdir -p "${server.targetDir}" && if (set -C; echo '${content}' | base64 -d > "${path}") 2>/dev/null; ` +
+    `then echo written; else echo exists; fi`,
+    server.sshOptions);
+  if (output !== 'written') {
+    throw new Error(`Another release of ${server.name || server.host} is already waiting for approval`);
+  }
+}
+
+/**
+ * Forget the pending release on the primary server (approved or rejected): its record and its ref
+ */
+export async function removePendingRelease(config: ServiceConfig, id: string): Promise<void> {
+  const server = getPrimaryServer(config);
+  const path = getPendingPath(server);
+  await runSshCommand(server.host,
+    `if grep -q '"id": "${id}"' "${path}" 2>/dev/null; then rm -f "${path}"; fi; ` +
+    `git --git-dir="${server.bareRepo}" update-ref -d "${getPendingRef(id)}" 2>/dev/null || true`,
+    server.sshOptions);
+}
+
+/**
+ * Release requested from this clone (see REQUESTED_RELEASE_PATH)
+ */
+export function readRequestedRelease(deployRepoPath: string): PendingRelease | undefined {
+  const path = join(deployRepoPath, REQUESTED_RELEASE_PATH);
+  try {
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeRequestedRelease(deployRepoPath: string, release: PendingRelease): void {
+  writeFileSync(join(deployRepoPath, REQUESTED_RELEASE_PATH), JSON.stringify(release, null, 2) + '\n');
+}
+
+export function removeRequestedRelease(deployRepoPath: string): void {
+  rmSync(join(deployRepoPath, REQUESTED_RELEASE_PATH), { force: true });
+}
+
+/**
+ * Drop the commit of a release nobody pushed: undo it (changes stay staged) and delete its tag
+ * Only if it is still HEAD of this clone.
+ * @returns Whether the commit was dropped
+ */
+export function dropReleaseCommit(deployRepoPath: string, release: Pick<PendingRelease, 'commitHash' | 'tag'>): boolean {
+  removeRequestedRelease(deployRepoPath);
+  if (getLastCommitHash(deployRepoPath) !== release.commitHash) return false;
+  gitUndoCommit(deployRepoPath);
+  if (release.tag && tagExists(deployRepoPath, release.tag)) {
+    gitDeleteTag(deployRepoPath, release.tag);
+  }
+  return true;
+}
+
+/**
+ * Refuse to touch a service while a release waits for approval
+ * A release requested from this clone that was since rejected elsewhere is dropped here
+ * (its commit would otherwise be pushed along with the next release).
+ * @throws Error naming the pending release and how to approve or reject it
+ */
+export async function assertNoPendingRelease(serviceName: string, config: ServiceConfig, deployRepoPath: string): Promise<void> {
+  const pending = await readPendingRelease(config);
+  if (pending) {
+    throw new Error(`${serviceName} has a release waiting for approval: ${pending.id} (requested by ${pending.requestedBy}). ` +
+      `Approve it (gpd approve ${serviceName} ${pending.id}) or reject it (gpd approve ${serviceName} ${pending.id} --reject) first.`);
+  }
+  
+  const requested = readRequestedRelease(deployRepoPath);
+  if (!requested) return;
+  let deployed = false;
+  try {
+    // origin is the primary server (see ensureRemotes)
+    deployed = isAncestor(deployRepoPath, requested.commitHash, gitFetchRef(deployRepoPath, 'origin', `refs/heads/${requested.branch}`));
+  } catch {
+    // The branch doesn't exist yet: the first release was never pushed
+  }
+  if (deployed) {
+    removeRequestedRelease(deployRepoPath);
+  } else if (dropReleaseCommit(deployRepoPath, requested)) {
+    printWarning(chalk.yellow(`⚠ Release ${requested.id} of ${serviceName} was not deployed (rejected or rolled back), ` +
+      `its commit is undone and its changes are staged again`));
+  }
+}
+
+/**
+ * Name and email of an identity ("Jane Doe <jane@example.com>", or just a name)
+ */
+function parseIdentity(identity: string): { name: string; email?: string } {
+  const match = identity.match(/^(.*?)\s*<([^>]*)>$/);
+  return match ? { name: match[1], email: match[2] } : { name: identity };
+}
+
+/**
+ * Check if two identities may be the same person (same name or same email, case-insensitive)
+ */
+export function isSameIdentity(a: string, b: string): boolean {
+  const first = parseIdentity(a);
+  const second = parseIdentity(b);
+  if (first.name.toLowerCase() === second.name.toLowerCase()) return true;
+  return !!first.email && first.email.toLowerCase() === second.email?.toLowerCase();
+}
@@ -0,0 +1,193 @@
+import { existsSync, readFileSync, writeFileSync, readdirSync, statSync, lstatSync, readlinkSync, rmSync, rmdirSync } from 'fs';
+import { join, relative, sep, dirname } from 'path';
+import { createHash } from 'crypto';
+import { hasGlob, globToRegExp, globBase, parseIgnoreRules, isIgnored } from './glob.js';
+import { copy } from './files.js';
+
+/**
+ * Ignore file in sourceDir (gitignore syntax), applied to all artifacts
+ */
+export const GPDIGNORE_FILENAME = '.gpdignore';
+
+/**
+ * List of files staged last time, kept in the deploy repo's .git dir (not committed)
+ */
+const STAGED_LIST_PATH = join('.git', 'gpd-staged.json');
+
+export interface ResolvedArtifacts {
+  /** Files to stage, relative to sourceDir (sorted, forward slashes) */
+  files: string[];
+  /** Artifact entries that matched at least one file */
+  matched: string[];
+  /** Artifact entries that matched nothing */
+  missing: string[];
+}
+
+/**
+ * List all files below a directory (relative to root, forward slashes)
+ * Doesn't descend into .git or the skipped directories; symlinks are listed as files.
+ */
+function walkFiles(root: string, dir: string, skipDirs: string[], files: string[]): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== '.git' && !skipDirs.includes(path)) {
+        walkFiles(root, path, skipDirs, files);
+      }
+    } else {
+      files.push(relative(root, path).split(sep).join('/'));
+    }
+  }
+}
+
+/**
+ * Read .gpdignore lines from sourceDir (empty if there is none)
+ */
+export function readIgnoreFile(sourceDir: string): string[] {
+  const path = join(sourceDir, GPDIGNORE_FILENAME);
+  return existsSync(path) ? readFileSync(path, 'utf-8').split(/\r?\n/) : [];
+}
+
+/**
+ * List the files an artifact entry matches (relative to sourceDir)
+ * A plain path matches the file, or everything below the directory.
+ */
+export function matchArtifact(sourceDir: string, artifact: string, skipDirs: string[] = []): string[] {
+  const pattern = artifact.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+  const base = hasGlob(pattern) ? globBase(pattern) : pattern;
+  const basePath = join(sourceDir, base);
+  
+  const candidates: string[] = [];
+  if (existsSync(basePath) && statSync(basePath).isDirectory()) {
+    walkFiles(sourceDir, basePath, skipDirs, candidates);
+  } else if (existsSync(basePath)) {
+    candidates.push(base);
+  }
+  
+  const regex = hasGlob(pattern) ? globToRegExp(pattern) : undefined;
+  return regex ? candidates.filter(file => regex.test(file)) : candidates;
+}
+
+/**
+ * Resolve artifact entries to the exact set of files to stage
+ * Entries are plain paths (a file, or a directory with everything below it) or glob patterns,
+ * relative to sourceDir. Files matching `exclude` or .gpdignore are left out.
+ * @param skipDirs Absolute directories never staged (e.g. the deploy repo inside sourceDir)
+ */
+export function resolveArtifacts(sourceDir: string, artifacts: string[], exclude: string[] = [], skipDirs: string[] = []): ResolvedArtifacts {
+  const rules = parseIgnoreRules([...readIgnoreFile(sourceDir), ...exclude]);
+  const files = new Set<string>();
+  const matched: string[] = [];
+  const missing: string[] = [];
+  
+  for (const artifact of artifacts) {
+    const selected = matchArtifact(sourceDir, artifact, skipDirs).filter(file => !isIgnored(file, rules));
+    
+    if (selected.length > 0) {
+      selected.forEach(file => files.add(file));
+      matched.push(artifact);
+    } else {
+      missing.push(artifact);
+    }
+  }
+  
+  return { files: [...files].sort(), matched, missing };
+}
+
+/**
+ * Changes needed to bring the deploy repo in line with the artifacts
+ */
+export interface SyncPlan {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  unchanged: number;
+}
+
+function hashFile(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+/**
+ * Compare two files by content (symlinks by target), cheapest checks first
+ */
+function sameContent(src: string, dest: string): boolean {
+  const srcStat = lstatSync(src);
+  const destStat = lstatSync(dest);
+  if (srcStat.isSymbolicLink() || destStat.isSymbolicLink()) {
+    return srcStat.isSymbolicLink() && destStat.isSymbolicLink() && readlinkSync(src) === readlinkSync(dest);
+  }
+  if (srcStat.size !== destStat.size || srcStat.mode !== destStat.mode) {
+    return false;
+  }
+  return hashFile(src) === hashFile(dest);
+}
+
+/**
+ * Files staged by the previous `gpd stage` (empty for a new deploy repo)
+ */
+export function readStagedList(deployRepoPath: string): string[] {
+  const path = join(deployRepoPath, STAGED_LIST_PATH);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as string[] : [];
+}
+
+/**
+ * Plan an incremental sync of files from sourceDir into the deploy repo
+ * Deleted are files staged last time, or below a top-level artifact dir, that are no longer in the set.
+ */
+export function planSync(sourceDir: string, deployRepoPath: string, files: string[]): SyncPlan {
+  const plan: SyncPlan = { added: [], modified: [], deleted: [], unchanged: 0 };
+  
+  for (const file of files) {
+    const dest = join(deployRepoPath, file);
+    if (!existsSync(dest)) {
+      plan.added.push(file);
+    } else if (!sameContent(join(sourceDir, file), dest)) {
+      plan.modified.push(file);
+    } else {
+      plan.unchanged++;
+    }
+  }
+  
+  const wanted = new Set(files);
+  const existing = new Set(readStagedList(deployRepoPath));
+  for (const entry of new Set(files.map(file => file.split('/')[0]))) {
+    const path = join(deployRepoPath, entry);
+    if (existsSync(path) && statSync(path).isDirectory()) {
+      const found: string[] = [];
+      walkFiles(deployRepoPath, path, [], found);
+      found.forEach(file => existing.add(file));
+    }
+  }
+  plan.deleted = [...existing].filter(file => !wanted.has(file) && existsSync(join(deployRepoPath, file))).sort();
+  
+  return plan;
+}
+
+/**
+ * Remember the staged file set (deleted from the deploy repo when they are no longer staged)
+ */
+export function writeStagedList(deployRepoPath: string, files: string[]): void {
+  writeFileSync(join(deployRepoPath, STAGED_LIST_PATH), JSON.stringify(files) + '\n');
+}
+
+/**
+ * Apply a sync plan and remember the staged file set
+ */
+export function applySync(sourceDir: string, deployRepoPath: string, plan: SyncPlan, files: string[]): void {
+  for (const file of [...plan.added, ...plan.modified]) {
+    copy(join(sourceDir, file), join(deployRepoPath, file));
+  }
+  
+  for (const file of plan.deleted) {
+    rmSync(join(deployRepoPath, file), { force: true });
+    // Remove directories left empty
+    let dir = dirname(join(deployRepoPath, file));
+    while (dir !== deployRepoPath && readdirSync(dir).length === 0) {
+      rmdirSync(dir);
+      dir = dirname(dir);
+    }
+  }
+  
+  writeStagedList(deployRepoPath, files);
+}
@@ -0,0 +1,186 @@
+import chalk from 'chalk';
+import { execSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { userInfo } from 'os';
+import { BUILD_INFO_FILENAME, type BuildConfig, type BuildInfo } from '../config/types.js';
+import { getGitDir, getWorkingTreeHash, getCurrentCommit, getCurrentBranch, isWorkingTreeDirty, getGitUser } from './git.js';
+import { matchArtifact } from './artifacts.js';
+import { globBase, hasGlob } from './glob.js';
+import { print, isTextOutput } from './output.js';
+
+/**
+ * Last successful build per service, kept in the source repo's .git dir
+ */
+const BUILD_CACHE_FILENAME = 'gpd-build-cache.json';
+
+interface BuildCacheEntry {
+  key: string;
+  builtAt: string;
+}
+
+export interface BuildResult {
+  /** Build was skipped because the source tree is unchanged */
+  cached: boolean;
+  durationMs: number;
+}
+
+/**
+ * Deploy repo path relative to sourceDir, if it lives inside it (so it can be left out of source checks)
+ */
+export function getDeployRepoExclude(sourceDir: string, deployRepoPath: string): string[] {
+  const deployRepoRelative = relative(sourceDir, deployRepoPath);
+  return deployRepoRelative.startsWith('..') ? [] : [deployRepoRelative.split(sep).join('/')];
+}
+
+/**
+ * Cache key: hash of the source tree (without outputs and deploy repo) plus the build settings
+ * @returns undefined if sourceDir is not in a git repo (no caching)
+ */
+export function getBuildCacheKey(build: BuildConfig, sourceDir: string, deployRepoPath: string): string | undefined {
+  const excludes = (build.outputs || [])
+    .map(output => hasGlob(output) ? globBase(output) : output)
+    .filter(base => base !== '');
+  excludes.push(...getDeployRepoExclude(sourceDir, deployRepoPath));
+  
+  const tree = getWorkingTreeHash(sourceDir, excludes);
+  if (!tree) return undefined;
+  
+  const settings = { tree, command: build.command, cwd: build.cwd, env: build.env };
+  return createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+function readBuildCache(gitDir: string): Record<string, BuildCacheEntry> {
+  const path = join(gitDir, BUILD_CACHE_FILENAME);
+  try {
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Expected outputs that matched no files
+ */
+export function findMissingOutputs(build: BuildConfig, sourceDir: string): string[] {
+  return (build.outputs || []).filter(output => matchArtifact(sourceDir, output).length === 0);
+}
+
+interface BuildCacheState {
+  gitDir?: string;
+  key?: string;
+  /** Last successful build matches the current source tree and its outputs still exist */
+  hit: boolean;
+}
+
+function getBuildCacheState(serviceName: string, build: BuildConfig, sourceDir: string, deployRepoPath: string): BuildCacheState {
+  const gitDir = getGitDir(sourceDir);
+  const key = gitDir && build.cache !== false ? getBuildCacheKey(build, sourceDir, deployRepoPath) : undefined;
+  if (!gitDir || !key) {
+    return { gitDir, key, hit: false };
+  }
+  const hit = readBuildCache(gitDir)[serviceName]?.key === key && findMissingOutputs(build, sourceDir).length === 0;
+  return { gitDir, key, hit };
+}
+
+/**
+ * Check whether the last successful build is still valid for the current source tree
+ */
+export function isBuildCached(serviceName: string, build: BuildConfig, sourceDir: string, deployRepoPath: string): boolean {
+  return getBuildCacheState(serviceName, build, sourceDir, deployRepoPath).hit;
+}
+
+/**
+ * Run the build step of a service (unless cached)
+ * @param force Rebuild even if the source tree is unchanged
+ * @throws Error if the command fails or expected outputs are missing afterwards
+ */
+export function runBuild(serviceName: string, build: BuildConfig, sourceDir: string, deployRepoPath: string, force: boolean = false): BuildResult {
+  const start = Date.now();
+  const { gitDir, key, hit } = getBuildCacheState(serviceName, build, sourceDir, deployRepoPath);
+  
+  if (hit && !force) {
+    print(chalk.gray(`  Build skipped: source unchanged since last build (use --rebuild to force)`));
+    return { cached: true, durationMs: Date.now() - start };
+  }
+  
+  const cwd = join(sourceDir, build.cwd || '.');
+  print(chalk.blue(`  Building: ${build.command}`));
+  try {
+    execSync(build.command, {
+      cwd,
+      env: { ...process.env, ...build.env },
+      stdio: isTextOutput() ? 'inherit' : 'pipe'
+    });
+  } catch (error: any) {
+    const details = error.stderr?.toString().trim();
+    throw new Error(`Build failed (exit code ${error.status ?? 'unknown'}): ${build.command}${details ? `\n${details}` : ''}`);
+  }
+  
+  const missing = findMissingOutputs(build, sourceDir);
+  if (missing.length > 0) {
+    throw new Error(`Build finished, but expected outputs are missing: ${missing.join(', ')}`);
+  }
+  
+  if (gitDir && key) {
+    const cache = readBuildCache(gitDir);
+    cache[serviceName] = { key, builtAt: new Date().toISOString() };
+    writeFileSync(join(gitDir, BUILD_CACHE_FILENAME), JSON.stringify(cache, null, 2) + '\n');
+  }
+  
+  const durationMs = Date.now() - start;
+  print(chalk.green(`  ✓ Built in ${(durationMs / 1000).toFixed(1)}s`));
+  return { cached: false, durationMs };
+}
+
+/**
+ * Collect build metadata for the artifacts staged from sourceDir
+ */
+export function createBuildInfo(sourceDir: string, deployRepoPath: string): BuildInfo {
+  const isRepo = getGitDir(sourceDir) !== undefined;
+  const sourceCommit = isRepo ? getCurrentCommit(sourceDir) || undefined : undefined;
+  const sourceBranch = sourceCommit ? getCurrentBranch(sourceDir) : undefined;
+  const require = createRequire(import.meta.url);
+  
+  return {
+    sourceCommit,
+    sourceBranch: sourceBranch && sourceBranch !== 'HEAD' ? sourceBranch : undefined,
+    dirty: isRepo && isWorkingTreeDirty(sourceDir, getDeployRepoExclude(sourceDir, deployRepoPath)),
+    builtAt: new Date().toISOString(),
+    gpdVersion: require('../../package.json').version,
+    deployer: (isRepo && getGitUser(sourceDir)) || userInfo().username
+  };
+}
+
+/**
+ * Parse gpd-build.json contents
+ * @returns undefined if empty or not valid JSON
+ */
+export function parseBuildInfo(content: string): BuildInfo | undefined {
+  if (!content.trim()) return undefined;
+  try {
+    const info = JSON.parse(content);
+    return info && typeof info === 'object' && !Array.isArray(info) ? info : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the build metadata staged in a deploy repo
+ */
+export function readBuildInfo(deployRepoPath: string): BuildInfo | undefined {
+  const path = join(deployRepoPath, BUILD_INFO_FILENAME);
+  return existsSync(path) ? parseBuildInfo(readFileSync(path, 'utf-8')) : undefined;
+}
+
+/**
+ * Short source commit for messages (e.g. "a1b2c3d" or "a1b2c3d-dirty")
+ * @returns undefined if the source commit is unknown
+ */
+export function formatSourceCommit(info: BuildInfo): string | undefined {
+  if (!info.sourceCommit) return undefined;
+  return info.sourceCommit.substring(0, 7) + (info.dirty ? '-dirty' : '');
+}
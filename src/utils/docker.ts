@@ -0,0 +1,19 @@
+import type { InstallConfig } from '../config/types.js';
+
+/**
+ * Default compose file name (relative to target dir)
+ */
+export const DEFAULT_COMPOSE_FILE = 'docker-compose.yml';
+
+/**
+ * Build a `docker compose` command for a service
+ * The compose project name is the process name, so containers are stable across deploys.
+ * Run from the target dir (paths are relative to it).
+ * @param args Compose subcommand and arguments (e.g., "up -d")
+ * @param options.envFile Pass the generated .env via --env-file
+ */
+export function buildComposeCommand(config: InstallConfig, args: string, options: { envFile?: boolean } = {}): string {
+  const composeFile = config.dockerComposeFile || DEFAULT_COMPOSE_FILE;
+  const envFile = options.envFile ? ' --env-file .env' : '';
+  return `docker compose -p ${config.processName} -f ${composeFile}${envFile} ${args}`;
+}
@@ -1,4 +1,6 @@
-import { exec, execOutput } from './shell.js';
+import { execSync } from 'child_process';
+import { join } from 'path';
+import { exec, execAsync, execOutput } from './shell.js';
 
 /**
  * Git archive from bare repo
@@ -34,6 +36,21 @@ export function gitPush(repoDir: string, remote: string = 'origin', branch: stri
   exec(`git push ${remote} ${branch} --tags`, { cwd: repoDir });
 }
 
+/**
+ * Push options as git push arguments (the receiving repo must set receive.advertisePushOptions)
+ */
+function formatPushOptions(pushOptions: string[]): string {
+  return pushOptions.map(option => `-o ${option} `).join('');
+}
+
+/**
+ * Git push with tags (async, output captured - used for parallel pushes)
+ * @param pushOptions Passed to the server's hooks (git push -o), e.g. the deploy lock id
+ */
+export async function gitPushAsync(repoDir: string, remote: string = 'origin', branch: string = 'main', pushOptions: string[] = []): Promise<void> {
+  await execAsync(`git push ${formatPushOptions(pushOptions)}${remote} ${branch} --tags`, { cwd: repoDir });
+}
+
 /**
  * Get current branch name
  */
@@ -52,6 +69,53 @@ export function getLatestTag(repoDir: string): string | null {
   }
 }
 
+/**
+ * Check whether a tag exists
+ */
+export function tagExists(repoDir: string, tag: string): boolean {
+  return execOutput(`git rev-parse --verify -q "refs/tags/${tag}"`, repoDir) !== '';
+}
+
+/**
+ * List tag names, optionally filtered by a glob (e.g. "deploy-*")
+ */
+export function listTags(repoDir: string, pattern?: string): string[] {
+  const output = execOutput(`git tag --list${pattern ? ` "${pattern}"` : ''}`, repoDir);
+  return output.split('\n').filter(tag => tag.trim());
+}
+
+/**
+ * Create an annotated tag on HEAD
+ * Notes are passed on stdin, so they need no shell quoting.
+ * @throws Error if git refuses the tag (e.g. it already exists)
+ */
+export function gitTag(repoDir: string, tag: string, notes: string): void {
+  execSync(`git tag -a "${tag}" -F -`, { cwd: repoDir, input: notes, stdio: 'pipe' });
+}
+
+/**
+ * Delete a local tag
+ */
+export function gitDeleteTag(repoDir: string, tag: string): void {
+  execSync(`git tag -d "${tag}"`, { cwd: repoDir, stdio: 'pipe' });
+}
+
+/**
+ * Annotations of all annotated tags (tag name -> release notes)
+ */
+export function getTagNotes(repoDir: string): Record<string, string> {
+  const output = execOutput('git for-each-ref refs/tags --format="%(refname:short)%00%(objecttype)%00%(contents)%00"', repoDir);
+  const fields = output.split('\0');
+  const notes: Record<string, string> = {};
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const tag = fields[i].trim();
+    if (fields[i + 1] === 'tag') {
+      notes[tag] = fields[i + 2].trim();
+    }
+  }
+  return notes;
+}
+
 /**
  * Check if repo has uncommitted changes
  */
@@ -132,7 +196,7 @@ export function getCommitLogDetailed(repoDir: string, count: number = 10): Array
  * Get current commit hash
  */
 export function getCurrentCommit(repoDir: string): string {
-  return execOutput('git rev-parse HEAD', repoDir);
+  return execOutput('git rev-parse --verify -q HEAD', repoDir);
 }
 
 /**
@@ -157,11 +221,124 @@ export function getLastCommitMessage(repoDir: string): string {
   }
 }
 
+/**
+ * Read a file from a commit (works in bare repos)
+ */
+export function gitShowFile(repoDir: string, ref: string, path: string): string {
+  return execOutput(`git --git-dir="${repoDir}" show ${ref}:${path}`);
+}
+
 /**
  * Get commit hash by reference (tag, branch, HEAD~n, etc.)
+ * Annotated tags resolve to the commit they point at.
+ * @returns Empty string if the reference does not exist
  */
 export function getCommitByRef(repoDir: string, ref: string): string {
-  return execOutput(`git rev-parse ${ref}`, repoDir);
+  return execOutput(`git rev-parse --verify -q "${ref}^{commit}"`, repoDir);
+}
+
+/**
+ * Absolute .git directory of the repo containing dir
+ * @returns undefined if dir is not inside a git repo
+ */
+export function getGitDir(dir: string): string | undefined {
+  return execOutput('git rev-parse --absolute-git-dir', dir) || undefined;
+}
+
+/**
+ * Tree hash of a directory's working tree (tracked and untracked files, minus .gitignore'd ones)
+ * Staged into a temporary index, so the repo's own index is untouched.
+ * @param excludes Paths relative to dir that are left out (e.g. build outputs)
+ * @returns Tree hash, or undefined if dir is not inside a git repo
+ */
+export function getWorkingTreeHash(dir: string, excludes: string[] = []): string | undefined {
+  const gitDir = getGitDir(dir);
+  if (!gitDir) return undefined;
+  
+  const options = { cwd: dir, silent: true, env: { GIT_INDEX_FILE: join(gitDir, 'gpd-tree-index') } };
+  const hasHead = execOutput('git rev-parse --verify -q HEAD', dir) !== '';
+  exec(hasHead ? 'git read-tree HEAD' : 'git read-tree --empty', options);
+  const pathspecs = ['.', ...excludes.map(path => `":(exclude)${path}"`)].join(' ');
+  exec(`git add -A -- ${pathspecs}`, options);
+  const tree = exec('git write-tree', options);
+  
+  const prefix = execOutput('git rev-parse --show-prefix', dir).replace(/\/$/, '');
+  return prefix ? execOutput(`git rev-parse ${tree}:${prefix}`, dir) : tree;
+}
+
+/**
+ * Check for uncommitted changes (including untracked files) under dir
+ * @param excludes Paths relative to dir that are ignored
+ */
+export function isWorkingTreeDirty(dir: string, excludes: string[] = []): boolean {
+  const pathspecs = ['.', ...excludes.map(path => `":(exclude)${path}"`)].join(' ');
+  return execOutput(`git status --porcelain -- ${pathspecs}`, dir) !== '';
+}
+
+/**
+ * Upstream of the current branch (e.g. "origin/main")
+ * @returns undefined if none is configured or HEAD is detached
+ */
+export function getUpstreamBranch(repoDir: string): string | undefined {
+  return execOutput('git rev-parse --abbrev-ref --symbolic-full-name "@{u}"', repoDir) || undefined;
+}
+
+/**
+ * Check whether a remote-tracking branch contains a commit (as of the last fetch)
+ */
+export function isCommitOnRemoteBranch(repoDir: string, commit: string, remoteBranch: string): boolean {
+  const branches = execOutput(`git branch -r --contains ${commit} --format="%(refname:short)"`, repoDir);
+  return branches.split('\n').some(branch => branch.trim() === remoteBranch);
+}
+
+/**
+ * Configured git identity ("Name <email>") of the repo containing dir
+ * @returns undefined if no user.name is configured
+ */
+export function getGitUser(dir: string): string | undefined {
+  const name = execOutput('git config user.name', dir);
+  const email = execOutput('git config user.email', dir);
+  if (!name) return undefined;
+  return email ? `${name} <${email}>` : name;
+}
+
+/**
+ * Author name git would record for a commit in dir (honours GIT_AUTHOR_NAME)
+ */
+export function getAuthorName(dir: string): string | undefined {
+  const ident = execOutput('git var GIT_AUTHOR_IDENT', dir);
+  return ident.match(/^(.*) <[^>]*> \d+ [+-]\d{4}$/)?.[1] || undefined;
+}
+
+/**
+ * Replace the index and working tree with the tree of a commit from another (local) repo
+ * HEAD is left alone, so the next commit records the new tree on top of the current history.
+ */
+export function gitImportTree(repoDir: string, sourceRepo: string, commit: string): void {
+  execSync(`git fetch -q "${sourceRepo}" ${commit}`, { cwd: repoDir, stdio: 'pipe' });
+  gitRestoreTree(repoDir, commit);
+}
+
+/**
+ * Replace the index and working tree with the tree of a commit, leaving HEAD alone
+ */
+export function gitRestoreTree(repoDir: string, commit: string): void {
+  execSync(`git read-tree -u --reset ${commit}`, { cwd: repoDir, stdio: 'pipe' });
+}
+
+/**
+ * Put the index and working tree back to HEAD (emptied if HEAD is unborn)
+ */
+export function gitRestoreHead(repoDir: string): void {
+  // Git's empty tree stands in for an unborn HEAD
+  gitRestoreTree(repoDir, getCommitByRef(repoDir, 'HEAD') || '4b825dc642cb6eb9a060e54bf8d69288fbee4904');
+}
+
+/**
+ * Files in a commit's tree (relative paths)
+ */
+export function listTreeFiles(repoDir: string, ref: string): string[] {
+  return execOutput(`git ls-tree -r --name-only ${ref}`, repoDir).split('\n').filter(file => file);
 }
 
 /**
@@ -171,6 +348,14 @@ export function gitResetHard(repoDir: string, commit: string): void {
   exec(`git reset --hard ${commit}`, { cwd: repoDir });
 }
 
+/**
+ * Undo the last commit, keeping its changes staged (HEAD becomes unborn if it was the first commit)
+ */
+export function gitUndoCommit(repoDir: string): void {
+  const parent = execOutput('git rev-parse --verify -q HEAD~1', repoDir);
+  exec(parent ? `git reset -q --soft ${parent}` : 'git update-ref -d HEAD', { cwd: repoDir, silent: true });
+}
+
 /**
  * Force push to remote
  */
@@ -178,6 +363,71 @@ export function gitPushForce(repoDir: string, remote: string = 'origin', branch:
   exec(`git push --force ${remote} ${branch}`, { cwd: repoDir });
 }
 
+/**
+ * Force push to remote (async, output captured - used for parallel pushes)
+ */
+export async function gitPushForceAsync(repoDir: string, remote: string = 'origin', branch: string = 'main'): Promise<void> {
+  await execAsync(`git push --force ${remote} ${branch}`, { cwd: repoDir });
+}
+
+/**
+ * Force push a commit as a remote's branch, without touching the local branch (async)
+ * @param pushOptions Passed to the server's hooks (git push -o), e.g. the deploy lock id
+ */
+export async function gitPushCommitForceAsync(repoDir: string, remote: string, commit: string, branch: string = 'main', pushOptions: string[] = []): Promise<void> {
+  await execAsync(`git push --force ${formatPushOptions(pushOptions)}${remote} ${commit}:refs/heads/${branch}`, { cwd: repoDir });
+}
+
+/**
+ * Delete a tag on a remote (async, output captured)
+ */
+export async function gitDeleteRemoteTagAsync(repoDir: string, remote: string, tag: string, pushOptions: string[] = []): Promise<void> {
+  await execAsync(`git push ${formatPushOptions(pushOptions)}${remote} ":refs/tags/${tag}"`, { cwd: repoDir });
+}
+
+/**
+ * Point a ref of a remote at a commit or tag, replacing what it pointed at (async, output captured)
+ */
+export async function gitPushRefAsync(repoDir: string, remote: string, source: string, ref: string): Promise<void> {
+  await execAsync(`git push ${remote} "+${source}:${ref}"`, { cwd: repoDir });
+}
+
+/**
+ * Fetch a single ref of a remote (without creating a local ref)
+ * @returns Object the ref points to (a commit or an annotated tag)
+ * @throws Error if the remote has no such ref
+ */
+export function gitFetchRef(repoDir: string, remote: string, ref: string): string {
+  execSync(`git fetch -q ${remote} "${ref}"`, { cwd: repoDir, stdio: 'pipe' });
+  return execOutput('git rev-parse FETCH_HEAD', repoDir);
+}
+
+/**
+ * Check if a commit is an ancestor of (or the same as) another
+ */
+export function isAncestor(repoDir: string, commit: string, descendant: string): boolean {
+  try {
+    execSync(`git merge-base --is-ancestor ${commit} ${descendant}`, { cwd: repoDir, stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Move the current branch forward to a commit that contains it (an unborn branch starts at the commit)
+ */
+export function gitFastForward(repoDir: string, commit: string): void {
+  execSync(`git merge -q --ff-only ${commit}`, { cwd: repoDir, stdio: 'pipe' });
+}
+
+/**
+ * Create a tag that refers to an existing annotated tag object (e.g. one fetched from a remote)
+ */
+export function gitImportTag(repoDir: string, tag: string, tagObject: string): void {
+  execSync(`git update-ref "refs/tags/${tag}" ${tagObject}`, { cwd: repoDir, stdio: 'pipe' });
+}
+
 /**
  * Initialize bare repo
  */
@@ -0,0 +1,118 @@
+/**
+ * Minimal glob matching for artifact patterns and .gpdignore
+ * Paths are relative, with forward slashes.
+ * - `*` matches within a path segment, `?` one character, `[abc]`/`[!abc]` a character class
+ * - `**` as a whole path segment matches any number of segments
+ * - `{a,b}` matches either alternative
+ */
+
+/**
+ * Check whether a pattern contains glob syntax (otherwise it's a plain path)
+ */
+export function hasGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+function globToRegExpSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+    
+    if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && pattern[i + 2] === '/') {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && i + 2 === pattern.length) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const chars = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += chars.startsWith('!') ? `[^${chars.slice(1)}]` : `[${chars}]`;
+      i = end;
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i);
+      const alternatives = pattern.slice(i + 1, end).split(',').map(globToRegExpSource);
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`);
+}
+
+/**
+ * Static directory prefix of a pattern (segments before the first one with glob syntax)
+ * e.g. `dist/assets/{js,css}` -> `dist/assets`
+ */
+export function globBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex(segment => hasGlob(segment));
+  return segments.slice(0, index === -1 ? segments.length : index).join('/');
+}
+
+/**
+ * A gitignore-style rule
+ */
+export interface IgnoreRule {
+  regex: RegExp;
+  /** `!pattern`: re-include a previously excluded path */
+  negate: boolean;
+  /** `pattern/`: only matches directories */
+  dirOnly: boolean;
+}
+
+/**
+ * Parse gitignore-style patterns (.gpdignore lines or `exclude` entries)
+ * Patterns without a slash match at any depth, a leading slash anchors to the source dir.
+ * Blank lines and `#` comments are skipped.
+ */
+export function parseIgnoreRules(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    rules.push({ regex: globToRegExp(anchored ? line : `**/${line}`), negate, dirOnly });
+  }
+  return rules;
+}
+
+/**
+ * Check whether a file is ignored
+ * A file is also ignored if one of its parent directories is (last matching rule wins).
+ */
+export function isIgnored(path: string, rules: IgnoreRule[]): boolean {
+  const segments = path.split('/');
+  let ignored = false;
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const candidate = segments.slice(0, depth).join('/');
+    const isDir = depth < segments.length;
+    for (const rule of rules) {
+      if ((isDir || !rule.dirOnly) && rule.regex.test(candidate)) {
+        ignored = !rule.negate;
+      }
+    }
+    if (ignored && isDir) return true;
+  }
+  return ignored;
+}
@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+import { loadConfig, getWorkspaceRoot, getSourceDir, getDeployRepoPath } from '../config/loader.js';
+import type { DeployConfig, ServiceConfig, SourceGuardsConfig } from '../config/types.js';
+import { getGitDir, getCurrentCommit, getCurrentBranch, getUpstreamBranch, isCommitOnRemoteBranch, isWorkingTreeDirty } from './git.js';
+import { getDeployRepoExclude } from './build.js';
+import { print, printWarning } from './output.js';
+
+/**
+ * Guards that apply to a service: those of its environment, overridden by the service's own
+ */
+export function getSourceGuards(config: DeployConfig, service: ServiceConfig): SourceGuardsConfig {
+  const environment = service.environment || 'production';
+  return { ...config.guards?.[environment], ...service.guards };
+}
+
+/**
+ * Check the source repo against the guards
+ * The deploy repo is ignored if it lives inside sourceDir.
+ * @returns Violations (empty if every guard passes)
+ */
+export function checkSourceGuards(guards: SourceGuardsConfig, sourceDir: string, deployRepoPath: string): string[] {
+  const branches = guards.branches || [];
+  if (!guards.requireClean && !guards.requirePushed && branches.length === 0) return [];
+  
+  if (!getGitDir(sourceDir)) {
+    return ['source is not a git repository'];
+  }
+  
+  const violations: string[] = [];
+  if (guards.requireClean && isWorkingTreeDirty(sourceDir, getDeployRepoExclude(sourceDir, deployRepoPath))) {
+    violations.push('source has uncommitted changes');
+  }
+  
+  const branch = getCurrentBranch(sourceDir);
+  const current = branch && branch !== 'HEAD' ? `branch ${branch}` : 'a detached HEAD';
+  if (branches.length > 0 && !branches.includes(branch)) {
+    violations.push(`source is on ${current}, expected ${branches.join(' or ')}`);
+  }
+  
+  if (guards.requirePushed) {
+    const commit = getCurrentCommit(sourceDir);
+    const upstream = getUpstreamBranch(sourceDir);
+    if (!commit) {
+      violations.push('source has no commits');
+    } else if (!upstream) {
+      violations.push(`source is on ${current} without an upstream to check against`);
+    } else if (!isCommitOnRemoteBranch(sourceDir, commit, upstream)) {
+      violations.push(`source commit ${commit.substring(0, 7)} is not pushed to ${upstream}`);
+    }
+  }
+  
+  return violations;
+}
+
+/**
+ * Check the source repo against the guards of the service's environment before deploy or release
+ * @returns Violations that were overridden with --allow-dirty (or would block, in a dry run)
+ * @throws Error if a guard fails without --allow-dirty
+ */
+export function enforceSourceGuards(config: ServiceConfig, options: { dryRun?: boolean; allowDirty?: boolean } = {}): string[] {
+  const workspaceRoot = getWorkspaceRoot();
+  const guards = getSourceGuards(loadConfig(), config);
+  const violations = checkSourceGuards(guards, getSourceDir(config, workspaceRoot), getDeployRepoPath(config, workspaceRoot));
+  if (violations.length === 0) return [];
+  
+  const environment = config.environment || 'production';
+  if (options.dryRun) {
+    print(chalk.yellow(`[DRY RUN] Source guards (${environment}) would ${options.allowDirty ? 'be overridden' : 'refuse the deploy'}:`));
+    violations.forEach(violation => print(chalk.yellow(`  ✗ ${violation}`)));
+    print('');
+    return violations;
+  }
+  
+  if (!options.allowDirty) {
+    throw new Error(`Source guards (${environment}) failed:\n${violations.map(v => `  - ${v}`).join('\n')}\n` +
+      'Commit and push first, or use --allow-dirty to deploy anyway.');
+  }
+  
+  for (const violation of violations) {
+    printWarning(chalk.yellow(`⚠ --allow-dirty: ${violation}`));
+  }
+  print('');
+  return violations;
+}
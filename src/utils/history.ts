@@ -0,0 +1,89 @@
+import { appendFileSync } from 'fs';
+import { join } from 'path';
+import { HISTORY_FILENAME, type HistoryEntry, type ServerConfig } from '../config/types.js';
+import { runSshCommand } from './shell.js';
+
+/**
+ * Filters for reading the deployment history
+ */
+export interface HistoryFilter {
+  since?: Date;
+  until?: Date;
+  outcome?: HistoryEntry['outcome'];
+  /** Newest N entries (after the other filters) */
+  limit?: number;
+}
+
+/**
+ * Append an entry to the history ledger in the target dir (server-side)
+ */
+export function appendHistoryEntry(targetDir: string, entry: HistoryEntry): void {
+  appendFileSync(join(targetDir, HISTORY_FILENAME), JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Parse ledger content (JSON lines)
+ * Lines that are not valid JSON (e.g. a truncated last write) are skipped
+ */
+export function parseHistory(content: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Filter history entries by date range and outcome
+ * @returns Matching entries, oldest first
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter = {}): HistoryEntry[] {
+  const matching = entries.filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    if (filter.outcome && entry.outcome !== filter.outcome) return false;
+    return true;
+  });
+  return filter.limit ? matching.slice(-filter.limit) : matching;
+}
+
+/**
+ * Parse a date filter: ISO date/time (2025-01-31, 2025-01-31T12:00) or relative age (30m, 12h, 7d, 2w)
+ * A plain date is the start of that day (UTC), or with endOfDay its last millisecond (for inclusive upper bounds)
+ * @throws Error if the value is neither
+ */
+export function parseDateFilter(value: string, options: { now?: Date; endOfDay?: boolean } = {}): Date {
+  const relative = value.match(/^(\d+)([mhdw])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2] as 'm' | 'h' | 'd' | 'w'];
+    return new Date((options.now ?? new Date()).getTime() - parseInt(relative[1], 10) * unitMs);
+  }
+  
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: "${value}". Use an ISO date (2025-01-31) or an age (12h, 7d, 2w)`);
+  }
+  if (options.endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(date.getTime() + 86_400_000 - 1);
+  }
+  return date;
+}
+
+/**
+ * Read the history ledger from a server via SSH
+ * @returns Entries, oldest first (empty if the server has no ledger yet)
+ */
+export async function fetchHistory(server: ServerConfig): Promise<HistoryEntry[]> {
+  const output = await runSshCommand(
+    server.host,
+    `cat '${server.targetDir}/${HISTORY_FILENAME}' 2>/dev/null || true`,
+    server.sshOptions
+  );
+  return parseHistory(output);
+}
@@ -0,0 +1,196 @@
+import { BUILD_INFO_FILENAME, type ServiceConfig, type ServerConfig, type BuildInfo } from '../config/types.js';
+import { runSshCommand } from './shell.js';
+import { checkHealthOnce, getHealthCheckUrl, readInstallStatus } from './verify.js';
+import { getSystemdUnitName } from './systemd.js';
+import { buildComposeCommand } from './docker.js';
+import { getAppDir } from './releases.js';
+import { parseBuildInfo } from './build.js';
+
+/**
+ * Process state as reported by the service's process manager
+ */
+export interface ProcessState {
+  state: 'running' | 'stopped' | 'errored' | 'unknown';
+  /** Seconds since the process (or oldest instance) started */
+  uptime?: number;
+  /** Raw state from the process manager (e.g. pm2 "online", systemd "activating") */
+  detail?: string;
+}
+
+/**
+ * Live state of a service on one server
+ */
+export interface ServerState {
+  server: string;
+  host: string;
+  reachable: boolean;
+  /** Commit last installed by `gpd install` (install status), else the bare repo HEAD */
+  commit?: string;
+  /** false: no successful install status confirms the commit (bare repo HEAD, or the install failed) */
+  commitVerified?: boolean;
+  /** Build metadata of the deployed commit (gpd-build.json) */
+  build?: BuildInfo;
+  process?: ProcessState;
+  /** Health check result (only if a health URL is configured) */
+  health?: { healthy: boolean; status?: number };
+  error?: string;
+}
+
+/**
+ * Build the remote command that reports process state
+ * Output is parsed by parseProcessState for the same process manager
+ */
+function buildProcessCommand(config: ServiceConfig, server: ServerConfig): string {
+  const appDir = getAppDir(config, server.targetDir);
+  switch (config.processManager) {
+    case 'gpdd':
+      return `pid=$(cat "${appDir}/.gpdd.pid" 2>/dev/null) && ps -o etimes= -p "$pid" || echo stopped`;
+    case 'systemd': {
+      const unit = getSystemdUnitName(config.processName);
+      return `systemctl is-active ${unit}; ps -o etimes= -p "$(systemctl show -p MainPID --value ${unit})" 2>/dev/null || true`;
+    }
+    case 'docker':
+      return `cd "${appDir}" && ${buildComposeCommand(config, 'ps --all --format json')} 2>/dev/null || true`;
+    default: {
+      const pm2Env = config.pm2Home ? `PM2_HOME=${config.pm2Home} ` : '';
+      return `${pm2Env}pm2 jlist 2>/dev/null || echo '[]'`;
+    }
+  }
+}
+
+/**
+ * Parse process state from the output of buildProcessCommand
+ * @param now Current time in ms (pm2 reports start time, not uptime)
+ */
+export function parseProcessState(config: ServiceConfig, output: string, now: number = Date.now()): ProcessState {
+  const trimmed = output.trim();
+  
+  switch (config.processManager) {
+    case 'gpdd': {
+      const uptime = parseInt(trimmed, 10);
+      return isNaN(uptime) ? { state: 'stopped' } : { state: 'running', uptime };
+    }
+    
+    case 'systemd': {
+      const [active, elapsed] = trimmed.split('\n').map(line => line.trim());
+      const uptime = parseInt(elapsed, 10);
+      const state = active === 'active' ? 'running'
+        : active === 'failed' ? 'errored'
+        : active === 'inactive' ? 'stopped'
+        : 'unknown';
+      return { state, uptime: state === 'running' && !isNaN(uptime) ? uptime : undefined, detail: active };
+    }
+    
+    case 'docker': {
+      // Newer compose versions print one JSON object per line, older ones a JSON array
+      const containers: Array<{ State?: string; Status?: string }> = [];
+      for (const line of trimmed.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          containers.push(...[JSON.parse(line)].flat());
+        } catch {
+          // Skip non-JSON output
+        }
+      }
+      if (containers.length === 0) return { state: 'stopped' };
+      const running = containers.filter(c => c.State === 'running').length;
+      const detail = `${running}/${containers.length} running`;
+      if (running === containers.length) return { state: 'running', detail };
+      return { state: containers.some(c => c.State === 'restarting' || c.State === 'dead') ? 'errored' : 'stopped', detail };
+    }
+    
+    default: {
+      // pm2 may print warnings before the JSON
+      let processes: Array<{ name: string; pm2_env?: { status?: string; pm_uptime?: number } }> = [];
+      try {
+        processes = JSON.parse(trimmed.substring(trimmed.indexOf('[')));
+      } catch {
+        return { state: 'unknown', detail: 'could not parse pm2 jlist' };
+      }
+      const instances = processes.filter(p => p.name === config.processName);
+      if (instances.length === 0) return { state: 'stopped', detail: 'not found' };
+      
+      const statuses = instances.map(p => p.pm2_env?.status || 'unknown');
+      const detail = [...new Set(statuses)].join(', ');
+      if (statuses.every(s => s === 'online')) {
+        const startedAt = Math.min(...instances.map(p => p.pm2_env?.pm_uptime || now));
+        return { state: 'running', uptime: Math.max(0, Math.round((now - startedAt) / 1000)), detail };
+      }
+      return { state: statuses.includes('errored') ? 'errored' : 'stopped', detail };
+    }
+  }
+}
+
+/**
+ * Commit deployed on a server, from the install status written by `gpd install`
+ * Without a status (older gpd, custom post-receive hook) this falls back to the bare repo HEAD,
+ * which moves before the install runs, so it is not verified.
+ * @returns commit undefined if nothing is deployed yet
+ */
+export async function getDeployedCommit(server: ServerConfig): Promise<{ commit?: string; verified: boolean }> {
+  const status = await readInstallStatus(server);
+  if (status) {
+    return { commit: status.commit, verified: status.success };
+  }
+  const output = await runSshCommand(server.host, `git --git-dir="${server.bareRepo}" rev-parse --verify -q HEAD || true`, server.sshOptions);
+  return { commit: output.trim() || undefined, verified: false };
+}
+
+/**
+ * Query the live state of a service on a server via SSH
+ * Commit, process state and health are queried in parallel, then the commit's build metadata; never throws
+ */
+export async function inspectServer(config: ServiceConfig, server: ServerConfig): Promise<ServerState> {
+  const state: ServerState = {
+    server: server.name || server.host,
+    host: server.host,
+    reachable: true
+  };
+  const healthUrl = getHealthCheckUrl(config);
+  
+  const [deployed, processOutput, healthStatus] = await Promise.allSettled([
+    getDeployedCommit(server),
+    runSshCommand(server.host, buildProcessCommand(config, server), server.sshOptions),
+    healthUrl ? checkHealthOnce(server, healthUrl) : Promise.resolve(undefined)
+  ]);
+  
+  if (deployed.status === 'rejected') {
+    return { ...state, reachable: false, error: deployed.reason?.message || String(deployed.reason) };
+  }
+  state.commit = deployed.value.commit;
+  state.commitVerified = deployed.value.commit ? deployed.value.verified : undefined;
+  
+  // Build metadata of the deployed commit (not necessarily the bare repo HEAD)
+  if (state.commit) {
+    const buildOutput = await runSshCommand(
+      server.host,
+      `git --git-dir="${server.bareRepo}" show ${state.commit}:${BUILD_INFO_FILENAME} 2>/dev/null || true`,
+      server.sshOptions
+    ).catch(() => '');
+    state.build = parseBuildInfo(buildOutput);
+  }
+  
+  state.process = processOutput.status === 'fulfilled'
+    ? parseProcessState(config, processOutput.value)
+    : { state: 'unknown', detail: processOutput.reason?.message };
+  
+  if (healthUrl) {
+    const status = healthStatus.status === 'fulfilled' ? healthStatus.value : undefined;
+    state.health = { healthy: status !== undefined && status >= 200 && status < 300, status };
+  }
+  
+  return state;
+}
+
+/**
+ * Format seconds as a short duration (e.g. 3d 4h, 2h 5m, 42s)
+ */
+export function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,236 @@
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { hostname, userInfo } from 'os';
+import { join } from 'path';
+import { LOCK_FILENAME, type DeployLock, type ServerConfig } from '../config/types.js';
+import { getAuthorName } from './git.js';
+import { formatUptime } from './inspect.js';
+import { runSshCommand } from './shell.js';
+
+/**
+ * Default seconds after which deploy and install locks count as stale
+ */
+export const DEFAULT_LOCK_TIMEOUT = 1800;
+
+/**
+ * Attempts to take a lock (a stale lock is broken between attempts)
+ */
+const MAX_LOCK_ATTEMPTS = 3;
+
+/**
+ * Push option that sends the deploy lock id to the server's install (git push -o gpd-lock=<id>)
+ */
+const LOCK_PUSH_OPTION = 'gpd-lock';
+
+/**
+ * Name recorded as lock holder: the git author name of dir (matches the deployer in the history ledger)
+ */
+export function getLockHolder(dir: string): string {
+  return getAuthorName(dir) || userInfo().username;
+}
+
+/**
+ * Create a new lock (not yet taken)
+ */
+export function createLock(
+  operation: DeployLock['operation'],
+  holder: string,
+  options: { timeout?: number; reason?: string } = {}
+): DeployLock {
+  return {
+    id: randomBytes(8).toString('hex'),
+    holder,
+    hostname: hostname(),
+    operation,
+    acquiredAt: new Date().toISOString(),
+    timeout: options.timeout,
+    reason: options.reason
+  };
+}
+
+/**
+ * Push options for a push made under a lock (see readPushedLockId)
+ */
+export function getLockPushOptions(lockId?: string): string[] {
+  return lockId ? [`${LOCK_PUSH_OPTION}=${lockId}`] : [];
+}
+
+/**
+ * Id of the deploy lock a push was made under (server-side)
+ * GPD_LOCK_ID is set by the post-receive hook, a custom hook passes the push options on as they are.
+ */
+export function readPushedLockId(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  if (env.GPD_LOCK_ID) return env.GPD_LOCK_ID;
+  const count = Number(env.GIT_PUSH_OPTION_COUNT) || 0;
+  for (let i = 0; i < count; i++) {
+    const option = env[`GIT_PUSH_OPTION_${i}`];
+    if (option?.startsWith(`${LOCK_PUSH_OPTION}=`)) return option.substring(LOCK_PUSH_OPTION.length + 1);
+  }
+  return undefined;
+}
+
+/**
+ * Parse lock file content
+ * @returns Lock, or undefined if the content is not a lock
+ */
+export function parseLock(content: string): DeployLock | undefined {
+  try {
+    const lock = JSON.parse(content);
+    return typeof lock?.id === 'string' && typeof lock.holder === 'string' ? lock : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check if a lock is older than its timeout (maintenance locks never go stale)
+ */
+export function isLockStale(lock: DeployLock, now: number = Date.now()): boolean {
+  if (lock.timeout === undefined) return false;
+  return now - new Date(lock.acquiredAt).getTime() > lock.timeout * 1000;
+}
+
+/**
+ * Describe who holds a lock, e.g. "alice (deploy from laptop since 2025-01-15 10:30:00, 3m ago)"
+ */
+export function formatLock(lock: DeployLock, now: number = Date.now()): string {
+  const since = lock.acquiredAt.replace('T', ' ').substring(0, 19);
+  const age = formatUptime(Math.max(0, Math.round((now - new Date(lock.acquiredAt).getTime()) / 1000)));
+  const reason = lock.reason ? `: ${lock.reason}` : '';
+  return `${lock.holder} (${lock.operation} from ${lock.hostname} since ${since}, ${age} ago)${reason}`;
+}
+
+/**
+ * Take the lock in the target dir (server-side)
+ * @returns undefined if taken, otherwise the lock that is held (stale locks are broken)
+ */
+export function acquireLocalLock(targetDir: string, lock: DeployLock): DeployLock | undefined {
+  const path = join(targetDir, LOCK_FILENAME);
+  for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS; attempt++) {
+    try {
+      writeFileSync(path, JSON.stringify(lock), { flag: 'wx' });
+      return undefined;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+    const held = readLocalLock(targetDir);
+    if (held && !isLockStale(held)) return held;
+    if (held) removeLocalLock(targetDir, held.id);
+  }
+  throw new Error(`Could not take the deployment lock ${path}`);
+}
+
+/**
+ * Read the lock in the target dir (server-side)
+ */
+export function readLocalLock(targetDir: string): DeployLock | undefined {
+  const path = join(targetDir, LOCK_FILENAME);
+  return existsSync(path) ? parseLock(readFileSync(path, 'utf-8')) : undefined;
+}
+
+/**
+ * Release the lock in the target dir if it is still the one with this id (server-side)
+ */
+export function removeLocalLock(targetDir: string, id: string): void {
+  if (readLocalLock(targetDir)?.id === id) {
+    rmSync(join(targetDir, LOCK_FILENAME), { force: true });
+  }
+}
+
+function getLockPath(server: ServerConfig): string {
+  return `${server.targetDir}/${LOCK_FILENAME}`;
+}
+
+/**
+ * Read the lock of a server via SSH
+ * @returns Lock, undefined if the server is not locked
+ * @throws Error if the lock file is not a lock
+ */
+export async function readServerLock(server: ServerConfig): Promise<DeployLock | undefined> {
+  const content = await runSshCommand(server.host, `cat "${getLockPath(server)}" 2>/dev/null || true`, server.sshOptions);
+  if (!content) return undefined;
+  const lock = parseLock(content);
+  if (!lock) {
+    throw new Error(`Unreadable lock file ${getLockPath(server)} on ${server.name || server.host} (remove it with gpd unlock --force)`);
+  }
+  return lock;
+}
+
+/**
+ * Take the lock on a server via SSH
+ * The lock file is created with noclobber, so only one of concurrent deploys gets it.
+ * The bare repo is set to accept push options, so pushes can send the lock id (see getLockPushOptions).
+ * @returns Stale lock that was broken to take the lock (if any)
+ * @throws Error naming the holder if the server is locked
+ */
+export async function acquireServerLock(server: ServerConfig, lock: DeployLock): Promise<DeployLock | undefined> {
+  const path = getLockPath(server);
+  const content = Buffer.from(JSON.stringify(lock)).toString('base64');
+  const command = `git --git-dir="${server.bareRepo}" config receive.advertisePushOptions true 2>/dev/null; ` +
+    `mkdir -p "${server.targetDir}" && if (set -C; echo '${content}' | base64 -d > "${path}") 2>/dev/null; ` +
+    `then echo acquired; else cat "${path}" 2>/dev/null; fi`;
+  
+  let broken: DeployLock | undefined;
+  for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS; attempt++) {
+    const output = await runSshCommand(server.host, command, server.sshOptions);
+    if (output === 'acquired') return broken;
+    
+    const held = output ? parseLock(output) : undefined;
+    if (output && !held) {
+      throw new Error(`Unreadable lock file ${path} on ${server.name || server.host} (remove it with gpd unlock --force)`);
+    }
+    if (held && !isLockStale(held)) {
+      throw new Error(`Deployment locked on ${server.name || server.host} by ${formatLock(held)}`);
+    }
+    if (held) {
+      await removeServerLock(server, held.id);
+      broken = held;
+    }
+  }
+  throw new Error(`Could not take the deployment lock on ${server.name || server.host}`);
+}
+
+/**
+ * Release the lock of a server via SSH
+ * @param id - Only remove the lock with this id (undefined: remove any lock)
+ */
+export async function removeServerLock(server: ServerConfig, id?: string): Promise<void> {
+  const path = getLockPath(server);
+  const command = id
+    ? `if grep -q '"id":"${id}"' "${path}" 2>/dev/null; then rm -f "${path}"; fi`
+    : `rm -f "${path}"`;
+  await runSshCommand(server.host, command, server.sshOptions);
+}
+
+/**
+ * Take the lock on every server of a service (one after another)
+ * If a server is locked, the locks already taken are released again.
+ * @returns Stale locks that were broken, by server
+ * @throws Error naming the holder if a server is locked
+ */
+export async function acquireServiceLock(servers: ServerConfig[], lock: DeployLock): Promise<Array<{ server: string; lock: DeployLock }>> {
+  const taken: ServerConfig[] = [];
+  const broken: Array<{ server: string; lock: DeployLock }> = [];
+  try {
+    for (const server of servers) {
+      const stale = await acquireServerLock(server, lock);
+      taken.push(server);
+      if (stale) {
+        broken.push({ server: server.name || server.host, lock: stale });
+      }
+    }
+  } catch (error) {
+    await releaseServiceLock(taken, lock);
+    throw error;
+  }
+  return broken;
+}
+
+/**
+ * Release the lock on every server of a service
+ * @returns Servers the lock could not be released on
+ */
+export async function releaseServiceLock(servers: ServerConfig[], lock: DeployLock): Promise<string[]> {
+  const results = await Promise.allSettled(servers.map(server => removeServerLock(server, lock.id)));
+  return servers.filter((_, index) => results[index].status === 'rejected').map(server => server.name || server.host);
+}
@@ -6,6 +6,7 @@ import type {
   DiscordNotificationConfig,
   WebhookNotificationConfig 
 } from '../config/types.js';
+import { print, printWarning } from './output.js';
 
 /**
  * Send deployment notifications to all configured channels
@@ -29,18 +30,46 @@ export async function sendNotifications(
   }
 
   if (promises.length > 0) {
-    console.log(chalk.gray('  Sending notifications...'));
+    print(chalk.gray('  Sending notifications...'));
     await Promise.allSettled(promises);
   }
 }
 
+/**
+ * Format per-server rollout results (one line per server)
+ * Returns undefined for single-server deployments or when every server got the commit
+ */
+function formatServerResults(result: DeploymentResult): string | undefined {
+  const serverResults = result.serverResults;
+  if (!serverResults || serverResults.length === 0) return undefined;
+  if (serverResults.length === 1 && !serverResults[0].rolledBack) return undefined;
+  if (serverResults.every(r => r.status === 'deployed')) return undefined;
+  
+  const icons = { deployed: '✓', unhealthy: '✗', failed: '✗', skipped: '–' };
+  return serverResults
+    .map(r => {
+      const commit = r.commitHash ? ` @ ${r.commitHash.substring(0, 7)}` : '';
+      const rolledBack = r.rolledBack ? ' (rolled back)' : '';
+      return `${icons[r.status]} ${r.server}: ${r.status}${rolledBack}${commit}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Deployment status for message titles
+ */
+function formatStatus(result: DeploymentResult): string {
+  if (result.pendingApproval) return 'waiting for approval';
+  return result.rolledBack ? 'rolled back' : result.success ? 'succeeded' : 'failed';
+}
+
 /**
  * Build Slack message payload
  */
 function buildSlackPayload(config: SlackNotificationConfig, result: DeploymentResult): object {
-  const emoji = result.success ? ':white_check_mark:' : ':x:';
-  const status = result.success ? 'succeeded' : 'failed';
-  const color = result.success ? '#36a64f' : '#dc3545';
+  const emoji = result.pendingApproval ? ':hourglass:' : result.rolledBack ? ':rewind:' : result.success ? ':white_check_mark:' : ':x:';
+  const status = formatStatus(result);
+  const color = result.pendingApproval ? '#ffc107' : result.rolledBack ? '#ff9800' : result.success ? '#36a64f' : '#dc3545';
 
   const fields = [
     {
@@ -76,11 +105,76 @@ function buildSlackPayload(config: SlackNotificationConfig, result: DeploymentRe
   if (result.commitHash) {
     fields.push({
       title: 'Commit',
-      value: result.commitHash.substring(0, 7),
+      value: result.commitHash.substring(0, 7) + (result.tag ? ` (${result.tag})` : ''),
+      short: true
+    });
+  }
+
+  if (result.verified !== undefined) {
+    fields.push({
+      title: 'Health',
+      value: result.verified ? 'healthy' : 'unhealthy',
+      short: true
+    });
+  }
+
+  if (result.promotedFrom) {
+    fields.push({
+      title: 'Promoted from',
+      value: `${result.promotedFrom.service} ${result.promotedFrom.commit.substring(0, 7)}`,
+      short: true
+    });
+  }
+
+  if (result.revertedTo) {
+    fields.push({
+      title: 'Reverted to',
+      value: result.revertedTo.substring(0, 7),
       short: true
     });
   }
 
+  if (result.requestedBy) {
+    fields.push({
+      title: 'Requested by',
+      value: result.requestedBy,
+      short: true
+    });
+  }
+
+  if (result.approvedBy) {
+    fields.push({
+      title: 'Approved by',
+      value: result.approvedBy,
+      short: true
+    });
+  }
+
+  if (result.guardOverrides) {
+    fields.push({
+      title: 'Source guards overridden (--allow-dirty)',
+      value: result.guardOverrides.join('\n'),
+      short: false
+    });
+  }
+
+  if (result.freezeOverride) {
+    fields.push({
+      title: 'Deploy window overridden (--override-freeze)',
+      value: `${result.freezeOverride.violation}\nReason: ${result.freezeOverride.reason}`,
+      short: false
+    });
+  }
+
+  const serverResults = formatServerResults(result);
+  if (serverResults) {
+    fields.push({
+      title: `Rollout (${result.strategy || 'rolling'})`,
+      value: serverResults,
+      short: false
+    });
+  }
+
   const payload: Record<string, unknown> = {
     username: config.username || 'GPD',
     icon_emoji: ':rocket:',
@@ -125,12 +219,12 @@ async function sendSlackNotification(
     });
 
     if (!response.ok) {
-      console.log(chalk.yellow(`    ⚠ Slack notification failed: ${response.status}`));
+      printWarning(chalk.yellow(`    ⚠ Slack notification failed: ${response.status}`));
     } else {
-      console.log(chalk.green('    ✓ Slack notification sent'));
+      print(chalk.green('    ✓ Slack notification sent'));
     }
   } catch (error: any) {
-    console.log(chalk.yellow(`    ⚠ Slack notification error: ${error.message}`));
+    printWarning(chalk.yellow(`    ⚠ Slack notification error: ${error.message}`));
   }
 }
 
@@ -138,9 +232,10 @@ async function sendSlackNotification(
  * Build Discord message payload
  */
 function buildDiscordPayload(config: DiscordNotificationConfig, result: DeploymentResult): object {
-  const emoji = result.success ? '✅' : '❌';
-  const status = result.success ? 'succeeded' : 'failed';
-  const color = result.success ? 0x36a64f : 0xdc3545;
+  const emoji = result.pendingApproval ? '⏳' : result.rolledBack ? '⏪' : result.success ? '✅' : '❌';
+  const status = formatStatus(result);
+  const color = result.pendingApproval ? 0xffc107 : result.rolledBack ? 0xff9800 : result.success ? 0x36a64f : 0xdc3545;
+  const serverResults = formatServerResults(result);
 
   return {
     username: config.username || 'GPD',
@@ -153,7 +248,15 @@ function buildDiscordPayload(config: DiscordNotificationConfig, result: Deployme
           { name: 'Environment', value: result.environment || 'production', inline: true },
           { name: 'Servers', value: result.servers.join(', '), inline: false },
           ...(result.duration ? [{ name: 'Duration', value: `${result.duration}s`, inline: true }] : []),
-          ...(result.commitHash ? [{ name: 'Commit', value: result.commitHash.substring(0, 7), inline: true }] : [])
+          ...(result.commitHash ? [{ name: 'Commit', value: result.commitHash.substring(0, 7) + (result.tag ? ` (${result.tag})` : ''), inline: true }] : []),
+          ...(result.verified !== undefined ? [{ name: 'Health', value: result.verified ? 'healthy' : 'unhealthy', inline: true }] : []),
+          ...(result.promotedFrom ? [{ name: 'Promoted from', value: `${result.promotedFrom.service} ${result.promotedFrom.commit.substring(0, 7)}`, inline: true }] : []),
+          ...(result.revertedTo ? [{ name: 'Reverted to', value: result.revertedTo.substring(0, 7), inline: true }] : []),
+          ...(result.requestedBy ? [{ name: 'Requested by', value: result.requestedBy, inline: true }] : []),
+          ...(result.approvedBy ? [{ name: 'Approved by', value: result.approvedBy, inline: true }] : []),
+          ...(result.guardOverrides ? [{ name: 'Source guards overridden (--allow-dirty)', value: result.guardOverrides.join('\n'), inline: false }] : []),
+          ...(result.freezeOverride ? [{ name: 'Deploy window overridden (--override-freeze)', value: `${result.freezeOverride.violation}\nReason: ${result.freezeOverride.reason}`, inline: false }] : []),
+          ...(serverResults ? [{ name: `Rollout (${result.strategy || 'rolling'})`, value: serverResults, inline: false }] : [])
         ],
         footer: { text: 'git-push-deploy' },
         timestamp: new Date().toISOString()
@@ -180,12 +283,12 @@ async function sendDiscordNotification(
     });
 
     if (!response.ok) {
-      console.log(chalk.yellow(`    ⚠ Discord notification failed: ${response.status}`));
+      printWarning(chalk.yellow(`    ⚠ Discord notification failed: ${response.status}`));
     } else {
-      console.log(chalk.green('    ✓ Discord notification sent'));
+      print(chalk.green('    ✓ Discord notification sent'));
     }
   } catch (error: any) {
-    console.log(chalk.yellow(`    ⚠ Discord notification error: ${error.message}`));
+    printWarning(chalk.yellow(`    ⚠ Discord notification error: ${error.message}`));
   }
 }
 
@@ -209,11 +312,11 @@ async function sendWebhookNotification(
     });
 
     if (!response.ok) {
-      console.log(chalk.yellow(`    ⚠ Webhook notification failed: ${response.status}`));
+      printWarning(chalk.yellow(`    ⚠ Webhook notification failed: ${response.status}`));
     } else {
-      console.log(chalk.green('    ✓ Webhook notification sent'));
+      print(chalk.green('    ✓ Webhook notification sent'));
     }
   } catch (error: any) {
-    console.log(chalk.yellow(`    ⚠ Webhook notification error: ${error.message}`));
+    printWarning(chalk.yellow(`    ⚠ Webhook notification error: ${error.message}`));
   }
 }
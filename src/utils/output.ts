@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+
+/**
+ * Output modes (global --json / --quiet flags)
+ * - text:  human-readable, coloured progress (default)
+ * - json:  one JSON object per line on stdout (events, then a final "result"), nothing else
+ * - quiet: only warnings and errors (stderr)
+ */
+export type OutputMode = 'text' | 'json' | 'quiet';
+
+let outputMode: OutputMode = 'text';
+
+/**
+ * Set the output mode for the rest of the process
+ * Colours are disabled in json mode, so messages embedded in events are plain text
+ */
+export function setOutputMode(mode: OutputMode): void {
+  outputMode = mode;
+  if (mode === 'json') {
+    chalk.level = 0;
+  }
+}
+
+export function getOutputMode(): OutputMode {
+  return outputMode;
+}
+
+/**
+ * Whether human-readable output (and output of child processes) goes to the terminal
+ */
+export function isTextOutput(): boolean {
+  return outputMode === 'text';
+}
+
+/**
+ * Print a progress/info line (text mode only)
+ */
+export function print(message: string = ''): void {
+  if (outputMode === 'text') {
+    console.log(message);
+  }
+}
+
+/**
+ * Print a warning
+ * Shown in text and quiet mode (stderr in quiet mode), emitted as "warning" event in json mode
+ */
+export function printWarning(message: string): void {
+  if (outputMode === 'json') {
+    emitEvent('warning', { message: message.trim() });
+  } else if (outputMode === 'quiet') {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Print an error
+ * Emitted as "error" event in json mode
+ */
+export function printError(message: string): void {
+  if (outputMode === 'json') {
+    emitEvent('error', { message: message.trim() });
+  } else {
+    console.error(message);
+  }
+}
+
+/**
+ * Emit a machine-readable event (json mode only)
+ */
+export function emitEvent(event: string, data: object = {}): void {
+  if (outputMode === 'json') {
+    process.stdout.write(JSON.stringify({ event, ...data }) + '\n');
+  }
+}
+
+/**
+ * Emit the final result of a command (json mode only)
+ */
+export function emitResult(data: object): void {
+  emitEvent('result', data);
+}
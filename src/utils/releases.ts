@@ -0,0 +1,135 @@
+import { existsSync, mkdirSync, readdirSync, readlinkSync, renameSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import type { InstallConfig } from '../config/types.js';
+
+/**
+ * Release layout (Capistrano-style):
+ *   <targetDir>/releases/<timestamp>-<sha>/   one directory per deployed commit (timestamp in ms, unique)
+ *   <targetDir>/current -> releases/...       symlink to the live release
+ *   <targetDir>/logs/                         shared between releases
+ */
+export const RELEASES_DIRNAME = 'releases';
+export const CURRENT_LINK = 'current';
+
+/**
+ * Marker written into a release after dependencies were installed successfully
+ */
+export const RELEASE_MARKER = '.gpd-release.json';
+
+/**
+ * Default number of releases to keep
+ */
+export const DEFAULT_KEEP_RELEASES = 5;
+
+/**
+ * Get the path of the `current` symlink (the app directory in release layout)
+ */
+export function getCurrentPath(targetDir: string): string {
+  return join(targetDir, CURRENT_LINK);
+}
+
+/**
+ * Get the directory the app runs from (targetDir, or its `current` symlink in release layout)
+ */
+export function getAppDir(config: InstallConfig, targetDir: string): string {
+  return config.layout === 'releases' ? getCurrentPath(targetDir) : targetDir;
+}
+
+/**
+ * Find a completed release for a commit (used to switch back without reinstalling)
+ * @returns Release directory path, or null if none exists
+ */
+export function findRelease(targetDir: string, commit: string): string | null {
+  const releasesDir = join(targetDir, RELEASES_DIRNAME);
+  if (!existsSync(releasesDir)) return null;
+  
+  const suffix = `-${commit.substring(0, 7)}`;
+  const matches = readdirSync(releasesDir)
+    .filter(name => name.endsWith(suffix))
+    .filter(name => existsSync(join(releasesDir, name, RELEASE_MARKER)))
+    .sort();
+  
+  return matches.length > 0 ? join(releasesDir, matches[matches.length - 1]) : null;
+}
+
+/**
+ * Release timestamp: YYYYMMDDHHMMSSmmm (UTC)
+ */
+function formatReleaseTimestamp(time: number): string {
+  return new Date(time).toISOString().replace(/[-:T.Z]/g, '');
+}
+
+/**
+ * Create a new, empty release directory for a commit
+ * Name: YYYYMMDDHHMMSSmmm-<short sha>. No two releases share a timestamp (a later one takes
+ * the next free millisecond), so names sort chronologically even within the same second.
+ */
+export function createReleaseDir(targetDir: string, commit: string): string {
+  const releasesDir = join(targetDir, RELEASES_DIRNAME);
+  mkdirSync(releasesDir, { recursive: true });
+  
+  const taken = new Set(readdirSync(releasesDir).map(name => name.split('-')[0]));
+  let time = Date.now();
+  while (taken.has(formatReleaseTimestamp(time))) {
+    time++;
+  }
+  const releaseDir = join(releasesDir, `${formatReleaseTimestamp(time)}-${commit.substring(0, 7)}`);
+  mkdirSync(releaseDir);
+  return releaseDir;
+}
+
+/**
+ * Mark a release as complete (dependencies installed)
+ */
+export function markReleaseComplete(releaseDir: string, commit: string): void {
+  writeFileSync(join(releaseDir, RELEASE_MARKER), JSON.stringify({
+    commit,
+    installedAt: new Date().toISOString()
+  }, null, 2) + '\n');
+}
+
+/**
+ * Get the release the `current` symlink points to
+ * @returns Release directory path, or null if there is no current release
+ */
+export function getCurrentRelease(targetDir: string): string | null {
+  try {
+    const link = readlinkSync(getCurrentPath(targetDir));
+    return link.startsWith('/') ? link : join(targetDir, link);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Atomically point `current` at a release
+ * Creates a temporary symlink and renames it over `current` (rename is atomic).
+ * The link is relative (releases/...), so the target dir can be moved.
+ */
+export function switchCurrentRelease(targetDir: string, releaseDir: string): void {
+  const currentPath = getCurrentPath(targetDir);
+  const tmpPath = `${currentPath}.tmp-${process.pid}`;
+  rmSync(tmpPath, { force: true });
+  symlinkSync(relative(targetDir, releaseDir), tmpPath);
+  renameSync(tmpPath, currentPath);
+}
+
+/**
+ * Remove old releases, keeping the newest `keep` and the current one
+ * @returns Names of removed releases
+ */
+export function pruneReleases(targetDir: string, keep: number): string[] {
+  const releasesDir = join(targetDir, RELEASES_DIRNAME);
+  if (!existsSync(releasesDir)) return [];
+  
+  const current = getCurrentRelease(targetDir);
+  const releases = readdirSync(releasesDir).sort();
+  const toRemove = releases
+    .slice(0, Math.max(0, releases.length - Math.max(1, keep)))
+    .filter(name => join(releasesDir, name) !== current);
+  
+  for (const name of toRemove) {
+    rmSync(join(releasesDir, name), { recursive: true, force: true });
+  }
+  return toRemove;
+}
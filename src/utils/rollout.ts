@@ -0,0 +1,123 @@
+import chalk from 'chalk';
+import type { RolloutConfig, RolloutStrategyType } from '../config/types.js';
+import { print, printWarning, printError, emitEvent } from './output.js';
+
+/**
+ * A single deployment target within a rollout
+ */
+export interface RolloutTarget {
+  /** Server label (name or host) */
+  label: string;
+  /** Git remote name in the deploy repo (origin, server-0, server-1, ...) */
+  remote: string;
+}
+
+/**
+ * Outcome of a rollout for a single target
+ */
+export interface RolloutOutcome<T extends RolloutTarget> {
+  target: T;
+  status: 'deployed' | 'failed' | 'skipped';
+  error?: string;
+}
+
+/**
+ * Default rollout: one server at a time, halt on first failure
+ */
+export const DEFAULT_ROLLOUT: RolloutConfig = {
+  strategy: 'rolling',
+  batchSize: 1
+};
+
+/**
+ * Split targets into batches according to the rollout strategy
+ */
+export function planRollout<T>(targets: T[], rollout: RolloutConfig = DEFAULT_ROLLOUT): T[][] {
+  if (targets.length === 0) return [];
+  
+  switch (rollout.strategy) {
+    case 'all-at-once':
+      return [targets];
+    
+    case 'canary': {
+      const canaryCount = Math.max(1, rollout.canaryCount || 1);
+      const canary = targets.slice(0, canaryCount);
+      const rest = targets.slice(canaryCount);
+      return rest.length > 0 ? [canary, rest] : [canary];
+    }
+    
+    case 'rolling': {
+      const batchSize = Math.max(1, rollout.batchSize || 1);
+      const batches: T[][] = [];
+      for (let i = 0; i < targets.length; i += batchSize) {
+        batches.push(targets.slice(i, i + batchSize));
+      }
+      return batches;
+    }
+    
+    default:
+      throw new Error(`Unknown rollout strategy: ${(rollout as { strategy: string }).strategy}`);
+  }
+}
+
+/**
+ * Describe a rollout strategy for display
+ */
+export function describeRollout(rollout: RolloutConfig = DEFAULT_ROLLOUT): string {
+  const strategy: RolloutStrategyType = rollout.strategy;
+  if (strategy === 'rolling') return `rolling (batch size ${Math.max(1, rollout.batchSize || 1)})`;
+  if (strategy === 'canary') return `canary (${Math.max(1, rollout.canaryCount || 1)} first)`;
+  return strategy;
+}
+
+/**
+ * Execute a rollout batch by batch
+ * Targets within a batch are deployed in parallel. If any target in a batch fails,
+ * the rollout halts and all remaining targets are marked as skipped.
+ */
+export async function executeRollout<T extends RolloutTarget>(
+  targets: T[],
+  rollout: RolloutConfig | undefined,
+  deploy: (target: T) => Promise<void>
+): Promise<RolloutOutcome<T>[]> {
+  const batches = planRollout(targets, rollout);
+  const outcomes = new Map<T, RolloutOutcome<T>>();
+  let halted = false;
+  
+  for (let i = 0; i < batches.length; i++) {
+    const batch = batches[i];
+    
+    if (halted) {
+      for (const target of batch) {
+        outcomes.set(target, { target, status: 'skipped' });
+      }
+      continue;
+    }
+    
+    if (batches.length > 1) {
+      print(chalk.gray(`    Batch ${i + 1}/${batches.length}: ${batch.map(t => t.label).join(', ')}`));
+    }
+    
+    const settled = await Promise.allSettled(batch.map(target => deploy(target)));
+    settled.forEach((result, index) => {
+      const target = batch[index];
+      if (result.status === 'fulfilled') {
+        print(chalk.green(`    ✓ ${target.label}`));
+        emitEvent('server', { server: target.label, status: 'deployed' });
+        outcomes.set(target, { target, status: 'deployed' });
+      } else {
+        const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        printError(chalk.red(`    ✗ ${target.label}: ${error}`));
+        emitEvent('server', { server: target.label, status: 'failed', error });
+        outcomes.set(target, { target, status: 'failed', error });
+        halted = true;
+      }
+    });
+    
+    if (halted && i < batches.length - 1) {
+      printWarning(chalk.yellow(`    ⚠ Batch ${i + 1} failed, halting rollout. Remaining servers keep the previous version.`));
+    }
+  }
+  
+  return targets.map(target => outcomes.get(target)!);
+}
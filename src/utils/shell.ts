@@ -1,18 +1,21 @@
-import { execSync } from 'child_process';
+import { execSync, exec as execCallback } from 'child_process';
 import { existsSync, readFileSync, statSync } from 'fs';
 import { homedir, platform } from 'os';
 import { join } from 'path';
 import chalk from 'chalk';
+import { printWarning, isTextOutput } from './output.js';
 
 /**
  * Execute a shell command and return output
  */
-export function exec(command: string, options: { cwd?: string; silent?: boolean } = {}): string {
+export function exec(command: string, options: { cwd?: string; silent?: boolean; env?: Record<string, string> } = {}): string {
   try {
+    // Child process output only goes to the terminal in text mode (keeps --json output parseable)
     const result = execSync(command, {
       cwd: options.cwd,
+      env: options.env ? { ...process.env, ...options.env } : undefined,
       encoding: 'utf-8',
-      stdio: options.silent ? 'pipe' : 'inherit'
+      stdio: options.silent || !isTextOutput() ? 'pipe' : 'inherit'
     });
     return result?.trim() || '';
   } catch (error) {
@@ -23,6 +26,23 @@ export function exec(command: string, options: { cwd?: string; silent?: boolean
   }
 }
 
+/**
+ * Execute a shell command asynchronously and return output
+ * Output is captured (not streamed), so parallel commands don't interleave
+ */
+export function execAsync(command: string, options: { cwd?: string } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execCallback(command, { cwd: options.cwd, encoding: 'utf-8' }, (error, stdout, stderr) => {
+      if (error) {
+        const details = stderr?.trim() || stdout?.trim() || error.message;
+        reject(new Error(details));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
+}
+
 /**
  * Execute command and return output (always silent)
  */
@@ -114,11 +134,10 @@ export function checkSshKeyPermissions(keyPath: string): void {
     // Check if permissions are too open (should be 600 or 400)
     if (mode & 0o077) { // Any group or other permissions
       const octal = mode.toString(8).padStart(3, '0');
-      console.log(chalk.yellow(`\n⚠ Security warning: SSH private key has insecure permissions`));
-      console.log(chalk.yellow(`  File: ${privateKeyPath}`));
-      console.log(chalk.yellow(`  Current: ${octal} (should be 600 or 400)`));
-      console.log(chalk.gray(`  Fix with: chmod 600 ${privateKeyPath}`));
-      console.log();
+      printWarning(chalk.yellow(`\n⚠ Security warning: SSH private key has insecure permissions`));
+      printWarning(chalk.yellow(`  File: ${privateKeyPath}`));
+      printWarning(chalk.yellow(`  Current: ${octal} (should be 600 or 400)`));
+      printWarning(chalk.gray(`  Fix with: chmod 600 ${privateKeyPath}\n`));
     }
   } catch {
     // Ignore errors (e.g., can't stat file)
@@ -176,18 +195,24 @@ export function copySshKey(host: string, keyPath: string, sshOptions?: string):
  */
 export async function runSshCommand(host: string, command: string, sshOptions?: string): Promise<string> {
   const sshOpts = sshOptions ? `${sshOptions} ` : '';
-  const escapedCmd = command.replace(/"/g, '\\"');
+  // Escape everything the local shell would interpret inside double quotes,
+  // so variables and command substitutions are expanded on the remote host
+  const escapedCmd = command.replace(/[\\"$`]/g, '\\$&');
   const sshCommand = `ssh ${sshOpts}${host} "${escapedCmd}"`;
   
-  try {
-    const output = execSync(sshCommand, { encoding: 'utf-8' });
-    return output.trim();
-  } catch (error: any) {
-    if (error.stdout) {
-      return error.stdout.toString().trim();
-    }
-    throw new Error(`SSH command failed: ${error.message}`);
-  }
+  return new Promise((resolve, reject) => {
+    execCallback(sshCommand, { encoding: 'utf-8' }, (error, stdout) => {
+      if (error) {
+        if (stdout) {
+          resolve(stdout.trim());
+          return;
+        }
+        reject(new Error(`SSH command failed: ${error.message}`));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
 }
 
 /**
@@ -209,5 +234,5 @@ export function scpFile(localPath: string, host: string, remotePath: string, ssh
   }
   
   const scpCommand = `scp ${scpOpts}"${localPath}" ${host}:"${remotePath}"`;
-  execSync(scpCommand, { stdio: 'inherit' });
+  execSync(scpCommand, { stdio: isTextOutput() ? 'inherit' : 'pipe' });
 }
@@ -0,0 +1,61 @@
+/**
+ * Options for generating a systemd unit file
+ */
+export interface SystemdUnitOptions {
+  description: string;
+  workingDirectory: string;
+  envFile: string;
+  user: string;
+  group: string;
+  execStart: string;
+  environment?: string;
+  afterServices?: string[];
+}
+
+/**
+ * Get systemd unit name for a process name (without .service suffix)
+ */
+export function getSystemdUnitName(processName: string): string {
+  return processName.replace(/[^a-zA-Z0-9-_]/g, '-');
+}
+
+/**
+ * Get path to the systemd unit file for a unit name
+ */
+export function getSystemdUnitPath(unitName: string): string {
+  return `/etc/systemd/system/${unitName}.service`;
+}
+
+/**
+ * Generate systemd unit content
+ * The env file is optional (leading '-'), so a service without `env` config still starts
+ */
+export function generateSystemdUnit(options: SystemdUnitOptions): string {
+  const after = options.afterServices?.length 
+    ? `After=network.target ${options.afterServices.join(' ')}`
+    : 'After=network.target';
+  
+  // Build Environment line
+  const envLine = options.environment 
+    ? `Environment=NODE_ENV=${options.environment}`
+    : '';
+  
+  return `[Unit]
+Description=${options.description}
+${after}
+Wants=network-online.target
+
+[Service]
+Type=simple
+User=${options.user}
+Group=${options.group}
+WorkingDirectory=${options.workingDirectory}
+EnvironmentFile=-${options.envFile}
+${envLine}
+ExecStart=${options.execStart}
+Restart=on-failure
+RestartSec=10
+
+[Install]
+WantedBy=multi-user.target`;
+}
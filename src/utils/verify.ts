@@ -0,0 +1,188 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { INSTALL_STATUS_FILENAME, type ServiceConfig, type ServerConfig, type InstallStatus } from '../config/types.js';
+import { runSshCommand } from './shell.js';
+
+/**
+ * Default health check timing (seconds)
+ */
+const DEFAULT_HEALTH_TIMEOUT = 60;
+const DEFAULT_HEALTH_INTERVAL = 2;
+
+/**
+ * Releases that passed verification on every server, kept in the deploy repo's .git dir
+ */
+const VERIFIED_RELEASES_PATH = join('.git', 'gpd-verified.json');
+const MAX_VERIFIED_RELEASES = 50;
+
+/**
+ * A release that was installed (and health checked, if configured) on all of its servers
+ */
+export interface VerifiedRelease {
+  verifiedAt: string;
+  servers: string[];
+  /** A health URL was polled (otherwise only the install status was checked) */
+  healthChecked: boolean;
+}
+
+/**
+ * Result of polling a health endpoint on a server
+ */
+export interface HealthCheckResult {
+  healthy: boolean;
+  attempts: number;
+  /** Last HTTP status seen (undefined if the request never got a response) */
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Outcome of verifying a deployment on a server (see verifyDeployment)
+ */
+export interface DeploymentVerification {
+  /** The server's install status confirmed the commit (false if it has no status file) */
+  installVerified: boolean;
+  /** Health check result (undefined if the service has no health URL) */
+  health?: HealthCheckResult;
+}
+
+/**
+ * Get the health check URL for a service
+ * healthUrl takes precedence, gpdd services fall back to their gpdd health/ready URLs
+ */
+export function getHealthCheckUrl(config: ServiceConfig): string | undefined {
+  return config.healthUrl || config.gpddHealthUrl || config.gpddReadyUrl;
+}
+
+/**
+ * Request the health URL once from the server itself (via SSH + curl)
+ * The URL is usually bound to localhost, so it is requested on the server, not from here
+ * @returns HTTP status code, or undefined if there was no response
+ */
+export async function checkHealthOnce(server: ServerConfig, url: string): Promise<number | undefined> {
+  const cmd = `curl -s -o /dev/null -w '%{http_code}' --max-time 5 '${url}' || true`;
+  const output = await runSshCommand(server.host, cmd, server.sshOptions);
+  const status = parseInt(output.trim(), 10);
+  return status > 0 ? status : undefined;
+}
+
+/**
+ * Poll the health URL on a server until it returns 2xx or the timeout expires
+ */
+export async function waitForHealthy(
+  server: ServerConfig,
+  url: string,
+  options: { timeout?: number; interval?: number } = {}
+): Promise<HealthCheckResult> {
+  const timeoutMs = (options.timeout ?? DEFAULT_HEALTH_TIMEOUT) * 1000;
+  const intervalMs = (options.interval ?? DEFAULT_HEALTH_INTERVAL) * 1000;
+  const deadline = Date.now() + timeoutMs;
+  
+  let attempts = 0;
+  let status: number | undefined;
+  let error: string | undefined;
+  
+  while (true) {
+    attempts++;
+    try {
+      status = await checkHealthOnce(server, url);
+      error = undefined;
+      if (status !== undefined && status >= 200 && status < 300) {
+        return { healthy: true, attempts, status };
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+    
+    if (Date.now() + intervalMs > deadline) {
+      break;
+    }
+    await new Promise(r => setTimeout(r, intervalMs));
+  }
+  
+  return { healthy: false, attempts, status, error };
+}
+
+/**
+ * Read the install status written by `gpd install` on the server
+ * @returns Status, or undefined if the server has no status file (older gpd version)
+ */
+export async function readInstallStatus(server: ServerConfig): Promise<InstallStatus | undefined> {
+  const output = await runSshCommand(
+    server.host,
+    `cat '${server.targetDir}/${INSTALL_STATUS_FILENAME}' 2>/dev/null || true`,
+    server.sshOptions
+  );
+  if (!output.trim()) return undefined;
+  try {
+    return JSON.parse(output) as InstallStatus;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that the server-side install succeeded for a commit
+ * The post-receive hook runs during the push, so the status is final once the push returns
+ * @returns Whether the install was verified (false if the server has no status file)
+ * @throws Error if the install failed or did not run for this commit
+ */
+export async function checkInstallStatus(server: ServerConfig, commitHash: string): Promise<boolean> {
+  const status = await readInstallStatus(server);
+  if (!status) return false;
+  
+  if (!status.commit.startsWith(commitHash)) {
+    throw new Error(`Install did not run for ${commitHash} (last install: ${status.commit.substring(0, 7)})`);
+  }
+  if (!status.success) {
+    throw new Error(`Install failed: ${status.error || 'unknown error'}`);
+  }
+  return true;
+}
+
+/**
+ * Verify a deployment on a server: install status first, then health URL polling
+ * @throws Error if the install failed or the server does not become healthy within the configured timeout
+ */
+export async function verifyDeployment(config: ServiceConfig, server: ServerConfig, commitHash: string): Promise<DeploymentVerification> {
+  const installVerified = await checkInstallStatus(server, commitHash);
+  
+  const url = getHealthCheckUrl(config);
+  if (!url) return { installVerified };
+  
+  const result = await waitForHealthy(server, url, {
+    timeout: config.healthTimeout,
+    interval: config.healthInterval
+  });
+  
+  if (!result.healthy) {
+    const timeout = config.healthTimeout ?? DEFAULT_HEALTH_TIMEOUT;
+    const lastSeen = result.status ? `last status ${result.status}` : (result.error || 'no response');
+    throw new Error(`Health check failed after ${timeout}s (${lastSeen})`);
+  }
+  
+  return { installVerified, health: result };
+}
+
+/**
+ * Verified releases of a deploy repo (full commit hash -> verification)
+ */
+export function readVerifiedReleases(deployRepoPath: string): Record<string, VerifiedRelease> {
+  const path = join(deployRepoPath, VERIFIED_RELEASES_PATH);
+  try {
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record that a release commit passed verification (only the newest releases are kept)
+ */
+export function recordVerifiedRelease(deployRepoPath: string, commit: string, release: VerifiedRelease): void {
+  const releases = { ...readVerifiedReleases(deployRepoPath), [commit]: release };
+  const newest = Object.entries(releases)
+    .sort(([, a], [, b]) => a.verifiedAt.localeCompare(b.verifiedAt))
+    .slice(-MAX_VERIFIED_RELEASES);
+  writeFileSync(join(deployRepoPath, VERIFIED_RELEASES_PATH), JSON.stringify(Object.fromEntries(newest), null, 2) + '\n');
+}
@@ -0,0 +1,184 @@
+import chalk from 'chalk';
+import { loadConfig } from '../config/loader.js';
+import type { DeployConfig, DeployWindowsConfig, FreezeOverride, ServiceConfig } from '../config/types.js';
+import { print, printWarning } from './output.js';
+
+/**
+ * --override-freeze options of deploy, release, promote and rollback
+ */
+export interface FreezeOptions {
+  /** Proceed outside the deploy windows or during a change freeze */
+  overrideFreeze?: boolean;
+  /** Why the freeze is overridden (required with overrideFreeze, recorded in notifications) */
+  reason?: string;
+}
+
+/**
+ * Wall-clock time in the timezone of the deploy windows
+ */
+interface LocalTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  /** 0 = Sunday */
+  weekday: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm */
+  time: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Fields of a deploy window (cron order) and their ranges (day-of-week 7 = Sunday, like 0)
+ */
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 }
+];
+
+/**
+ * Deploy windows that apply to a service: those of its environment, overridden by the service's own
+ */
+export function getDeployWindows(config: DeployConfig, service: ServiceConfig): DeployWindowsConfig {
+  const environment = service.environment || 'production';
+  return { ...config.deployWindows?.[environment], ...service.deployWindows };
+}
+
+/**
+ * Get the wall-clock time of a date in a timezone (default: local time)
+ * @throws Error if the timezone is unknown
+ */
+function getLocalTime(now: Date, timezone?: string): LocalTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+  } catch {
+    throw new Error(`Invalid deploy windows timezone: "${timezone}"`);
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  
+  return {
+    minute: Number(part('minute')),
+    hour: Number(part('hour')),
+    day: Number(part('day')),
+    month: Number(part('month')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`
+  };
+}
+
+/**
+ * Check a value against one cron field (*, n, n-m, lists and /step)
+ * @throws Error if the field is malformed or out of range
+ */
+function matchesCronField(field: string, value: number, index: number, expression: string): boolean {
+  const { name, min, max } = CRON_FIELDS[index];
+  return field.split(',').some(part => {
+    const match = part.match(/^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    const from = match?.[1] ? min : Number(match?.[2]);
+    const to = match?.[1] ? max : match?.[3] !== undefined ? Number(match[3]) : match?.[4] !== undefined ? max : from;
+    const step = match?.[4] !== undefined ? Number(match[4]) : 1;
+    if (!match || from < min || to > max || from > to || step < 1) {
+      throw new Error(`Invalid deploy window "${expression}": bad ${name} field "${field}" (${min}-${max})`);
+    }
+    return value >= from && value <= to && (value - from) % step === 0;
+  });
+}
+
+/**
+ * Check if a time lies in a deploy window (minute hour day-of-month month day-of-week)
+ * As in cron, a day matches either field if both day-of-month and day-of-week are restricted.
+ * @throws Error if the expression is malformed
+ */
+function matchesDeployWindow(expression: string, time: LocalTime): boolean {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Invalid deploy window "${expression}": expected minute hour day-of-month month day-of-week`);
+  }
+  const matches = (index: number, value: number) => matchesCronField(fields[index], value, index, expression);
+  
+  const dayOfMonth = matches(2, time.day);
+  const dayOfWeek = matches(4, time.weekday) || (time.weekday === 0 && matches(4, 7));
+  const day = fields[2] !== '*' && fields[4] !== '*' ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+  return matches(0, time.minute) && matches(1, time.hour) && matches(3, time.month) && day;
+}
+
+/**
+ * Start or end of a change freeze as a YYYY-MM-DDTHH:mm stamp (a plain date covers the whole day)
+ * Stamps of this one format sort like the times they stand for, so they compare as strings.
+ * @throws Error if the value has another format (e.g. with seconds or a UTC offset)
+ */
+function getFreezeBound(value: string, end: boolean): string {
+  const match = value.match(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/);
+  if (!match) {
+    throw new Error(`Invalid change freeze bound "${value}": use YYYY-MM-DD or YYYY-MM-DDTHH:mm (in the deploy windows timezone)`);
+  }
+  return match[1] ? value : `${value}T${end ? '23:59' : '00:00'}`;
+}
+
+/**
+ * Check the deploy windows at a point in time
+ * @returns Why deploying is not allowed now (undefined if it is)
+ * @throws Error if the timezone, a window or a freeze bound is invalid
+ */
+export function checkDeployWindow(windows: DeployWindowsConfig, now: Date = new Date()): string | undefined {
+  const time = getLocalTime(now, windows.timezone);
+  const stamp = `${time.date}T${time.time}`;
+  
+  for (const freeze of windows.freeze || []) {
+    if (stamp >= getFreezeBound(freeze.from, false) && stamp <= getFreezeBound(freeze.to, true)) {
+      return `change freeze ${freeze.from} to ${freeze.to}${freeze.reason ? ` (${freeze.reason})` : ''}`;
+    }
+  }
+  
+  const allow = windows.allow || [];
+  if (allow.length > 0 && !allow.some(window => matchesDeployWindow(window, time))) {
+    const zone = windows.timezone ? ` ${windows.timezone}` : '';
+    return `outside the deploy windows (now ${WEEKDAYS[time.weekday]} ${time.date} ${time.time}${zone}, allowed: ${allow.map(w => `"${w}"`).join(', ')})`;
+  }
+  return undefined;
+}
+
+/**
+ * Check the deploy windows of a service's environment before deploy, release, promote or rollback
+ * @returns Violation that was overridden with --override-freeze (undefined if deploying is allowed)
+ * @throws Error if deploying is not allowed now and not overridden (with a reason)
+ */
+export function enforceDeployWindow(config: ServiceConfig, options: FreezeOptions & { dryRun?: boolean } = {}): FreezeOverride | undefined {
+  const violation = checkDeployWindow(getDeployWindows(loadConfig(), config));
+  if (!violation) return undefined;
+  
+  const environment = config.environment || 'production';
+  if (options.dryRun) {
+    print(chalk.yellow(`[DRY RUN] Deploy windows (${environment}) would ${options.overrideFreeze ? 'be overridden' : 'refuse the deploy'}: ${violation}`));
+    print('');
+    return undefined;
+  }
+  
+  if (!options.overrideFreeze) {
+    throw new Error(`Deploying ${environment} is not allowed now: ${violation}\n` +
+      'Wait for the next deploy window, or use --override-freeze --reason "..." to deploy anyway.');
+  }
+  if (!options.reason) {
+    throw new Error('--override-freeze requires --reason (recorded in notifications)');
+  }
+  
+  printWarning(chalk.yellow(`⚠ --override-freeze: ${violation} (reason: ${options.reason})`));
+  return { violation, reason: options.reason };
+}
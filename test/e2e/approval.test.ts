@@ -0,0 +1,159 @@
+/**
+ * E2E Tests for the two-person rule (approval.required, gpd approve)
+ * 
+ * The "server" is a local bare repo (see helpers.ts). Requester and approver differ by the identity
+ * the server sees: the fake ssh passes GPD_USER on, like environment= in authorized_keys would.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, copyFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, findEvent, gitIdentity, serverConfig, serviceConfig, writeConfig, writeBuild, createServer, serverCommit, headCommit } from './helpers.js';
+
+const env = createTestEnv('approval');
+const server = serverConfig(env, 'web-1');
+const deployRepo = join(env.workspaceDir, 'deploy', 'api');
+const pendingFile = join(server.targetDir, '.gpd-pending.json');
+
+/** Another clone of the workspace, without a deploy repo yet */
+const otherWorkspace = join(env.dir, 'workspace-bob');
+const otherDeployRepo = join(otherWorkspace, 'deploy', 'api');
+
+const ALICE = { ...gitIdentity('alice'), GPD_USER: 'alice' };
+const BOB = { ...gitIdentity('bob'), GPD_USER: 'bob' };
+
+/**
+ * Run gpd with --json in the workspace (or another clone) as an identity
+ */
+function gpd(args: string, identity: Record<string, string>, cwd?: string) {
+  return runGpd(env, args, { env: identity, cwd });
+}
+
+function serverTags(): string[] {
+  return execSync(`git --git-dir="${server.bareRepo}" tag -l`, { encoding: 'utf-8' }).split('\n').filter(Boolean);
+}
+
+describe('Two-person approval', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    createServer(server);
+    
+    writeBuild(env, 'v1');
+    writeConfig(env, {
+      approval: { production: { required: true } },
+      services: {
+        api: serviceConfig({ environment: 'production', server })
+      }
+    });
+    mkdirSync(otherWorkspace, { recursive: true });
+    copyFileSync(join(env.workspaceDir, '.git-deploy.json'), join(otherWorkspace, '.git-deploy.json'));
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd deploy commits without pushing, gpd approve by someone else pushes', () => {
+    const requested = gpd('deploy api', ALICE);
+    expect(requested.status).toBe(0);
+    const pending = findEvent(requested.events, 'result');
+    expect(pending).toMatchObject({ success: true, pendingApproval: true, requestedBy: 'alice' });
+    expect(findEvent(requested.events, 'pendingApproval')).toMatchObject({ id: pending!.commitHash });
+    // The release waits on the server, not on its branch
+    expect(JSON.parse(readFileSync(pendingFile, 'utf-8'))).toMatchObject({ id: pending!.commitHash, requestedBy: 'alice' });
+    expect(serverCommit(server, `refs/gpd/pending/${pending!.commitHash}`)).toBe(headCommit(deployRepo));
+    expect(serverCommit(server)).toBeUndefined();
+    
+    // The requester can't approve, whatever their git identity says, and nothing else runs while the release waits
+    const selfApproved = gpd(`approve api ${pending!.commitHash}`, ALICE);
+    expect(selfApproved.status).toBe(1);
+    expect(findEvent(selfApproved.events, 'error')?.message).toContain('was requested by alice and needs approval by someone else');
+    const disguised = gpd(`approve api ${pending!.commitHash}`, { ...ALICE, ...gitIdentity('bob') });
+    expect(disguised.status).toBe(1);
+    expect(findEvent(disguised.events, 'error')?.message).toContain('needs approval by someone else');
+    const deployAgain = gpd('deploy api', BOB);
+    expect(deployAgain.status).toBe(1);
+    expect(findEvent(deployAgain.events, 'error')?.message).toContain(`has a release waiting for approval: ${pending!.commitHash}`);
+    expect(gpd('approve api abc1234', BOB).status).toBe(1);
+    
+    const shown = gpd('approve api', BOB);
+    expect(findEvent(shown.events, 'result')?.pending).toMatchObject({ id: pending!.commitHash });
+    
+    // The full hash names the release too
+    const approved = gpd(`approve api ${headCommit(deployRepo)}`, BOB);
+    expect(approved.status).toBe(0);
+    expect(findEvent(approved.events, 'approved')).toMatchObject({ requestedBy: 'alice', approvedBy: 'bob' });
+    expect(findEvent(approved.events, 'locked')).toMatchObject({ holder: 'bob' });
+    expect(findEvent(approved.events, 'result')).toMatchObject({
+      success: true,
+      commitHash: pending!.commitHash,
+      requestedBy: 'alice',
+      approvedBy: 'bob'
+    });
+    expect(serverCommit(server)).toBe(headCommit(deployRepo));
+    expect(existsSync(pendingFile)).toBe(false);
+    expect(serverCommit(server, `refs/gpd/pending/${pending!.commitHash}`)).toBeUndefined();
+    expect(existsSync(join(server.targetDir, '.gpd-lock.json'))).toBe(false);
+  });
+  
+  test('gpd approve --reject undoes the commit and keeps the changes staged', () => {
+    const first = findEvent(gpd('deploy api', ALICE).events, 'result')!;
+    
+    expect(gpd(`approve api ${first.commitHash.substring(0, 3)} --reject`, BOB).status).toBe(1);
+    const rejected = gpd(`approve api ${first.commitHash.substring(0, 4)} --reject`, BOB);
+    expect(rejected.status).toBe(0);
+    expect(findEvent(rejected.events, 'result')).toMatchObject({ success: true, rejected: true, id: first.commitHash });
+    expect(existsSync(pendingFile)).toBe(false);
+    expect(execSync('git status --porcelain', { cwd: deployRepo, encoding: 'utf-8' })).toContain('A  dist/main.js');
+    
+    // A new request, which expires
+    const second = findEvent(gpd('release api', ALICE).events, 'result')!;
+    expect(second.pendingApproval).toBe(true);
+    const request = JSON.parse(readFileSync(pendingFile, 'utf-8'));
+    writeFileSync(pendingFile, JSON.stringify({ ...request, requestedAt: new Date(Date.now() - 2 * 86400 * 1000).toISOString() }, null, 2));
+    
+    const expired = gpd(`approve api ${second.commitHash}`, BOB);
+    expect(expired.status).toBe(1);
+    expect(findEvent(expired.events, 'error')?.message).toContain('approvals expire after 1d');
+    expect(serverCommit(server)).toBeUndefined();
+  });
+  
+  test('another clone approves the release from the server', () => {
+    const first = findEvent(gpd('deploy api --tag v1', ALICE).events, 'result')!;
+    
+    // A new clone starts at the release, with its tag
+    const approved = gpd(`approve api ${first.commitHash}`, BOB, otherWorkspace);
+    expect(approved.status).toBe(0);
+    expect(findEvent(approved.events, 'result')).toMatchObject({ success: true, requestedBy: 'alice', approvedBy: 'bob', tag: 'v1' });
+    expect(serverCommit(server)).toBe(headCommit(deployRepo));
+    expect(headCommit(otherDeployRepo)).toBe(headCommit(deployRepo));
+    expect(serverTags()).toEqual(['v1']);
+    
+    // The next release is requested on top of the first, where the other clone is
+    writeBuild(env, 'v2');
+    const second = findEvent(gpd('deploy api --tag v2', ALICE).events, 'result')!;
+    expect(second.pendingApproval).toBe(true);
+    expect(gpd(`approve api ${second.commitHash}`, BOB, otherWorkspace).status).toBe(0);
+    expect(serverCommit(server)).toBe(headCommit(deployRepo));
+    expect(serverTags()).toEqual(['v1', 'v2']);
+  });
+  
+  test('a release rejected from another clone is undone in the requester\'s deploy repo', () => {
+    const first = findEvent(gpd('deploy api --tag v1', ALICE).events, 'result')!;
+    const rejected = gpd(`approve api ${first.commitHash} --reject`, BOB, otherWorkspace);
+    expect(rejected.status).toBe(0);
+    expect(serverCommit(server)).toBeUndefined();
+    
+    // The commit (and tag) of the rejected release would otherwise be pushed with the next one
+    writeBuild(env, 'v2');
+    const next = gpd('deploy api --tag v1', ALICE);
+    expect(next.status).toBe(0);
+    expect(findEvent(next.events, 'warning')?.message).toContain(`Release ${first.commitHash} of api was not deployed`);
+    expect(findEvent(next.events, 'result')).toMatchObject({ pendingApproval: true, tag: 'v1' });
+    expect(execSync('git rev-list --count HEAD', { cwd: deployRepo, encoding: 'utf-8' }).trim()).toBe('1');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * E2E Tests for the build step (gpd deploy runs `build` before staging)
+ * 
+ * Uses a fake `ssh` binary on PATH that reports the server as initialized,
+ * and `--skip-push`, so nothing leaves the machine.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync, spawnSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-build');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+
+const binDir = join(TEST_DIR, 'bin');
+const workspaceDir = join(TEST_DIR, 'workspace');
+const buildLog = join(TEST_DIR, 'build.log');
+
+/**
+ * Run gpd deploy in the workspace
+ */
+function deploy(args: string = ''): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync('sh', ['-c', `node "${GPD_CLI}" deploy api --skip-push ${args}`], {
+    cwd: workspaceDir,
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '0', PATH: `${binDir}:${process.env.PATH}` }
+  });
+  return { stdout: result.stdout, stderr: result.stderr, status: result.status };
+}
+
+/**
+ * Number of times the build command ran
+ */
+function buildCount(): number {
+  return existsSync(buildLog) ? readFileSync(buildLog, 'utf-8').trim().split('\n').length : 0;
+}
+
+function writeConfig(build: Record<string, unknown>): void {
+  writeFileSync(join(workspaceDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      api: {
+        sourceDir: '.',
+        deployRepo: 'deploy',
+        artifacts: ['dist'],
+        processName: 'api',
+        build,
+        server: { host: 'deploy@example.com', targetDir: '/opt/api', bareRepo: '/git/api.git' }
+      }
+    }
+  }, null, 2));
+}
+
+describe('Build Step', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(binDir, { recursive: true });
+    writeFileSync(join(binDir, 'ssh'), '#!/bin/sh\nexit 0\n');
+    chmodSync(join(binDir, 'ssh'), 0o755);
+    
+    mkdirSync(join(workspaceDir, 'src'), { recursive: true });
+    writeFileSync(join(workspaceDir, 'src', 'main.txt'), 'v1');
+    writeFileSync(join(workspaceDir, '.gitignore'), 'dist/\n');
+    writeConfig({
+      command: `mkdir -p dist && cp src/main.txt dist/main.js && echo "$BUILD_MODE" >> "${buildLog}"`,
+      env: { BUILD_MODE: 'release' },
+      outputs: ['dist/main.js']
+    });
+    execSync('git init -q && git add -A && git -c user.name=test -c user.email=test@example.com commit -q -m init', { cwd: workspaceDir });
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd deploy builds before staging and skips unchanged sources', () => {
+    expect(deploy().status).toBe(0);
+    expect(readFileSync(buildLog, 'utf-8')).toBe('release\n');
+    expect(readFileSync(join(workspaceDir, 'deploy', 'dist', 'main.js'), 'utf-8')).toBe('v1');
+    
+    const second = deploy();
+    expect(second.status).toBe(0);
+    expect(second.stdout).toContain('Build skipped');
+    expect(buildCount()).toBe(1);
+    
+    // Uncommitted source changes count
+    writeFileSync(join(workspaceDir, 'src', 'main.txt'), 'v2');
+    expect(deploy().status).toBe(0);
+    expect(buildCount()).toBe(2);
+    expect(readFileSync(join(workspaceDir, 'deploy', 'dist', 'main.js'), 'utf-8')).toBe('v2');
+    
+    expect(deploy('--rebuild').status).toBe(0);
+    expect(buildCount()).toBe(3);
+  });
+  
+  test('gpd deploy rebuilds if outputs were removed', () => {
+    deploy();
+    rmSync(join(workspaceDir, 'dist'), { recursive: true });
+    
+    expect(deploy().status).toBe(0);
+    expect(buildCount()).toBe(2);
+  });
+  
+  test('gpd deploy fails if expected outputs are missing', () => {
+    writeConfig({ command: 'true', outputs: ['dist/main.js', 'dist/**/*.css'] });
+    
+    const { stderr, status } = deploy();
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('expected outputs are missing: dist/main.js, dist/**/*.css');
+    expect(existsSync(join(workspaceDir, 'deploy'))).toBe(false);
+  });
+  
+  test('gpd deploy fails if the build command fails', () => {
+    writeConfig({ command: 'exit 3' });
+    
+    const { stderr, status } = deploy();
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('Build failed (exit code 3): exit 3');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * E2E Tests for config schema validation (gpd config validate)
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-config');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+
+/**
+ * Run gpd and capture stdout, stderr and exit code
+ */
+function gpd(args: string): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync('sh', ['-c', `node "${GPD_CLI}" ${args}`], {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '0' }
+  });
+  return { stdout: result.stdout, stderr: result.stderr, status: result.status };
+}
+
+/**
+ * Write .git-deploy.json with a single service
+ */
+function writeConfig(service: Record<string, unknown>): void {
+  writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify({ services: { api: service } }, null, 2));
+}
+
+const validService = {
+  sourceDir: '.',
+  deployRepo: 'deploy',
+  processName: 'api',
+  processManager: 'pm2',
+  environment: 'production',
+  server: {
+    host: 'deploy@example.com',
+    targetDir: '/opt/api',
+    bareRepo: '/git/api.git'
+  }
+};
+
+describe('Config Validation', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd config validate accepts a valid config', () => {
+    writeConfig(validService);
+    
+    const { stdout, status } = gpd('config validate');
+    
+    expect(status).toBe(0);
+    expect(stdout).toContain('Config is valid');
+  });
+  
+  test('gpd config validate reports errors and unknown keys with JSON paths', () => {
+    const { processName, server, ...rest } = validService;
+    writeConfig({ ...rest, procesName: processName, servers: {}, processManager: 'forever' });
+    
+    const { stdout, status } = gpd('config validate --json');
+    
+    expect(status).toBe(1);
+    const result = JSON.parse(stdout.trim());
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      { severity: 'error', path: '$.services.api', message: 'missing required property "processName"' },
+      { severity: 'error', path: '$.services.api.servers', message: 'must be array, got object' },
+      expect.objectContaining({ path: '$.services.api.processManager', message: expect.stringContaining('"pm2"') })
+    ]));
+    expect(result.warnings).toEqual([
+      { severity: 'warning', path: '$.services.api.procesName', message: 'unknown property "procesName" (did you mean "processName"?)' }
+    ]);
+  });
+  
+  test('gpd config validate reports shell-unsafe values', () => {
+    writeConfig({ ...validService, processName: 'api; rm -rf /' });
+    
+    const { stdout, status } = gpd('config validate');
+    
+    expect(status).toBe(1);
+    expect(stdout).toContain('Invalid processName');
+  });
+  
+  test('other commands refuse an invalid config with the error location', () => {
+    writeConfig({ ...validService, server: { ...validService.server, targetDir: 42 } });
+    
+    const { stderr, status } = gpd('history api');
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('$.services.api.server.targetDir: must be string, got number');
+  });
+  
+  test('gpd config show resolves extends with deep-merged env and hooks', () => {
+    const { processName, ...base } = validService;
+    writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify({
+      templates: {
+        node: { ...base, env: { NODE_ENV: 'production', LOG_LEVEL: 'info' }, hooks: { postDeploy: ['npm ci'] } }
+      },
+      services: {
+        api: { extends: 'node', processName: 'api', env: { TOKEN: '${API_TOKEN}' } },
+        'api-staging': {
+          extends: 'api',
+          processName: 'api-staging',
+          env: { LOG_LEVEL: 'debug' },
+          servers: [{ host: 'deploy@staging', targetDir: '/opt/api', bareRepo: '/git/api.git' }]
+        }
+      }
+    }, null, 2));
+    
+    const { stdout, status } = gpd('config show api-staging --json');
+    
+    expect(status).toBe(0);
+    const result = JSON.parse(stdout.trim());
+    expect(result.service).toBe('api-staging');
+    expect(result.config.env).toEqual({ NODE_ENV: 'production', LOG_LEVEL: 'debug', TOKEN: '${API_TOKEN}' });
+    expect(result.config.hooks).toEqual({ postDeploy: ['npm ci'] });
+    expect(result.config.servers).toHaveLength(1);
+    expect(result.config.server).toBeUndefined();
+    expect(result.config.extends).toBeUndefined();
+  });
+  
+  test('gpd config validate reports circular extends', () => {
+    writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify({
+      services: {
+        a: { ...validService, extends: 'b' },
+        b: { ...validService, extends: 'a' }
+      }
+    }, null, 2));
+    
+    const { stdout, status } = gpd('config validate');
+    
+    expect(status).toBe(1);
+    expect(stdout).toContain('Circular extends in config: services.a -> services.b -> services.a');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * E2E Tests for deploy windows and change freezes (deploy, rollback, --override-freeze)
+ * 
+ * The "server" is a local bare repo whose post-receive hook writes the install status (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig as writeGpdConfig, writeBuild, createServer, serverCommit } from './helpers.js';
+
+const env = createTestEnv('windows');
+const server = serverConfig(env, 'web-1');
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+function errorMessage(events: Array<Record<string, any>>): string | undefined {
+  return events.find(event => event.event === 'error')?.message;
+}
+
+/**
+ * Write the config with the given deploy windows (root: per environment, service: own override)
+ */
+function writeConfig(windows: Record<string, unknown> | undefined, serviceWindows?: Record<string, unknown>): void {
+  writeGpdConfig(env, {
+    ...(windows ? { deployWindows: { production: windows } } : {}),
+    services: {
+      api: serviceConfig({
+        environment: 'production',
+        ...(serviceWindows ? { deployWindows: serviceWindows } : {}),
+        server
+      })
+    }
+  });
+}
+
+const FREEZE = { freeze: [{ from: '2000-01-01', to: '2999-12-31', reason: 'Release freeze' }] };
+
+describe('Deploy windows', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    createServer(server, { installStatus: true });
+    writeBuild(env, 'v1');
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('change freeze bounds with seconds or a UTC offset are refused', () => {
+    writeConfig({ freeze: [{ from: '2000-01-01T00:00:00', to: '2999-12-31T23:59+02:00' }] });
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    // Only YYYY-MM-DD and YYYY-MM-DDTHH:mm stamps order correctly against the current time
+    expect(errorMessage(events)).toContain('$.deployWindows.production.freeze[0].from: must match');
+    expect(errorMessage(events)).toContain('$.deployWindows.production.freeze[0].to: must match');
+    expect(existsSync(join(env.workspaceDir, 'deploy', 'api'))).toBe(false);
+  });
+  
+  test('gpd deploy refuses a change freeze unless overridden with a reason', () => {
+    writeConfig(FREEZE);
+    
+    const refused = gpd('deploy api');
+    expect(refused.status).toBe(1);
+    expect(errorMessage(refused.events)).toContain('Deploying production is not allowed now: change freeze 2000-01-01 to 2999-12-31 (Release freeze)');
+    expect(existsSync(join(env.workspaceDir, 'deploy', 'api'))).toBe(false);
+    
+    const noReason = gpd('deploy api --override-freeze');
+    expect(noReason.status).toBe(1);
+    expect(errorMessage(noReason.events)).toContain('--override-freeze requires --reason');
+    
+    const { events, status } = gpd('deploy api --override-freeze --reason "checkout outage"');
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'result')).toMatchObject({
+      success: true,
+      freezeOverride: { violation: 'change freeze 2000-01-01 to 2999-12-31 (Release freeze)', reason: 'checkout outage' }
+    });
+    expect(execSync(`git --git-dir="${server.bareRepo}" log -1 --format=%s`, { encoding: 'utf-8' }).trim()).toMatch(/\[override-freeze\]$/);
+  });
+  
+  test('gpd deploy only runs inside the allowed windows (service windows override the environment)', () => {
+    // A window twelve hours away from now (UTC)
+    const closedHour = (new Date().getUTCHours() + 12) % 24;
+    writeConfig({ timezone: 'UTC', allow: [`* ${closedHour} * * *`] });
+    
+    const refused = gpd('deploy api');
+    expect(refused.status).toBe(1);
+    expect(errorMessage(refused.events)).toMatch(/outside the deploy windows \(now \w{3} \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC, allowed: "\* \d+ \* \* \*"\)/);
+    
+    writeConfig({ timezone: 'UTC', allow: [`* ${closedHour} * * *`] }, { allow: ['*/1 0-23 1-31 * 0-7'] });
+    expect(gpd('deploy api').status).toBe(0);
+  });
+  
+  test('gpd rollback is refused during a freeze', () => {
+    writeConfig(undefined);
+    expect(gpd('deploy api').status).toBe(0);
+    const first = serverCommit(server);
+    writeBuild(env, 'v2');
+    expect(gpd('deploy api').status).toBe(0);
+    writeConfig(FREEZE);
+    
+    const refused = gpd(`rollback api ${first} --force`);
+    expect(refused.status).toBe(1);
+    expect(errorMessage(refused.events)).toContain('change freeze');
+    
+    const { events, status } = gpd(`rollback api ${first} --force --override-freeze --reason "bad release"`);
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'result')).toMatchObject({ rolledBack: true, freezeOverride: { reason: 'bad release' } });
+    expect(serverCommit(server)).toBe(first);
+  });
+  
+  test('invalid windows are config errors', () => {
+    writeConfig({ allow: ['* 25 * * *'], freeze: [{ from: 'christmas', to: '2025-12-26' }] });
+    
+    const { events, status } = gpd('config validate');
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'result')?.errors).toEqual([
+      expect.objectContaining({ path: '$.deployWindows.production.freeze[0].from' })
+    ]);
+    // Cron fields are checked when the windows are evaluated
+    writeConfig({ allow: ['* 25 * * *'] });
+    expect(errorMessage(gpd('deploy api').events)).toContain('Invalid deploy window "* 25 * * *": bad hour field "25" (0-23)');
+  });
+});
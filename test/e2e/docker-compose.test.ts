@@ -0,0 +1,144 @@
+/**
+ * E2E Tests for the docker (compose) process manager
+ * 
+ * Runs `gpd install` locally against a bare repo, with a fake `docker`
+ * binary on PATH that records its arguments instead of running containers.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-docker');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+const SERVICE_NAME = 'docker-test-service';
+
+const binDir = join(TEST_DIR, 'bin');
+const dockerLog = join(TEST_DIR, 'docker.log');
+const bareRepo = join(TEST_DIR, 'repo.git');
+const targetDir = join(TEST_DIR, 'target');
+
+/**
+ * Execute gpd install like the post-receive hook does
+ */
+function gpdInstall(): string {
+  return execSync(`node "${GPD_CLI}" install ${SERVICE_NAME}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      FORCE_COLOR: '0',
+      PATH: `${binDir}:${process.env.PATH}`,
+      GPD_TARGET_DIR: targetDir,
+      GPD_GIT_DIR: bareRepo,
+      GPD_SERVICE: SERVICE_NAME
+    }
+  });
+}
+
+/**
+ * Create fake docker binary that logs its arguments
+ */
+function setupFakeDocker(): void {
+  mkdirSync(binDir, { recursive: true });
+  const script = join(binDir, 'docker');
+  writeFileSync(script, `#!/bin/sh\necho "$@" >> "${dockerLog}"\n`);
+  chmodSync(script, 0o755);
+}
+
+/**
+ * Create bare repo with a deployed commit (what `gpd release` would push)
+ */
+function setupBareRepo(serviceConfig: Record<string, unknown>, files: Record<string, string> = {}): void {
+  const workDir = join(TEST_DIR, 'work');
+  mkdirSync(workDir, { recursive: true });
+  
+  writeFileSync(join(workDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      [SERVICE_NAME]: {
+        sourceDir: '.',
+        deployRepo: 'deploy',
+        artifacts: ['docker-compose.yml'],
+        processManager: 'docker',
+        processName: SERVICE_NAME,
+        environment: 'production',
+        server: {
+          host: 'deploy@localhost',
+          targetDir: '/opt/docker-test-service',
+          bareRepo: '/git/docker-test-service.git'
+        },
+        ...serviceConfig
+      }
+    }
+  }, null, 2));
+  writeFileSync(join(workDir, 'docker-compose.yml'), 'services:\n  app:\n    build: .\n');
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(workDir, name), content);
+  }
+  
+  execSync('git init -q', { cwd: workDir });
+  execSync('git add -A', { cwd: workDir });
+  execSync('git -c user.name=test -c user.email=test@example.com commit -q -m "deploy"', { cwd: workDir });
+  execSync(`git clone -q --bare "${workDir}" "${bareRepo}"`);
+}
+
+describe('Docker Process Manager', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(targetDir, { recursive: true });
+    setupFakeDocker();
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd install builds and starts compose project with .env', () => {
+    setupBareRepo({ env: { PORT: 3000 } });
+    
+    const output = gpdInstall();
+    expect(output).toContain(`Installed ${SERVICE_NAME}`);
+    expect(output).not.toContain('npm install');
+    
+    expect(readFileSync(join(targetDir, '.env'), 'utf-8')).toContain('PORT=3000');
+    
+    const calls = readFileSync(dockerLog, 'utf-8').trim().split('\n');
+    const compose = `compose -p ${SERVICE_NAME} -f docker-compose.yml`;
+    expect(calls).toEqual([
+      `${compose} --env-file .env build`,
+      `${compose} --env-file .env up -d --remove-orphans`,
+      `${compose} ps`
+    ]);
+  });
+  
+  test('gpd install loads image archive instead of building', () => {
+    setupBareRepo({ dockerImageArchive: 'image.tar' }, { 'image.tar': 'fake image' });
+    
+    gpdInstall();
+    
+    const calls = readFileSync(dockerLog, 'utf-8').trim().split('\n');
+    expect(calls[0]).toBe(`load -i ${join(targetDir, 'image.tar')}`);
+    expect(calls[1]).toBe(`compose -p ${SERVICE_NAME} -f docker-compose.yml up -d --remove-orphans`);
+  });
+  
+  test('gpd install records failure when image archive is missing', () => {
+    setupBareRepo({ dockerImageArchive: 'missing.tar' });
+    
+    expect(() => gpdInstall()).toThrow();
+    
+    const status = JSON.parse(readFileSync(join(targetDir, '.gpd-install.json'), 'utf-8'));
+    expect(status.success).toBe(false);
+    expect(status.error).toContain('missing.tar');
+  });
+});
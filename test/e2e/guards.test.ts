@@ -0,0 +1,121 @@
+/**
+ * E2E Tests for source guards (gpd deploy and release refuse dirty, off-branch or unpushed sources)
+ * 
+ * The "server" is a local bare repo (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig, writeBuild, createServer } from './helpers.js';
+
+const env = createTestEnv('guards');
+const server = serverConfig(env, 'web-1');
+const originRepo = join(env.dir, 'origin.git');
+
+/**
+ * Run a gpd command in the workspace (text output)
+ */
+function gpd(args: string) {
+  return runGpd(env, args, { json: false });
+}
+
+function deploy(args: string = '') {
+  return gpd(`deploy api ${args}`);
+}
+
+function git(args: string, cwd: string = env.workspaceDir): string {
+  return execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('Source Guards', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    createServer(server);
+    execSync(`git init -q --bare -b main "${originRepo}"`);
+    
+    writeBuild(env, 'v1');
+    writeFileSync(join(env.workspaceDir, '.gitignore'), 'deploy/\n');
+    writeConfig(env, {
+      guards: {
+        production: { requireClean: true, branches: ['main'], requirePushed: true }
+      },
+      services: {
+        api: serviceConfig({ deployRepo: 'deploy', environment: 'production', server })
+      }
+    });
+    git('init -q -b main');
+    git('add -A');
+    git('commit -q -m init');
+    git(`remote add origin "${originRepo}"`);
+    git('push -q -u origin main');
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd deploy passes guards for a clean, pushed main branch', () => {
+    expect(deploy('--skip-push').status).toBe(0);
+  });
+  
+  test('gpd deploy refuses a dirty, unpushed source on another branch', () => {
+    git('checkout -q -b feature');
+    writeBuild(env, 'v2');
+    git('commit -q -am wip');
+    writeFileSync(join(env.workspaceDir, 'dist', 'debug.js'), '');
+    
+    const { stderr, status } = deploy('--skip-push');
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('Source guards (production) failed');
+    expect(stderr).toContain('source has uncommitted changes');
+    expect(stderr).toContain('source is on branch feature, expected main');
+    expect(stderr).toContain('source is on branch feature without an upstream to check against');
+    expect(existsSync(join(env.workspaceDir, 'deploy'))).toBe(false);
+  });
+  
+  test('gpd deploy refuses a commit that is not on the upstream', () => {
+    writeBuild(env, 'v2');
+    git('commit -q -am v2');
+    const commit = git('rev-parse --short=7 HEAD');
+    
+    const { stderr, status } = deploy('--skip-push');
+    expect(status).toBe(1);
+    expect(stderr).toContain(`source commit ${commit} is not pushed to origin/main`);
+    
+    git('push -q');
+    expect(deploy('--skip-push').status).toBe(0);
+  });
+  
+  test('--allow-dirty deploys anyway and records the override', () => {
+    writeBuild(env, 'v2');
+    
+    const { stdout, status } = deploy('--allow-dirty --json');
+    
+    expect(status).toBe(0);
+    const result = stdout.trim().split('\n').map(line => JSON.parse(line)).find(event => event.event === 'result');
+    expect(result).toMatchObject({ success: true, guardOverrides: ['source has uncommitted changes'] });
+    expect(git('log -1 --format=%s', server.bareRepo)).toMatch(/^deploy: api @ .* \(source [0-9a-f]{7}-dirty\) \[allow-dirty\]$/);
+  });
+  
+  test('gpd release checks the guards of a staged release', () => {
+    expect(deploy('--skip-push').status).toBe(0);
+    writeFileSync(join(env.workspaceDir, 'dist', 'debug.js'), '');
+    
+    const { stderr, status } = gpd('release api');
+    expect(status).toBe(1);
+    expect(stderr).toContain('source has uncommitted changes');
+    expect(git('rev-list --all --count', server.bareRepo)).toBe('0');
+    
+    const { stdout, status: allowStatus } = gpd('release api --allow-dirty --json');
+    expect(allowStatus).toBe(0);
+    const result = stdout.trim().split('\n').map(line => JSON.parse(line)).find(event => event.event === 'result');
+    expect(result).toMatchObject({ success: true, guardOverrides: ['source has uncommitted changes'] });
+    expect(git('log -1 --format=%s', server.bareRepo)).toMatch(/\[allow-dirty\]$/);
+  });
+});
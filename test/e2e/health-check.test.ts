@@ -0,0 +1,176 @@
+/**
+ * E2E Tests for the post-push health check (healthUrl polled on the server) and autoRollback
+ * 
+ * The "server" is a local bare repo whose post-receive hook writes the install status (see helpers.ts),
+ * and a fake `curl` answers with the status code in a file.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig as writeGpdConfig, writeBuild, writeExecutable, createServer, failInstallFile, serverCommit, headCommit } from './helpers.js';
+
+const env = createTestEnv('health');
+const server = serverConfig(env, 'web-1');
+const deployRepo = join(env.workspaceDir, 'deploy', 'api');
+const healthStatusFile = join(env.dir, 'health-status');
+const healthCallsFile = join(env.dir, 'health-calls');
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+/**
+ * HTTP status the health URL answers with (000 = no response, like curl)
+ */
+function setHealth(status: string): void {
+  writeFileSync(healthStatusFile, status);
+}
+
+function writeConfig(service: Record<string, unknown> = {}): void {
+  writeGpdConfig(env, {
+    services: {
+      api: serviceConfig({
+        healthUrl: 'http://localhost:3000/health',
+        healthTimeout: 1,
+        healthInterval: 0.2,
+        server,
+        ...service
+      })
+    }
+  });
+}
+
+/**
+ * Deploy a new build and return its deploy repo commit
+ */
+function deploy(build: string, args = ''): { events: Array<Record<string, any>>; status: number | null; commit: string } {
+  writeBuild(env, build);
+  const result = gpd(`deploy api ${args}`.trim());
+  return { ...result, commit: headCommit(deployRepo) };
+}
+
+function healthCalls(): number {
+  return existsSync(healthCallsFile) ? readFileSync(healthCallsFile, 'utf-8').split('\n').filter(Boolean).length : 0;
+}
+
+describe('Health check', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    writeExecutable(join(env.binDir, 'curl'), `#!/bin/sh\necho "$@" >> "${healthCallsFile}"\ncat "${healthStatusFile}"\n`);
+    createServer(server, { installStatus: true });
+    writeBuild(env, 'v1');
+    writeConfig();
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('a healthy server verifies the deployment', () => {
+    setHealth('200');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'result')).toMatchObject({
+      success: true,
+      verified: true,
+      serverResults: [expect.objectContaining({ server: 'web-1', status: 'deployed', healthy: true })]
+    });
+    expect(readFileSync(healthCallsFile, 'utf-8')).toContain('http://localhost:3000/health');
+    expect(healthCalls()).toBe(1);
+  });
+  
+  test('a failing health URL is polled until the timeout and fails the deploy', () => {
+    setHealth('503');
+    
+    const start = Date.now();
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(800);
+    expect(healthCalls()).toBeGreaterThan(1);
+    expect(events.find(event => event.event === 'server')).toMatchObject({
+      server: 'web-1',
+      status: 'failed',
+      error: 'Health check failed after 1s (last status 503)'
+    });
+    expect(events.find(event => event.event === 'result')).toMatchObject({
+      success: false,
+      verified: false,
+      message: 'Health check failed on: web-1',
+      serverResults: [expect.objectContaining({ server: 'web-1', status: 'unhealthy', healthy: false })]
+    });
+  });
+  
+  test('a health URL without response times out', () => {
+    setHealth('000');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'server')?.error).toBe('Health check failed after 1s (no response)');
+  });
+  
+  test('autoRollback reverts a server that fails its health check', () => {
+    writeConfig({ autoRollback: true });
+    setHealth('200');
+    const first = deploy('v1');
+    expect(first.status).toBe(0);
+    
+    setHealth('503');
+    const second = deploy('v2');
+    
+    expect(second.status).toBe(1);
+    expect(second.events.filter(event => event.event === 'server').map(event => event.status)).toEqual(['failed', 'rolledBack']);
+    expect(second.events.find(event => event.event === 'result')).toMatchObject({
+      success: false,
+      rolledBack: true,
+      rolledBackTo: first.commit.substring(0, 7),
+      serverResults: [expect.objectContaining({ server: 'web-1', status: 'unhealthy', rolledBack: true, commitHash: first.commit.substring(0, 7) })]
+    });
+    expect(serverCommit(server)).toBe(first.commit);
+    // The local deploy repo follows the servers
+    expect(second.commit).toBe(first.commit);
+  });
+  
+  test('autoRollback deletes the tag of the rolled back release', () => {
+    writeConfig({ autoRollback: true });
+    setHealth('200');
+    deploy('v1', '--tag v1');
+    
+    setHealth('503');
+    const second = deploy('v2', '--tag v2');
+    
+    expect(second.status).toBe(1);
+    expect(execSync('git tag -l', { cwd: deployRepo, encoding: 'utf-8' }).trim()).toBe('v1');
+    expect(execSync(`git --git-dir="${server.bareRepo}" tag -l`, { encoding: 'utf-8' }).trim()).toBe('v1');
+    
+    // The tag can be used again for the next attempt
+    setHealth('200');
+    expect(deploy('v2', '--tag v2').status).toBe(0);
+  });
+  
+  test('autoRollback is incomplete if the install of the previous commit fails', () => {
+    writeConfig({ autoRollback: true });
+    setHealth('200');
+    const first = deploy('v1');
+    
+    writeFileSync(failInstallFile(server), '');
+    const second = deploy('v2');
+    
+    expect(second.status).toBe(1);
+    expect(second.events.find(event => event.event === 'server' && event.status === 'rollbackFailed')?.error).toBe('Install failed: npm install failed');
+    const result = second.events.find(event => event.event === 'result');
+    expect(result).toMatchObject({ success: false });
+    expect(result?.rolledBack).toBeUndefined();
+    expect(result?.message).toContain(`Rollback to ${first.commit.substring(0, 7)} incomplete (reverted: none)`);
+    // The local deploy repo is not reset while a server is not back on the previous commit
+    expect(second.commit).not.toBe(first.commit);
+  });
+});
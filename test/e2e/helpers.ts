@@ -0,0 +1,178 @@
+/**
+ * Shared harness of the e2e tests that deploy to "servers"
+ * 
+ * Each test file gets a temp dir (test/e2e/tmp-<name>) with a workspace and a bin dir that comes
+ * first on PATH. Its fake `ssh` runs the remote command locally, so the servers are local bare repos.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ */
+
+import { execSync, spawnSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+export const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+
+export type GpdEvent = Record<string, any>;
+
+/**
+ * Outcome of a gpd run (events: the JSON lines of a --json run)
+ */
+export interface GpdRun {
+  events: GpdEvent[];
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Temp dir of a test file
+ */
+export interface TestEnv {
+  dir: string;
+  /** Fake binaries, first on PATH */
+  binDir: string;
+  /** Where gpd runs (holds .git-deploy.json and the dist/ build) */
+  workspaceDir: string;
+}
+
+/**
+ * Git author and committer for deploy repo commits
+ */
+export function gitIdentity(name: string, email: string = `${name}@example.com`): Record<string, string> {
+  return { GIT_AUTHOR_NAME: name, GIT_AUTHOR_EMAIL: email, GIT_COMMITTER_NAME: name, GIT_COMMITTER_EMAIL: email };
+}
+
+export function createTestEnv(name: string): TestEnv {
+  const dir = join(process.cwd(), 'test', 'e2e', `tmp-${name}`);
+  return { dir, binDir: join(dir, 'bin'), workspaceDir: join(dir, 'workspace') };
+}
+
+/**
+ * Recreate the temp dir with the fake ssh and an empty workspace (beforeEach)
+ */
+export function resetTestEnv(env: TestEnv): void {
+  removeTestEnv(env);
+  mkdirSync(env.binDir, { recursive: true });
+  mkdirSync(env.workspaceDir, { recursive: true });
+  // ssh [options] host "command" -> run command locally
+  writeExecutable(join(env.binDir, 'ssh'), '#!/bin/sh\nfor last; do :; done\nexec sh -c "$last"\n');
+}
+
+/**
+ * Remove the temp dir (afterAll)
+ */
+export function removeTestEnv(env: TestEnv): void {
+  if (existsSync(env.dir)) {
+    rmSync(env.dir, { recursive: true });
+  }
+}
+
+export function writeExecutable(path: string, script: string): void {
+  writeFileSync(path, script);
+  chmodSync(path, 0o755);
+}
+
+/**
+ * Run gpd in the workspace as the "test" git identity
+ * @param options.json Add --json and parse the events (default: true)
+ * @param options.env Extra environment (e.g. another gitIdentity)
+ */
+export function runGpd(
+  env: TestEnv,
+  args: string,
+  options: { json?: boolean; env?: Record<string, string>; cwd?: string } = {}
+): GpdRun {
+  const json = options.json ?? true;
+  const result = spawnSync('sh', ['-c', `node "${GPD_CLI}" ${args}${json ? ' --json' : ''}`], {
+    cwd: options.cwd || env.workspaceDir,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      FORCE_COLOR: '0',
+      PATH: `${env.binDir}:${process.env.PATH}`,
+      ...gitIdentity('test'),
+      ...options.env
+    }
+  });
+  const events = json ? result.stdout.trim().split('\n').filter(line => line).map(line => JSON.parse(line)) : [];
+  return { events, status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+export function findEvent(events: GpdEvent[], name: string): GpdEvent | undefined {
+  return events.find(event => event.event === name);
+}
+
+/**
+ * Server of a service config: bare repo <dir>/<name>.git, target dir <dir>/<name>
+ */
+export function serverConfig(env: TestEnv, name: string): { name: string; host: string; targetDir: string; bareRepo: string } {
+  return { name, host: `deploy@${name}`, targetDir: join(env.dir, name), bareRepo: join(env.dir, `${name}.git`) };
+}
+
+/**
+ * Service config built from the workspace's dist/ (overrides replace the defaults)
+ */
+export function serviceConfig(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { sourceDir: '.', deployRepo: 'deploy/api', artifacts: ['dist'], processName: 'api', ...overrides };
+}
+
+/**
+ * Write the workspace's .git-deploy.json
+ */
+export function writeConfig(env: TestEnv, config: Record<string, unknown>): void {
+  writeFileSync(join(env.workspaceDir, '.git-deploy.json'), JSON.stringify(config, null, 2));
+}
+
+/**
+ * Write the build to deploy (dist/main.js)
+ */
+export function writeBuild(env: TestEnv, content: string): void {
+  mkdirSync(join(env.workspaceDir, 'dist'), { recursive: true });
+  writeFileSync(join(env.workspaceDir, 'dist', 'main.js'), content);
+}
+
+/**
+ * Create the bare repo of a server
+ * With installStatus, its post-receive hook stands in for `gpd install` and writes the install status
+ * (failed while the server's fail-install file exists, see failInstallFile).
+ */
+export function createServer(server: { targetDir: string; bareRepo: string }, options: { installStatus?: boolean } = {}): void {
+  execSync(`git init -q --bare "${server.bareRepo}"`);
+  if (!options.installStatus) return;
+  writeExecutable(join(server.bareRepo, 'hooks', 'post-receive'), `#!/bin/sh
+mkdir -p "${server.targetDir}"
+success=true; [ -f "${failInstallFile(server)}" ] && success=false
+printf '{"commit":"%s","success":%s,"timestamp":"2025-01-01T00:00:00Z","error":"npm install failed"}' "$(git rev-parse HEAD)" "$success" > "${server.targetDir}/.gpd-install.json"
+`);
+}
+
+/**
+ * While this file exists, the server's install fails (see createServer)
+ */
+export function failInstallFile(server: { bareRepo: string }): string {
+  return `${server.bareRepo}.fail-install`;
+}
+
+/**
+ * Make a server reject pushes
+ */
+export function rejectPushes(server: { bareRepo: string }): void {
+  writeExecutable(join(server.bareRepo, 'hooks', 'pre-receive'), '#!/bin/sh\nexit 1\n');
+}
+
+/**
+ * Commit a server's bare repo is on (undefined if nothing was pushed)
+ */
+export function serverCommit(server: { bareRepo: string }, ref: string = 'HEAD'): string | undefined {
+  const result = spawnSync('git', [`--git-dir=${server.bareRepo}`, 'rev-parse', '--verify', '-q', `${ref}^{commit}`], { encoding: 'utf-8' });
+  return result.status === 0 ? result.stdout.trim() : undefined;
+}
+
+/**
+ * HEAD of a local repo (e.g. the deploy repo)
+ */
+export function headCommit(repoDir: string): string {
+  return execSync('git rev-parse HEAD', { cwd: repoDir, encoding: 'utf-8' }).trim();
+}
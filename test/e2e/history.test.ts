@@ -0,0 +1,150 @@
+/**
+ * E2E Tests for the deployment history (ledger written by gpd install, read by gpd history)
+ * 
+ * `gpd install` runs locally against a bare repo, with a fake `docker` binary on PATH
+ * (the docker process manager needs no npm install). `gpd history` reads the ledger
+ * of a local "server" (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { mkdirSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, findEvent, serverConfig, serviceConfig, writeConfig, writeExecutable } from './helpers.js';
+
+const env = createTestEnv('history');
+const server = serverConfig(env, 'web-1');
+const ledger = join(server.targetDir, '.gpd-history.jsonl');
+
+/**
+ * Run gpd install like the post-receive hook does
+ */
+function gpdInstall() {
+  return runGpd(env, 'install api', {
+    json: false,
+    env: { GPD_TARGET_DIR: server.targetDir, GPD_GIT_DIR: server.bareRepo, GPD_SERVICE: 'api' }
+  });
+}
+
+/**
+ * Create the server's bare repo with a deployed commit of a docker service (what `gpd release` would push)
+ */
+function setupBareRepo(service: Record<string, unknown>): void {
+  const workDir = join(env.dir, 'work');
+  mkdirSync(workDir, { recursive: true });
+  writeFileSync(join(workDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      api: { sourceDir: '.', deployRepo: 'deploy', artifacts: ['docker-compose.yml'], processManager: 'docker', processName: 'api', server, ...service }
+    }
+  }, null, 2));
+  writeFileSync(join(workDir, 'docker-compose.yml'), 'services:\n  app:\n    build: .\n');
+  
+  execSync('git init -q', { cwd: workDir });
+  execSync('git add -A', { cwd: workDir });
+  execSync('git -c user.name=test -c user.email=test@example.com commit -q -m "deploy"', { cwd: workDir });
+  execSync(`git clone -q --bare "${workDir}" "${server.bareRepo}"`);
+}
+
+/**
+ * Write the server's ledger, one entry per [timestamp, outcome]
+ */
+function writeLedger(entries: Array<[string, 'success' | 'failed']>): void {
+  writeFileSync(ledger, entries.map(([timestamp, outcome], index) => JSON.stringify({
+    commit: String(index + 1).repeat(40),
+    deployer: 'test',
+    message: `deploy ${index + 1}`,
+    timestamp,
+    durationMs: 1000,
+    outcome
+  }) + '\n').join(''));
+}
+
+/**
+ * Run gpd history --json and return the timestamps of the server's entries
+ */
+function history(args: string = ''): string[] {
+  const { events, status } = runGpd(env, `history api ${args}`);
+  expect(status).toBe(0);
+  return findEvent(events, 'result')?.servers[0].entries.map((entry: { timestamp: string }) => entry.timestamp);
+}
+
+describe('Deployment history', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    mkdirSync(server.targetDir, { recursive: true });
+    writeExecutable(join(env.binDir, 'docker'), '#!/bin/sh\nexit 0\n');
+    writeConfig(env, { services: { api: serviceConfig({ server }) } });
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd install appends outcome and hook results to history ledger', () => {
+    setupBareRepo({ hooks: { postDeploy: ['true', 'false'] } });
+    
+    expect(gpdInstall().status).toBe(0);
+    
+    const lines = readFileSync(ledger, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({ deployer: 'test', message: 'deploy', outcome: 'success' });
+    expect(entry.commit).toMatch(/^[0-9a-f]{40}$/);
+    expect(entry.hooks.map((hook: { command: string; success: boolean }) => [hook.command, hook.success])).toEqual([
+      ['true', true],
+      ['false', false]
+    ]);
+  });
+  
+  test('gpd install records failed installs in history ledger', () => {
+    setupBareRepo({ dockerImageArchive: 'missing.tar' });
+    
+    expect(gpdInstall().status).toBe(1);
+    
+    const entry = JSON.parse(readFileSync(ledger, 'utf-8').trim());
+    expect(entry.outcome).toBe('failed');
+    expect(entry.error).toContain('missing.tar');
+  });
+  
+  test('gpd history reads the ledger of each server, oldest first', () => {
+    writeLedger([['2025-01-30T10:00:00Z', 'success'], ['2025-01-31T10:00:00Z', 'failed']]);
+    
+    const { events, status } = runGpd(env, 'history api');
+    
+    expect(status).toBe(0);
+    expect(findEvent(events, 'result')).toMatchObject({
+      service: 'api',
+      servers: [{ server: 'web-1', entries: [{ message: 'deploy 1', outcome: 'success' }, { message: 'deploy 2', outcome: 'failed' }] }]
+    });
+    
+    const text = runGpd(env, 'history api', { json: false });
+    expect(text.stdout).toContain('Deployment history for api on web-1:');
+    // Newest first
+    expect(text.stdout.indexOf('deploy 2')).toBeLessThan(text.stdout.indexOf('deploy 1'));
+  });
+  
+  test('gpd history filters by date, outcome and count', () => {
+    writeLedger([
+      ['2025-01-30T23:59:59Z', 'success'],
+      ['2025-01-31T00:00:00Z', 'failed'],
+      ['2025-01-31T23:59:59Z', 'success'],
+      ['2025-02-01T00:00:00Z', 'success']
+    ]);
+    
+    expect(history('--since 2025-01-31')).toEqual(['2025-01-31T00:00:00Z', '2025-01-31T23:59:59Z', '2025-02-01T00:00:00Z']);
+    // A date-only --until includes that whole day
+    expect(history('--until 2025-01-31')).toEqual(['2025-01-30T23:59:59Z', '2025-01-31T00:00:00Z', '2025-01-31T23:59:59Z']);
+    expect(history('--since 2025-01-31 --until 2025-01-31')).toEqual(['2025-01-31T00:00:00Z', '2025-01-31T23:59:59Z']);
+    expect(history('--until 2025-01-31T12:00:00Z')).toEqual(['2025-01-30T23:59:59Z', '2025-01-31T00:00:00Z']);
+    expect(history('--outcome failed')).toEqual(['2025-01-31T00:00:00Z']);
+    expect(history('--outcome success --lines 2')).toEqual(['2025-01-31T23:59:59Z', '2025-02-01T00:00:00Z']);
+    expect(history('--since 1d')).toEqual([]);
+    
+    const invalid = runGpd(env, 'history api --outcome skipped');
+    expect(invalid.status).toBe(1);
+    expect(findEvent(invalid.events, 'error')?.message).toContain('Invalid outcome: "skipped"');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * E2E Tests for the global --json / --quiet output modes
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync, spawnSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-json');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+const SERVICE_NAME = 'json-test-service';
+
+/**
+ * Run gpd and capture stdout, stderr and exit code
+ */
+function gpd(args: string): { stdout: string; stderr: string; status: number | null } {
+  const result = spawnSync('sh', ['-c', `node "${GPD_CLI}" ${args}`], {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '1' }
+  });
+  return { stdout: result.stdout, stderr: result.stderr, status: result.status };
+}
+
+/**
+ * Parse JSON lines output
+ */
+function parseEvents(stdout: string): Array<Record<string, any>> {
+  return stdout.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('JSON Output', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    const deployRepo = join(TEST_DIR, 'deploy');
+    mkdirSync(deployRepo, { recursive: true });
+    
+    writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify({
+      services: {
+        [SERVICE_NAME]: {
+          sourceDir: '.',
+          deployRepo: 'deploy',
+          processName: SERVICE_NAME,
+          server: {
+            host: 'deploy@localhost',
+            targetDir: '/opt/json-test-service',
+            bareRepo: '/git/json-test-service.git'
+          }
+        }
+      }
+    }, null, 2));
+    
+    execSync('git init -q -b master', { cwd: deployRepo });
+    for (const version of ['1', '2']) {
+      writeFileSync(join(deployRepo, 'VERSION'), version);
+      execSync('git add -A', { cwd: deployRepo });
+      execSync(`git -c user.name=test -c user.email=test@example.com commit -q -m "v${version}"`, { cwd: deployRepo });
+    }
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('rollback --list --json emits a single uncoloured result', () => {
+    const { stdout, status } = gpd(`rollback ${SERVICE_NAME} --list --json`);
+    
+    expect(status).toBe(0);
+    const events = parseEvents(stdout);
+    expect(events).toHaveLength(1);
+    expect(events[0].event).toBe('result');
+    expect(events[0].service).toBe(SERVICE_NAME);
+    expect(events[0].versions.map((v: { message: string }) => v.message)).toEqual(['v2', 'v1']);
+    expect(stdout).not.toContain('\u001b[');
+  });
+  
+  test('errors are emitted as error event with non-zero exit code', () => {
+    const { stdout, status } = gpd('--json rollback unknown-service --list');
+    
+    expect(status).toBe(1);
+    const [event] = parseEvents(stdout);
+    expect(event.event).toBe('error');
+    expect(event.message).toContain('unknown-service');
+  });
+  
+  test('--quiet suppresses progress output', () => {
+    const { stdout, stderr, status } = gpd(`rollback ${SERVICE_NAME} --list --quiet`);
+    
+    expect(status).toBe(0);
+    expect(stdout).toBe('');
+    expect(stderr).toBe('');
+  });
+  
+  test('rollback --json refuses to prompt', () => {
+    const { stdout, status } = gpd(`rollback ${SERVICE_NAME} --json`);
+    
+    expect(status).toBe(1);
+    expect(parseEvents(stdout)[0].message).toContain('--force');
+  });
+});
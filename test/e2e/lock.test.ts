@@ -0,0 +1,143 @@
+/**
+ * E2E Tests for deployment locking (gpd deploy, gpd install, gpd lock/unlock)
+ * 
+ * The "servers" are local bare repos (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig, writeBuild, writeExecutable, createServer } from './helpers.js';
+
+const env = createTestEnv('lock');
+const server = serverConfig(env, 'web-1');
+const lockFile = join(server.targetDir, '.gpd-lock.json');
+
+/**
+ * Run gpd with --json in the workspace (the git identity is also the lock holder)
+ */
+function gpd(args: string, identity: Record<string, string> = {}) {
+  return runGpd(env, args, { env: identity });
+}
+
+/**
+ * Run gpd install as the post-receive hook does (plain text output)
+ */
+function install(hookEnv: Record<string, string> = {}) {
+  return runGpd(env, 'install api', {
+    json: false,
+    env: { GPD_TARGET_DIR: server.targetDir, GPD_GIT_DIR: server.bareRepo, GPD_SERVICE: 'api', ...hookEnv }
+  });
+}
+
+function errorMessage(events: Array<Record<string, any>>): string | undefined {
+  return events.find(event => event.event === 'error')?.message;
+}
+
+/**
+ * Write a lock as another deployer would have left it
+ */
+function writeLock(lock: Record<string, unknown>): void {
+  mkdirSync(server.targetDir, { recursive: true });
+  writeFileSync(lockFile, JSON.stringify({ id: 'other', holder: 'alice', hostname: 'alice-laptop', ...lock }));
+}
+
+describe('Deployment locking', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    createServer(server);
+    
+    writeBuild(env, 'v1');
+    writeConfig(env, { services: { api: serviceConfig({ server }) } });
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd lock freezes deploys until gpd unlock', () => {
+    const locked = gpd('lock api --reason "database migration"');
+    expect(locked.status).toBe(0);
+    expect(JSON.parse(readFileSync(lockFile, 'utf-8'))).toMatchObject({ holder: 'test', operation: 'maintenance', reason: 'database migration' });
+    
+    const refused = gpd('deploy api');
+    expect(refused.status).toBe(1);
+    expect(errorMessage(refused.events)).toMatch(/Deployment locked on web-1 by test \(maintenance from .+ since .+\): database migration$/);
+    expect(existsSync(join(env.workspaceDir, 'deploy', 'api'))).toBe(false);
+    
+    expect(gpd('unlock api').status).toBe(0);
+    const deployed = gpd('deploy api');
+    expect(deployed.status).toBe(0);
+    expect(deployed.events.find(event => event.event === 'locked')).toMatchObject({ holder: 'test' });
+    // Released after the deploy
+    expect(existsSync(lockFile)).toBe(false);
+  });
+  
+  test('gpd deploy refuses a live deploy lock and takes over a stale one', () => {
+    writeLock({ operation: 'deploy', acquiredAt: new Date().toISOString(), timeout: 1800 });
+    
+    const refused = gpd('deploy api');
+    expect(refused.status).toBe(1);
+    expect(errorMessage(refused.events)).toContain('Deployment locked on web-1 by alice (deploy from alice-laptop');
+    const unlock = gpd('unlock api');
+    expect(unlock.status).toBe(1);
+    expect(existsSync(lockFile)).toBe(true);
+    
+    writeLock({ operation: 'deploy', acquiredAt: new Date(Date.now() - 3600 * 1000).toISOString(), timeout: 1800 });
+    const deployed = gpd('deploy api');
+    expect(deployed.status).toBe(0);
+    expect(deployed.events.find(event => event.event === 'warning')?.message).toContain('Broke stale lock on web-1: alice');
+    expect(existsSync(lockFile)).toBe(false);
+  });
+  
+  test('gpd unlock --force removes a live lock', () => {
+    writeLock({ operation: 'install', acquiredAt: new Date().toISOString(), timeout: 1800 });
+    
+    const { events, status } = gpd('unlock api --force');
+    
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'result')?.servers).toEqual([{ server: 'web-1', removed: true, holder: 'alice' }]);
+    expect(existsSync(lockFile)).toBe(false);
+  });
+  
+  test('gpd install (post-receive hook) refuses to run while someone else holds the lock', () => {
+    expect(gpd('deploy api').status).toBe(0);
+    writeLock({ operation: 'maintenance', acquiredAt: new Date().toISOString() });
+    
+    const result = install();
+    
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('Deployment locked by alice (maintenance from alice-laptop');
+    expect(JSON.parse(readFileSync(join(server.targetDir, '.gpd-install.json'), 'utf-8'))).toMatchObject({ success: false });
+    // The maintenance lock is left alone
+    expect(JSON.parse(readFileSync(lockFile, 'utf-8'))).toMatchObject({ id: 'other' });
+  });
+  
+  test('gpd deploy sends its lock id with the push', () => {
+    writeExecutable(join(server.bareRepo, 'hooks', 'post-receive'), `#!/bin/sh\necho "$GIT_PUSH_OPTION_COUNT $GIT_PUSH_OPTION_0" > "${env.dir}/push-options"\n`);
+    
+    expect(gpd('deploy api').status).toBe(0);
+    
+    expect(readFileSync(join(env.dir, 'push-options'), 'utf-8').trim()).toMatch(/^1 gpd-lock=[0-9a-f]{16}$/);
+  });
+  
+  test('gpd install only runs under the deploy lock whose id came with the push', () => {
+    expect(gpd('deploy api').status).toBe(0);
+    // Held by someone with the same name as the deployer
+    writeLock({ holder: 'test', operation: 'deploy', acquiredAt: new Date().toISOString(), timeout: 1800 });
+    // Without a package.json in the target dir, a real npm install would run in an enclosing project
+    writeExecutable(join(env.binDir, 'npm'), '#!/bin/sh\nexit 0\n');
+    
+    const otherLock = install({ GIT_PUSH_OPTION_COUNT: '1', GIT_PUSH_OPTION_0: 'gpd-lock=mine' });
+    expect(otherLock.status).toBe(1);
+    expect(otherLock.stderr).toContain('Deployment locked by test (deploy from alice-laptop');
+    
+    const ownLock = install({ GIT_PUSH_OPTION_COUNT: '1', GIT_PUSH_OPTION_0: 'gpd-lock=other' });
+    expect(ownLock.stderr).not.toContain('Deployment locked');
+    // Left for the deploy to release
+    expect(JSON.parse(readFileSync(lockFile, 'utf-8'))).toMatchObject({ id: 'other' });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * E2E Tests for the per-service manifest (.gpd-manifest.json)
+ * 
+ * Stages a service, pushes the deploy repo to a local bare repo and runs `gpd install`
+ * like the post-receive hook does. Uses the docker process manager with a fake `docker`
+ * binary on PATH, so no npm install or running process is needed.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-manifest');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+
+const binDir = join(TEST_DIR, 'bin');
+const workspaceDir = join(TEST_DIR, 'workspace');
+const deployRepo = join(workspaceDir, 'api', 'deploy');
+const bareRepo = join(TEST_DIR, 'repo.git');
+const targetDir = join(TEST_DIR, 'target');
+const keyFile = join(TEST_DIR, 'secrets.key');
+
+/**
+ * Run gpd with the test key file and fake docker binary
+ */
+function gpd(args: string, cwd: string, env: Record<string, string> = {}): string {
+  return execSync(`node "${GPD_CLI}" ${args}`, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      FORCE_COLOR: '0',
+      PATH: `${binDir}:${process.env.PATH}`,
+      GPD_SECRETS_KEY_FILE: keyFile,
+      ...env
+    }
+  });
+}
+
+/**
+ * Create a workspace with two services and a secret
+ */
+function setup(): void {
+  mkdirSync(binDir, { recursive: true });
+  writeFileSync(join(binDir, 'docker'), '#!/bin/sh\nexit 0\n');
+  chmodSync(join(binDir, 'docker'), 0o755);
+  
+  mkdirSync(join(workspaceDir, 'api'), { recursive: true });
+  writeFileSync(join(workspaceDir, 'api', 'docker-compose.yml'), 'services:\n  app:\n    build: .\n');
+  writeFileSync(join(workspaceDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      api: {
+        sourceDir: 'api',
+        deployRepo: 'deploy',
+        artifacts: ['docker-compose.yml'],
+        processManager: 'docker',
+        processName: 'api',
+        env: { PORT: 3000, DB_PASSWORD: '${secret:DB_PASSWORD}', REGION: '${GPD_TEST_REGION}' },
+        hooks: { preDeploy: ['npm run build'], postDeploy: ['true'] },
+        notifications: { slack: { webhookUrl: '${secret:SLACK_WEBHOOK}' } },
+        server: { host: 'deploy@api.internal', targetDir: '/opt/api', bareRepo: '/git/api.git' }
+      },
+      billing: {
+        sourceDir: 'billing',
+        deployRepo: 'deploy',
+        processName: 'billing',
+        server: { host: 'deploy@billing.internal', targetDir: '/opt/billing', bareRepo: '/git/billing.git' }
+      }
+    }
+  }, null, 2));
+  
+  gpd('secrets set DB_PASSWORD s3cr3t-pw', workspaceDir);
+  gpd('secrets set SLACK_WEBHOOK https://hooks.example.com/x', workspaceDir);
+  gpd('secrets set UNUSED other', workspaceDir);
+  execSync(`git init -q --bare -b master "${bareRepo}"`);
+}
+
+describe('Service Manifest', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(targetDir, { recursive: true });
+    setup();
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd stage writes a minimal manifest instead of the workspace config', () => {
+    gpd('stage api', workspaceDir, { GPD_TEST_REGION: 'eu' });
+    
+    expect(existsSync(join(deployRepo, '.git-deploy.json'))).toBe(false);
+    expect(existsSync(join(deployRepo, '.git-deploy.secrets.json'))).toBe(false);
+    
+    const content = readFileSync(join(deployRepo, '.gpd-manifest.json'), 'utf-8');
+    expect(content).not.toContain('billing');
+    expect(content).not.toContain('api.internal');
+    expect(content).not.toContain('s3cr3t-pw');
+    
+    const manifest = JSON.parse(content);
+    expect(manifest.service).toBe('api');
+    expect(manifest.config).toMatchObject({ processName: 'api', env: { REGION: '${GPD_TEST_REGION}' }, hooks: { postDeploy: ['true'] } });
+    expect(manifest.config.hooks.preDeploy).toBeUndefined();
+    expect(manifest.config.notifications).toBeUndefined();
+    expect(manifest.config.sourceDir).toBeUndefined();
+    expect(Object.keys(manifest.secrets.secrets)).toEqual(['DB_PASSWORD']);
+  });
+  
+  test('gpd install reads the manifest and decrypts secrets into .env', () => {
+    gpd('stage api', workspaceDir, { GPD_TEST_REGION: 'eu' });
+    execSync('git add -A && git -c user.name=test -c user.email=test@example.com commit -q -m deploy', { cwd: deployRepo });
+    execSync(`git push -q "${bareRepo}" HEAD:master`, { cwd: deployRepo });
+    
+    gpd('install api', TEST_DIR, {
+      GPD_TARGET_DIR: targetDir,
+      GPD_GIT_DIR: bareRepo,
+      GPD_SERVICE: 'api',
+      GPD_TEST_REGION: 'us'
+    });
+    
+    const env = readFileSync(join(targetDir, '.env'), 'utf-8');
+    expect(env).toContain('PORT=3000');
+    expect(env).toContain('DB_PASSWORD=s3cr3t-pw');
+    expect(env).toContain('REGION=us');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * E2E Tests for gpd promote (ship the verified staging release to production)
+ * 
+ * The "servers" are local bare repos whose post-receive hook writes the install status (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig, writeBuild, createServer, serverCommit } from './helpers.js';
+
+const env = createTestEnv('promote');
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+function bareRepo(service: string): string {
+  return serverConfig(env, service).bareRepo;
+}
+
+/**
+ * Read a file from a server's deployed commit
+ */
+function serverFile(service: string, path: string): string {
+  return execSync(`git --git-dir="${bareRepo(service)}" show HEAD:${path}`, { encoding: 'utf-8' });
+}
+
+function service(name: string, environment: string): Record<string, unknown> {
+  return serviceConfig({
+    deployRepo: `deploy/${name}`,
+    environment,
+    env: { APP_ENV: environment },
+    server: serverConfig(env, name)
+  });
+}
+
+describe('Promote', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    for (const name of ['staging', 'production']) {
+      createServer(serverConfig(env, name), { installStatus: true });
+    }
+    
+    writeBuild(env, 'tested');
+    writeConfig(env, {
+      services: {
+        staging: service('staging', 'staging'),
+        production: service('production', 'production')
+      }
+    });
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd promote ships the live staging tree with the production manifest', () => {
+    expect(gpd('deploy staging').status).toBe(0);
+    // A newer local build must not leak into production
+    writeBuild(env, 'untested');
+    
+    const { events, status } = gpd('promote staging production');
+    
+    expect(status).toBe(0);
+    const stagingCommit = serverCommit(serverConfig(env, 'staging'));
+    expect(events.find(event => event.event === 'result')).toMatchObject({
+      service: 'production',
+      success: true,
+      promotedFrom: { service: 'staging', commit: stagingCommit }
+    });
+    expect(serverFile('production', 'dist/main.js')).toBe('tested');
+    expect(serverFile('production', 'gpd-build.json')).toBe(serverFile('staging', 'gpd-build.json'));
+    const manifest = JSON.parse(serverFile('production', '.gpd-manifest.json'));
+    expect(manifest).toMatchObject({ service: 'production', config: { env: { APP_ENV: 'production' } } });
+    
+    // Nothing new to promote
+    const again = gpd('promote staging production');
+    expect(again.events.find(event => event.event === 'result')).toMatchObject({ released: false });
+  });
+  
+  test('gpd promote refuses a release that was never verified', () => {
+    expect(gpd('deploy staging').status).toBe(0);
+    rmSync(join(env.workspaceDir, 'deploy', 'staging', '.git', 'gpd-verified.json'));
+    
+    const { events, status } = gpd('promote staging production');
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'error')?.message).toContain('was never verified healthy');
+    expect(existsSync(join(env.workspaceDir, 'deploy', 'production'))).toBe(false);
+  });
+  
+  test('gpd promote restores the target deploy repo when its release is refused', () => {
+    expect(gpd('deploy staging').status).toBe(0);
+    const productionRepo = join(env.workspaceDir, 'deploy', 'production');
+    const refused = {
+      staging: service('staging', 'staging'),
+      production: { ...service('production', 'production'), hooks: { preDeploy: ['false'] } }
+    };
+    writeConfig(env, { services: refused });
+    
+    const { status } = gpd('promote staging production');
+    
+    expect(status).toBe(1);
+    expect(serverCommit(serverConfig(env, 'production'))).toBeUndefined();
+    // Nothing of the promoted tree is left staged in the (still empty) deploy repo
+    expect(execSync('git status --porcelain', { cwd: productionRepo, encoding: 'utf-8' })).toBe('');
+    expect(existsSync(join(productionRepo, 'dist', 'main.js'))).toBe(false);
+    expect(JSON.parse(readFileSync(join(productionRepo, '.git', 'gpd-staged.json'), 'utf-8'))).toEqual([]);
+    
+    writeConfig(env, { services: { ...refused, production: service('production', 'production') } });
+    const retry = gpd('promote staging production');
+    expect(retry.status).toBe(0);
+    expect(serverFile('production', 'dist/main.js')).toBe('tested');
+  });
+  
+  test('a release without an install status is not recorded as verified', () => {
+    rmSync(join(bareRepo('staging'), 'hooks', 'post-receive'));
+    const deploy = gpd('deploy staging');
+    expect(deploy.status).toBe(0);
+    expect(deploy.events.find(event => event.event === 'warning')?.message).toContain('No install status on staging');
+    expect(existsSync(join(env.workspaceDir, 'deploy', 'staging', '.git', 'gpd-verified.json'))).toBe(false);
+    
+    const { events, status } = gpd('promote staging production');
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'error')?.message).toContain('Cannot confirm what staging runs on staging');
+  });
+});
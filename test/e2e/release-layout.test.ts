@@ -0,0 +1,158 @@
+/**
+ * E2E Tests for the releases layout (releases/<timestamp>-<sha> + current symlink)
+ * 
+ * Runs `gpd install` locally against a bare repo. Uses the docker process manager
+ * with a fake `docker` binary on PATH, so no npm install or running process is needed.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync, readdirSync, readlinkSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-releases');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+const SERVICE_NAME = 'releases-test-service';
+
+const binDir = join(TEST_DIR, 'bin');
+const workDir = join(TEST_DIR, 'work');
+const bareRepo = join(TEST_DIR, 'repo.git');
+const targetDir = join(TEST_DIR, 'target');
+
+/**
+ * Execute gpd install like the post-receive hook does
+ */
+function gpdInstall(): string {
+  return execSync(`node "${GPD_CLI}" install ${SERVICE_NAME}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      FORCE_COLOR: '0',
+      PATH: `${binDir}:${process.env.PATH}`,
+      GPD_TARGET_DIR: targetDir,
+      GPD_GIT_DIR: bareRepo,
+      GPD_SERVICE: SERVICE_NAME
+    }
+  });
+}
+
+/**
+ * Commit a version of the app and push it to the bare repo (what `gpd release` would do)
+ * @returns Pushed commit hash
+ */
+function pushVersion(version: string): string {
+  writeFileSync(join(workDir, 'VERSION'), version);
+  execSync('git add -A', { cwd: workDir });
+  execSync(`git -c user.name=test -c user.email=test@example.com commit -q -m "deploy ${version}"`, { cwd: workDir });
+  execSync(`git push -q -f "${bareRepo}" HEAD:master`, { cwd: workDir });
+  return execSync('git rev-parse HEAD', { cwd: workDir, encoding: 'utf-8' }).trim();
+}
+
+/**
+ * Create work repo with config, bare repo and fake docker binary
+ */
+function setup(): void {
+  mkdirSync(binDir, { recursive: true });
+  writeFileSync(join(binDir, 'docker'), '#!/bin/sh\nexit 0\n');
+  chmodSync(join(binDir, 'docker'), 0o755);
+  
+  mkdirSync(workDir, { recursive: true });
+  writeFileSync(join(workDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      [SERVICE_NAME]: {
+        sourceDir: '.',
+        deployRepo: 'deploy',
+        artifacts: ['docker-compose.yml'],
+        processManager: 'docker',
+        processName: SERVICE_NAME,
+        environment: 'production',
+        layout: 'releases',
+        keepReleases: 2,
+        env: { PORT: 3000 },
+        server: {
+          host: 'deploy@localhost',
+          targetDir: '/opt/releases-test-service',
+          bareRepo: '/git/releases-test-service.git'
+        }
+      }
+    }
+  }, null, 2));
+  writeFileSync(join(workDir, 'docker-compose.yml'), 'services:\n  app:\n    build: .\n');
+  execSync('git init -q -b master', { cwd: workDir });
+  execSync(`git init -q --bare -b master "${bareRepo}"`);
+}
+
+/**
+ * Resolve the release directory `current` points to
+ */
+function currentRelease(): string {
+  return readlinkSync(join(targetDir, 'current'));
+}
+
+describe('Releases Layout', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(targetDir, { recursive: true });
+    setup();
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd install checks out into a release dir and links current', () => {
+    const commit = pushVersion('1');
+    
+    gpdInstall();
+    
+    expect(currentRelease()).toMatch(new RegExp(`^releases/\\d{17}-${commit.substring(0, 7)}$`));
+    expect(readFileSync(join(targetDir, 'current', 'VERSION'), 'utf-8')).toBe('1');
+    expect(readFileSync(join(targetDir, 'current', '.env'), 'utf-8')).toContain('PORT=3000');
+    expect(existsSync(join(targetDir, 'VERSION'))).toBe(false);
+    expect(readlinkSync(join(targetDir, 'current', 'logs'))).toBe(join(targetDir, 'logs'));
+    
+    const status = JSON.parse(readFileSync(join(targetDir, '.gpd-install.json'), 'utf-8'));
+    expect(status).toMatchObject({ commit, success: true });
+  });
+  
+  test('gpd install keeps only keepReleases releases', () => {
+    // Installs within the same second must still be pruned oldest first
+    for (const version of ['1', '2', '3']) {
+      pushVersion(version);
+      gpdInstall();
+    }
+    
+    const releases = readdirSync(join(targetDir, 'releases')).sort();
+    expect(releases).toHaveLength(2);
+    expect(releases).toContain(currentRelease().replace('releases/', ''));
+    expect(releases.map(name => readFileSync(join(targetDir, 'releases', name, 'VERSION'), 'utf-8'))).toEqual(['2', '3']);
+    expect(readFileSync(join(targetDir, 'current', 'VERSION'), 'utf-8')).toBe('3');
+  });
+
+  
+  test('gpd install reuses the release of a previously installed commit', () => {
+    const first = pushVersion('1');
+    gpdInstall();
+    const firstRelease = currentRelease();
+    pushVersion('2');
+    gpdInstall();
+    
+    execSync(`git push -q -f "${bareRepo}" ${first}:master`, { cwd: workDir });
+    const output = gpdInstall();
+    
+    expect(output).toContain('Reusing installed release');
+    expect(currentRelease()).toBe(firstRelease);
+    expect(readFileSync(join(targetDir, 'current', 'VERSION'), 'utf-8')).toBe('1');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * E2E Tests for gpd rollback across multiple servers
+ * 
+ * The "servers" are local bare repos whose post-receive hook writes the install status (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig, writeBuild, createServer, failInstallFile, rejectPushes, serverCommit, headCommit } from './helpers.js';
+
+const env = createTestEnv('rollback');
+const deployRepo = join(env.workspaceDir, 'deploy', 'api');
+const servers = ['web-1', 'web-2'].map(name => serverConfig(env, name));
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+function server(name: string) {
+  return servers.find(server => server.name === name)!;
+}
+
+/**
+ * Deploy a new build and return its deploy repo commit
+ */
+function deploy(build: string): string {
+  writeBuild(env, build);
+  expect(gpd('deploy api').status).toBe(0);
+  return headCommit(deployRepo);
+}
+
+describe('Rollback', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    for (const server of servers) {
+      createServer(server, { installStatus: true });
+    }
+    writeConfig(env, { services: { api: serviceConfig({ servers }) } });
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd rollback converges every server, including a subset rolled back earlier', () => {
+    const first = deploy('v1');
+    const second = deploy('v2');
+    
+    const subset = gpd(`rollback api ${first} --server web-1 --force`);
+    expect(subset.status).toBe(0);
+    expect(serverCommit(server('web-1'))).toBe(first);
+    expect(serverCommit(server('web-2'))).toBe(second);
+    // Local deploy repo still matches the servers that were not rolled back
+    expect(headCommit(deployRepo)).toBe(second);
+    
+    const { events, status } = gpd(`rollback api ${first} --force`);
+    
+    expect(status).toBe(0);
+    expect(events.filter(event => event.event === 'server').map(event => [event.server, event.status])).toEqual([
+      ['web-1', 'rolledBack'],
+      ['web-2', 'rolledBack']
+    ]);
+    expect(events.find(event => event.event === 'result')).toMatchObject({ success: true, rolledBack: true, from: second, commitHash: first });
+    expect(serverCommit(server('web-1'))).toBe(first);
+    expect(serverCommit(server('web-2'))).toBe(first);
+  });
+  
+  test('gpd rollback reports servers that did not converge', () => {
+    const first = deploy('v1');
+    const second = deploy('v2');
+    rejectPushes(server('web-2'));
+    
+    const { events, status } = gpd(`rollback api ${first} --force`);
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'server' && event.server === 'web-2')).toMatchObject({ status: 'rollbackFailed' });
+    const result = events.find(event => event.event === 'result');
+    expect(result).toMatchObject({ success: false });
+    expect(result?.serverResults).toEqual([
+      { server: 'web-1', status: 'rolledBack', commitHash: first },
+      expect.objectContaining({ server: 'web-2', status: 'failed', commitHash: second })
+    ]);
+    // Not reset while a server still runs the newer release
+    expect(headCommit(deployRepo)).toBe(second);
+  });
+  
+  test('gpd rollback warns about servers without an install status but does not fail', () => {
+    const first = deploy('v1');
+    deploy('v2');
+    // A custom post-receive hook that does not run gpd install
+    rmSync(join(server('web-2').bareRepo, 'hooks', 'post-receive'));
+    rmSync(join(server('web-2').targetDir, '.gpd-install.json'));
+    
+    const { events, status } = gpd(`rollback api ${first} --force`);
+    
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'warning')?.message).toContain('No install status on web-2');
+    expect(events.find(event => event.event === 'result')).toMatchObject({
+      success: true,
+      serverResults: [
+        { server: 'web-1', status: 'rolledBack', commitHash: first },
+        { server: 'web-2', status: 'unverified' }
+      ]
+    });
+    expect(serverCommit(server('web-2'))).toBe(first);
+    expect(headCommit(deployRepo)).toBe(first);
+  });
+  
+  test('gpd rollback checks the install status, not just the pushed commit', () => {
+    const first = deploy('v1');
+    deploy('v2');
+    writeFileSync(failInstallFile(server('web-2')), '');
+    
+    const { events, status } = gpd(`rollback api ${first} --force`);
+    
+    expect(status).toBe(1);
+    // The bare repo got the commit, but the install did not succeed
+    expect(serverCommit(server('web-2'))).toBe(first);
+    expect(events.find(event => event.event === 'result')?.serverResults).toEqual([
+      { server: 'web-1', status: 'rolledBack', commitHash: first },
+      { server: 'web-2', status: 'failed', commitHash: first, error: 'install failed: npm install failed' }
+    ]);
+    
+    // Not "already at target" while an install failed
+    const retry = gpd(`rollback api ${first} --force`);
+    expect(retry.events.find(event => event.event === 'result')).toMatchObject({ success: false, rolledBack: true });
+  });
+  
+  test('gpd rollback --revert releases the target tree on top of the history', () => {
+    const first = deploy('v1');
+    const second = deploy('v2');
+    
+    const { events, status } = gpd(`rollback api ${first} --revert --force`);
+    
+    expect(status).toBe(0);
+    expect(events.find(event => event.event === 'reverted')).toMatchObject({ commit: first });
+    const result = events.find(event => event.event === 'result');
+    expect(result).toMatchObject({ success: true, revertedTo: first });
+    for (const server of servers) {
+      expect(serverCommit(server)?.startsWith(result?.commitHash)).toBe(true);
+      expect(serverCommit(server, 'HEAD~1')).toBe(second);
+      expect(execSync(`git --git-dir="${server.bareRepo}" show HEAD:dist/main.js`, { encoding: 'utf-8' })).toBe('v1');
+      expect(execSync(`git --git-dir="${server.bareRepo}" log -1 --format=%s`, { encoding: 'utf-8' })).toMatch(/^revert: api to [0-9a-f]{7} @ /);
+    }
+    
+    // Nothing left to revert
+    const again = gpd(`rollback api ${first} --revert --force`);
+    expect(again.events.find(event => event.event === 'result')).toMatchObject({ rolledBack: false });
+  });
+  
+  test('gpd rollback --revert restores the deploy repo when the release is aborted', () => {
+    const first = deploy('v1');
+    const second = deploy('v2');
+    const configPath = join(env.workspaceDir, '.git-deploy.json');
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    config.services.api.hooks = { preDeploy: ['false'] };
+    writeFileSync(configPath, JSON.stringify(config, null, 2));
+    
+    const { status } = gpd(`rollback api ${first} --revert --force`);
+    
+    expect(status).toBe(1);
+    expect(headCommit(deployRepo)).toBe(second);
+    expect(execSync('git status --porcelain', { cwd: deployRepo, encoding: 'utf-8' })).toBe('');
+    expect(readFileSync(join(deployRepo, 'dist', 'main.js'), 'utf-8')).toBe('v2');
+  });
+  
+  test('gpd rollback rejects unknown servers', () => {
+    const first = deploy('v1');
+    deploy('v2');
+    
+    const { events, status } = gpd(`rollback api ${first} --server web-3 --force`);
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'error')?.message).toContain('Unknown server(s): web-3');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * E2E Tests for rollout strategies across multiple servers (batches, halt on failure)
+ * 
+ * The "servers" are local bare repos (see helpers.ts). A server fails by rejecting the push (pre-receive hook).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig as writeGpdConfig, writeBuild, createServer, rejectPushes, serverCommit } from './helpers.js';
+
+const env = createTestEnv('rollout');
+const SERVERS = ['web-1', 'web-2', 'web-3'];
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+/**
+ * Whether a server received a push
+ */
+function hasCommit(server: string): boolean {
+  return serverCommit(serverConfig(env, server)) !== undefined;
+}
+
+/**
+ * Make a server reject pushes
+ */
+function failServer(server: string): void {
+  rejectPushes(serverConfig(env, server));
+}
+
+function writeConfig(rollout: Record<string, unknown>): void {
+  const servers = SERVERS.map(name => serverConfig(env, name));
+  writeGpdConfig(env, { services: { api: serviceConfig({ servers, rollout }) } });
+}
+
+/**
+ * Status of each server in the deploy result
+ */
+function serverStatuses(events: Array<Record<string, any>>): string[][] {
+  const result = events.find(event => event.event === 'result');
+  return result?.serverResults.map((r: Record<string, any>) => [r.server, r.status]);
+}
+
+describe('Rollout strategies', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    for (const server of SERVERS) {
+      createServer(serverConfig(env, server));
+    }
+    writeBuild(env, 'v1');
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('rolling rollout deploys every batch in order', () => {
+    writeConfig({ strategy: 'rolling', batchSize: 2 });
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(0);
+    expect(events.filter(event => event.event === 'server').map(event => [event.server, event.status])).toEqual([
+      ['web-1', 'deployed'],
+      ['web-2', 'deployed'],
+      ['web-3', 'deployed']
+    ]);
+    expect(events.find(event => event.event === 'result')).toMatchObject({ success: true, strategy: 'rolling' });
+    expect(SERVERS.every(hasCommit)).toBe(true);
+  });
+  
+  test('a failed batch halts the rollout and skips the remaining servers', () => {
+    writeConfig({ strategy: 'rolling', batchSize: 2 });
+    failServer('web-1');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    // The rest of the failed batch still deploys, the next batch never starts
+    expect(serverStatuses(events)).toEqual([['web-1', 'failed'], ['web-2', 'deployed'], ['web-3', 'skipped']]);
+    expect(events.filter(event => event.event === 'server').map(event => event.server)).toEqual(['web-1', 'web-2']);
+    expect(events.find(event => event.event === 'result')?.message).toContain('Rollout halted, not deployed to: web-3');
+    expect(SERVERS.map(hasCommit)).toEqual([false, true, false]);
+  });
+  
+  test('batch size 1 halts after the first failing server', () => {
+    writeConfig({ strategy: 'rolling' });
+    failServer('web-2');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    expect(serverStatuses(events)).toEqual([['web-1', 'deployed'], ['web-2', 'failed'], ['web-3', 'skipped']]);
+    expect(SERVERS.map(hasCommit)).toEqual([true, false, false]);
+  });
+  
+  test('a failed canary keeps the release off the other servers', () => {
+    writeConfig({ strategy: 'canary', canaryCount: 1 });
+    failServer('web-1');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    expect(serverStatuses(events)).toEqual([['web-1', 'failed'], ['web-2', 'skipped'], ['web-3', 'skipped']]);
+    expect(SERVERS.some(hasCommit)).toBe(false);
+  });
+  
+  test('all-at-once deploys every server even if one fails', () => {
+    writeConfig({ strategy: 'all-at-once' });
+    failServer('web-3');
+    
+    const { events, status } = gpd('deploy api');
+    
+    expect(status).toBe(1);
+    expect(serverStatuses(events)).toEqual([['web-1', 'deployed'], ['web-2', 'deployed'], ['web-3', 'failed']]);
+    expect(SERVERS.map(hasCommit)).toEqual([true, true, false]);
+  });
+});
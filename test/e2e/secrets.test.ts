@@ -0,0 +1,110 @@
+/**
+ * E2E Tests for the encrypted secrets store (gpd secrets)
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-secrets');
+const KEY_FILE = join(TEST_DIR, 'keys', 'secrets.key');
+const SECRETS_FILE = join(TEST_DIR, '.git-deploy.secrets.json');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+
+/**
+ * Run gpd with the test key file, optionally piping input to stdin
+ */
+function gpd(args: string, input?: string): { stdout: string; stderr: string; status: number | null } {
+  const { GPD_SECRETS_KEY, ...env } = process.env;
+  const result = spawnSync('sh', ['-c', `node "${GPD_CLI}" ${args}`], {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    input: input ?? '',
+    env: { ...env, FORCE_COLOR: '0', GPD_SECRETS_KEY_FILE: KEY_FILE }
+  });
+  return { stdout: result.stdout, stderr: result.stderr, status: result.status };
+}
+
+describe('Secrets', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify({
+      services: {
+        api: {
+          sourceDir: '.',
+          deployRepo: 'deploy',
+          processName: 'api',
+          env: { DB_PASSWORD: '${secret:DB_PASSWORD}' },
+          server: { host: 'deploy@example.com', targetDir: '/opt/api', bareRepo: '/git/api.git' }
+        }
+      }
+    }, null, 2));
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd secrets set creates a key and stores values encrypted', () => {
+    expect(gpd('secrets set DB_PASSWORD', 's3cr3t-pw\n').status).toBe(0);
+    expect(gpd('secrets set API_TOKEN tok-123').status).toBe(0);
+    
+    expect(statSync(KEY_FILE).mode & 0o777).toBe(0o600);
+    const content = readFileSync(SECRETS_FILE, 'utf-8');
+    expect(content).not.toContain('s3cr3t-pw');
+    expect(content).not.toContain('tok-123');
+    expect(Object.keys(JSON.parse(content).secrets)).toEqual(['API_TOKEN', 'DB_PASSWORD']);
+    
+    const list = JSON.parse(gpd('secrets list --json').stdout.trim());
+    expect(list.names).toEqual(['API_TOKEN', 'DB_PASSWORD']);
+    
+    const { stdout, status } = gpd('secrets get DB_PASSWORD');
+    expect(status).toBe(0);
+    expect(stdout.trim()).toBe('s3cr3t-pw');
+  });
+  
+  test('gpd secrets rotate re-encrypts with a new key', () => {
+    gpd('secrets set DB_PASSWORD s3cr3t-pw');
+    const before = JSON.parse(readFileSync(SECRETS_FILE, 'utf-8'));
+    const oldKey = readFileSync(KEY_FILE, 'utf-8');
+    
+    const { status } = gpd('secrets rotate');
+    
+    expect(status).toBe(0);
+    const after = JSON.parse(readFileSync(SECRETS_FILE, 'utf-8'));
+    expect(after.keyId).not.toBe(before.keyId);
+    expect(readFileSync(KEY_FILE, 'utf-8')).not.toBe(oldKey);
+    expect(readFileSync(`${KEY_FILE}.old`, 'utf-8')).toBe(oldKey);
+    expect(gpd('secrets get DB_PASSWORD').stdout.trim()).toBe('s3cr3t-pw');
+  });
+  
+  test('a wrong key is rejected', () => {
+    gpd('secrets set DB_PASSWORD s3cr3t-pw');
+    writeFileSync(KEY_FILE, Buffer.alloc(32, 1).toString('base64'));
+    
+    const { stderr, status } = gpd('secrets get DB_PASSWORD');
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('Secrets key does not match');
+  });
+  
+  test('loading a config with an unknown secret reference fails', () => {
+    gpd('secrets set OTHER value');
+    
+    const { stderr, status } = gpd('history api');
+    
+    expect(status).toBe(1);
+    expect(stderr).toContain('Secret DB_PASSWORD is not set');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * E2E Tests for artifact globs, exclude and .gpdignore (gpd stage)
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync, statSync, utimesSync } from 'fs';
+import { join, dirname } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-stage');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+const deployRepo = join(TEST_DIR, 'deploy');
+
+/**
+ * Run gpd in the test workspace
+ */
+function gpd(args: string): string {
+  return execSync(`node "${GPD_CLI}" ${args}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: { ...process.env, FORCE_COLOR: '0' }
+  });
+}
+
+function writeFile(path: string, content: string = ''): void {
+  mkdirSync(dirname(join(TEST_DIR, path)), { recursive: true });
+  writeFileSync(join(TEST_DIR, path), content);
+}
+
+describe('Stage Artifacts', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    writeFile('.git-deploy.json', JSON.stringify({
+      services: {
+        api: {
+          sourceDir: '.',
+          deployRepo: 'deploy',
+          artifacts: ['dist/**/*.js', 'package.json', 'config/'],
+          exclude: ['dist/test/'],
+          processName: 'api',
+          server: { host: 'deploy@example.com', targetDir: '/opt/api', bareRepo: '/git/api.git' }
+        }
+      }
+    }, null, 2));
+    writeFile('.gpdignore', '# source maps\n*.map\nconfig/local.*\n');
+    writeFile('package.json', '{}');
+    writeFile('dist/index.js');
+    writeFile('dist/index.js.map');
+    writeFile('dist/index.d.ts');
+    writeFile('dist/lib/util.js');
+    writeFile('dist/test/util.test.js');
+    writeFile('config/default.json');
+    writeFile('config/local.json');
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd stage copies matching files minus exclude and .gpdignore', () => {
+    gpd('stage api');
+    
+    const staged = execSync('find . -type f -not -path "./.git/*" | sort', { cwd: deployRepo, encoding: 'utf-8' });
+    expect(staged.trim().split('\n')).toEqual([
+      './.gpd-manifest.json',
+      './config/default.json',
+      './dist/index.js',
+      './dist/lib/util.js',
+      './gpd-build.json',
+      './package.json'
+    ]);
+  });
+  
+  test('gpd stage removes files that are no longer built', () => {
+    gpd('stage api');
+    rmSync(join(TEST_DIR, 'dist', 'lib'), { recursive: true });
+    
+    gpd('stage api');
+    
+    expect(existsSync(join(deployRepo, 'dist', 'lib', 'util.js'))).toBe(false);
+    expect(existsSync(join(deployRepo, 'dist', 'index.js'))).toBe(true);
+  });
+  
+  test('gpd stage only copies changed files and reports the changes', () => {
+    gpd('stage api');
+    const unchanged = join(deployRepo, 'dist', 'lib', 'util.js');
+    utimesSync(unchanged, new Date('2020-01-01'), new Date('2020-01-01'));
+    writeFile('dist/index.js', 'console.log(2);');
+    writeFile('dist/new.js');
+    
+    // Drop package.json from the artifacts: it was staged before, so it gets deleted
+    const config = JSON.parse(readFileSync(join(TEST_DIR, '.git-deploy.json'), 'utf-8'));
+    config.services.api.artifacts = ['dist/**/*.js', 'config/'];
+    writeFileSync(join(TEST_DIR, '.git-deploy.json'), JSON.stringify(config));
+    
+    const output = gpd('stage api --json');
+    
+    const staged = JSON.parse(output.trim().split('\n')[0]);
+    expect(staged).toMatchObject({ event: 'staged', files: 4, added: 1, modified: 1, deleted: 1 });
+    expect(statSync(unchanged).mtime.getFullYear()).toBe(2020);
+    expect(readFileSync(join(deployRepo, 'dist', 'index.js'), 'utf-8')).toBe('console.log(2);');
+    expect(existsSync(join(deployRepo, 'package.json'))).toBe(false);
+  });
+  
+  test('gpd stage stamps the source commit into gpd-build.json', () => {
+    const git = (args: string) => execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd: TEST_DIR, encoding: 'utf-8' }).trim();
+    git('init -q -b main');
+    writeFile('.gitignore', 'deploy/\n');
+    git('add -A');
+    git('commit -q -m source');
+    const sourceCommit = git('rev-parse HEAD');
+    
+    gpd('stage api');
+    const buildInfoPath = join(deployRepo, 'gpd-build.json');
+    const buildInfo = JSON.parse(readFileSync(buildInfoPath, 'utf-8'));
+    expect(buildInfo).toMatchObject({ sourceCommit, sourceBranch: 'main', dirty: false });
+    expect(buildInfo.gpdVersion).toMatch(/^\d+\.\d+\.\d+/);
+    
+    // Unchanged source: the stamp (and its timestamp) stays, so there is nothing to release
+    gpd('stage api');
+    expect(JSON.parse(readFileSync(buildInfoPath, 'utf-8')).builtAt).toBe(buildInfo.builtAt);
+    
+    writeFile('dist/index.js', 'console.log(2);');
+    const staged = JSON.parse(gpd('stage api --json').trim().split('\n')[0]);
+    expect(staged).toMatchObject({ sourceCommit, dirty: true });
+    expect(JSON.parse(readFileSync(buildInfoPath, 'utf-8')).dirty).toBe(true);
+  });
+  
+  test('dry run lists the exact file set', () => {
+    const output = gpd('deploy api --dry-run --json');
+    
+    const staged = output.trim().split('\n').map(line => JSON.parse(line)).find(event => event.event === 'staged');
+    expect(staged).toMatchObject({ dryRun: true, missing: [] });
+    expect(staged.files).toEqual(['config/default.json', 'dist/index.js', 'dist/lib/util.js', 'package.json']);
+    expect(existsSync(deployRepo)).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * E2E Tests for live `gpd status`
+ * 
+ * The "servers" are local bare repos and target dirs (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, findEvent, serverConfig, writeConfig, createServer } from './helpers.js';
+
+const env = createTestEnv('status');
+const SERVICE_NAME = 'status-test-service';
+const servers = ['web-1', 'web-2'].map(name => serverConfig(env, name));
+
+const deployRepo = join(env.workspaceDir, 'deploy');
+
+/**
+ * Run gpd status --json in the workspace and return its result
+ */
+function gpdStatusJson(): any {
+  const { events, status } = runGpd(env, 'status');
+  expect(status).toBe(0);
+  return findEvent(events, 'result');
+}
+
+/**
+ * Commit a file in the local deploy repo and return the commit hash
+ */
+function commitVersion(version: string): string {
+  writeFileSync(join(deployRepo, 'VERSION'), version);
+  execSync('git add -A', { cwd: deployRepo });
+  execSync(`git -c user.name=test -c user.email=test@example.com commit -q -m "v${version}"`, { cwd: deployRepo });
+  return execSync('git rev-parse HEAD', { cwd: deployRepo, encoding: 'utf-8' }).trim();
+}
+
+/**
+ * Push the deploy repo's HEAD to a server's bare repo
+ */
+function pushTo(name: string): void {
+  execSync(`git push -q -f "${servers.find(server => server.name === name)!.bareRepo}" HEAD:master`, { cwd: deployRepo });
+}
+
+/**
+ * Write a server's install status as `gpd install` does
+ */
+function installed(name: string, commit: string, success: boolean = true): void {
+  const server = servers.find(server => server.name === name)!;
+  writeFileSync(join(server.targetDir, '.gpd-install.json'), JSON.stringify({ commit, success, timestamp: new Date().toISOString() }));
+}
+
+describe('Status Command', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    for (const server of servers) {
+      mkdirSync(server.targetDir, { recursive: true });
+      createServer(server);
+    }
+    // web-1 runs gpdd (our own pid stands in for the daemon), web-2 has no pid file
+    writeFileSync(join(servers[0].targetDir, '.gpdd.pid'), String(process.pid));
+    
+    writeConfig(env, {
+      services: {
+        [SERVICE_NAME]: {
+          sourceDir: '.',
+          deployRepo: 'deploy',
+          processManager: 'gpdd',
+          processName: SERVICE_NAME,
+          environment: 'production',
+          servers
+        }
+      }
+    });
+    
+    mkdirSync(deployRepo, { recursive: true });
+    execSync('git init -q -b master', { cwd: deployRepo });
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('gpd status reports commits, process state and drift per server', () => {
+    commitVersion('1');
+    pushTo('web-2');
+    const latest = commitVersion('2');
+    pushTo('web-1');
+    
+    const { services } = gpdStatusJson();
+    expect(services).toHaveLength(1);
+    
+    const [status] = services;
+    expect(status).toMatchObject({ service: SERVICE_NAME, processManager: 'gpdd', localCommit: latest, drift: true });
+    
+    const [web1, web2] = status.servers;
+    // Nothing confirms the pushed commits were installed
+    expect(web1).toMatchObject({ server: 'web-1', reachable: true, commit: latest, commitVerified: false, upToDate: true });
+    expect(web1.process.state).toBe('running');
+    expect(web1.process.uptime).toBeGreaterThanOrEqual(0);
+    expect(web2).toMatchObject({ server: 'web-2', reachable: true, upToDate: false });
+    expect(web2.process.state).toBe('stopped');
+  });
+  
+  test('gpd status reports the commit of the install status, not the bare repo HEAD', () => {
+    const first = commitVersion('1');
+    pushTo('web-1');
+    pushTo('web-2');
+    installed('web-1', first);
+    const second = commitVersion('2');
+    // Pushed, but the install has not run (or failed) yet
+    pushTo('web-1');
+    pushTo('web-2');
+    installed('web-2', second, false);
+    
+    const [status] = gpdStatusJson().services;
+    
+    const [web1, web2] = status.servers;
+    expect(web1).toMatchObject({ server: 'web-1', commit: first, commitVerified: true, upToDate: false });
+    expect(web2).toMatchObject({ server: 'web-2', commit: second, commitVerified: false, upToDate: true });
+    expect(status.drift).toBe(true);
+    
+    const text = runGpd(env, 'status', { json: false }).stdout;
+    expect(text).toContain(`web-1 ${first.substring(0, 7)} (not latest)`);
+    expect(text).toContain(`web-2 ${second.substring(0, 7)} (unverified)`);
+  });
+  
+  test('gpd status reports no drift when all servers run the same commit', () => {
+    commitVersion('1');
+    pushTo('web-1');
+    pushTo('web-2');
+    
+    const [status] = gpdStatusJson().services;
+    expect(status.drift).toBe(false);
+    expect(status.servers.every((server: { upToDate: boolean }) => server.upToDate)).toBe(true);
+  });
+  
+  test('gpd status shows the source commit of each deployment', () => {
+    const buildInfo = { sourceCommit: 'a'.repeat(40), sourceBranch: 'main', dirty: false, builtAt: new Date().toISOString(), gpdVersion: '1.0.0', deployer: 'test' };
+    writeFileSync(join(deployRepo, 'gpd-build.json'), JSON.stringify(buildInfo));
+    commitVersion('1');
+    pushTo('web-1');
+    
+    const [web1, web2] = gpdStatusJson().services[0].servers;
+    expect(web1.build).toEqual(buildInfo);
+    expect(web2.build).toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * E2E Tests for the systemd process manager
+ * 
+ * Runs `gpd install` locally against a bare repo, with fake `sudo`, `systemctl`, `journalctl`
+ * and `npm` binaries on PATH: the unit file is captured instead of written to /etc/systemd,
+ * and systemctl answers with scripted unit states.
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, writeFileSync, rmSync, readFileSync, chmodSync } from 'fs';
+import { join } from 'path';
+
+const TEST_DIR = join(process.cwd(), 'test', 'e2e', 'tmp-systemd');
+const GPD_CLI = join(process.cwd(), 'dist', 'index.js');
+const SERVICE_NAME = 'systemd-test-service';
+
+const binDir = join(TEST_DIR, 'bin');
+const unitFile = join(TEST_DIR, 'unit.service');
+const systemctlLog = join(TEST_DIR, 'systemctl.log');
+const statesFile = join(TEST_DIR, 'states');
+const restartsFile = join(TEST_DIR, 'restarts');
+const bareRepo = join(TEST_DIR, 'repo.git');
+const targetDir = join(TEST_DIR, 'target');
+
+/**
+ * Execute gpd install like the post-receive hook does
+ */
+function gpdInstall(): string {
+  return execSync(`node "${GPD_CLI}" install ${SERVICE_NAME}`, {
+    cwd: TEST_DIR,
+    encoding: 'utf-8',
+    stdio: 'pipe',
+    env: {
+      ...process.env,
+      FORCE_COLOR: '0',
+      USER: 'deploy',
+      PATH: `${binDir}:${process.env.PATH}`,
+      GPD_TARGET_DIR: targetDir,
+      GPD_GIT_DIR: bareRepo,
+      GPD_SERVICE: SERVICE_NAME
+    }
+  });
+}
+
+function writeScript(name: string, content: string): void {
+  writeFileSync(join(binDir, name), content);
+  chmodSync(join(binDir, name), 0o755);
+}
+
+/**
+ * Fake binaries; systemctl reports the next line of the states/restarts files per poll (the last one repeats)
+ */
+function setupFakeSystemd(): void {
+  mkdirSync(binDir, { recursive: true });
+  writeScript('sudo', `#!/bin/sh\nif [ "$1" = tee ]; then cat > "${unitFile}"; exit 0; fi\nexec "$@"\n`);
+  writeScript('systemctl', `#!/bin/sh
+echo "$@" >> "${systemctlLog}"
+next() { value=$(head -n 1 "$1"); [ "$(wc -l < "$1")" -gt 1 ] && sed -i 1d "$1"; echo "$value"; }
+case "$1" in
+  is-active) state=$(next "${statesFile}"); echo "$state"; [ "$state" = active ] ;;
+  show) next "${restartsFile}" ;;
+esac
+`);
+  writeScript('journalctl', '#!/bin/sh\nexit 0\n');
+  writeScript('npm', '#!/bin/sh\nexit 0\n');
+}
+
+/**
+ * Unit states (is-active) and restart counters (NRestarts) systemctl reports, one per poll
+ */
+function scriptSystemd(states: string[], restarts: string[]): void {
+  writeFileSync(statesFile, states.join('\n') + '\n');
+  writeFileSync(restartsFile, restarts.join('\n') + '\n');
+}
+
+/**
+ * Create bare repo with a deployed commit (what `gpd release` would push)
+ */
+function setupBareRepo(serviceConfig: Record<string, unknown>): void {
+  const workDir = join(TEST_DIR, 'work');
+  mkdirSync(workDir, { recursive: true });
+  
+  writeFileSync(join(workDir, '.git-deploy.json'), JSON.stringify({
+    services: {
+      [SERVICE_NAME]: {
+        sourceDir: '.',
+        deployRepo: 'deploy',
+        artifacts: ['dist'],
+        processManager: 'systemd',
+        processName: SERVICE_NAME,
+        server: {
+          host: 'deploy@localhost',
+          targetDir: '/opt/systemd-test-service',
+          bareRepo: '/git/systemd-test-service.git'
+        },
+        ...serviceConfig
+      }
+    }
+  }, null, 2));
+  mkdirSync(join(workDir, 'dist'), { recursive: true });
+  writeFileSync(join(workDir, 'dist', 'index.js'), 'console.log("ok")\n');
+  
+  execSync('git init -q', { cwd: workDir });
+  execSync('git add -A', { cwd: workDir });
+  execSync('git -c user.name=test -c user.email=test@example.com commit -q -m "deploy"', { cwd: workDir });
+  execSync(`git clone -q --bare "${workDir}" "${bareRepo}"`);
+}
+
+describe('Systemd Process Manager', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+    mkdirSync(targetDir, { recursive: true });
+    setupFakeSystemd();
+  });
+  
+  afterAll(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+  
+  test('gpd install writes the unit, restarts it and waits until it stays active', () => {
+    setupBareRepo({ environment: 'production', env: { PORT: 3000 }, systemdAfterServices: ['postgresql.service', 'redis.service'] });
+    scriptSystemd(['activating', 'active'], ['0']);
+    
+    const output = gpdInstall();
+    
+    expect(output).toContain(`✓ ${SERVICE_NAME} is active`);
+    const unit = readFileSync(unitFile, 'utf-8');
+    expect(unit).toContain('After=network.target postgresql.service redis.service\n');
+    expect(unit).toContain(`EnvironmentFile=-${join(targetDir, '.env')}\n`);
+    expect(unit).toContain('Environment=NODE_ENV=production\n');
+    expect(unit).toContain('User=deploy\nGroup=deploy\n');
+    expect(unit).toContain(`WorkingDirectory=${targetDir}\n`);
+    expect(unit).toContain('ExecStart=/usr/bin/env node dist/index.js\n');
+    
+    const calls = readFileSync(systemctlLog, 'utf-8').trim().split('\n');
+    expect(calls.slice(0, 3)).toEqual(['daemon-reload', `enable ${SERVICE_NAME}`, `restart ${SERVICE_NAME}`]);
+    // Activating, then active twice
+    expect(calls.filter(call => call.startsWith('is-active'))).toHaveLength(3);
+    expect(JSON.parse(readFileSync(join(targetDir, '.gpd-install.json'), 'utf-8'))).toMatchObject({ success: true });
+  });
+  
+  test('gpd install writes a minimal unit without dependencies or NODE_ENV', () => {
+    setupBareRepo({});
+    scriptSystemd(['active'], ['0']);
+    
+    gpdInstall();
+    
+    const unit = readFileSync(unitFile, 'utf-8');
+    expect(unit).toContain('After=network.target\n');
+    // Optional env file: the unit starts even without a .env
+    expect(unit).toContain(`EnvironmentFile=-${join(targetDir, '.env')}\n`);
+    expect(unit).not.toContain('Environment=NODE_ENV');
+  });
+  
+  test('gpd install fails for a unit that crashes and is restarted between polls', () => {
+    setupBareRepo({ environment: 'production' });
+    // Looks active on every poll, but systemd restarts it each time
+    scriptSystemd(['active'], ['1', '2', '3', '4', '5']);
+    
+    expect(() => gpdInstall()).toThrow();
+    
+    const status = JSON.parse(readFileSync(join(targetDir, '.gpd-install.json'), 'utf-8'));
+    expect(status).toMatchObject({ success: false, error: `systemd unit ${SERVICE_NAME} is restarting (crash loop)` });
+  });
+});
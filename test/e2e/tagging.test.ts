@@ -0,0 +1,98 @@
+/**
+ * E2E Tests for release tags (tagging config, --tag/--notes, rollback by tag)
+ * 
+ * The "server" is a local bare repo whose post-receive hook writes the install status (see helpers.ts).
+ * 
+ * Prerequisites:
+ * - Built CLI (npm run build)
+ * 
+ * Run: npm test
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'vitest';
+import { execSync } from 'child_process';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { createTestEnv, resetTestEnv, removeTestEnv, runGpd, serverConfig, serviceConfig, writeConfig as writeGpdConfig, writeBuild, createServer, serverCommit } from './helpers.js';
+
+const env = createTestEnv('tagging');
+const server = serverConfig(env, 'web-1');
+
+function gpd(args: string) {
+  return runGpd(env, args);
+}
+
+function getResult(events: Array<Record<string, any>>): Record<string, any> | undefined {
+  return events.find(event => event.event === 'result');
+}
+
+/**
+ * Deploy a new build of the app
+ */
+function deployVersion(content: string, args: string = ''): Record<string, any> | undefined {
+  writeBuild(env, content);
+  const { events, status } = gpd(`deploy api ${args}`);
+  expect(status).toBe(0);
+  return getResult(events);
+}
+
+function writeConfig(tagging?: string): void {
+  writeGpdConfig(env, {
+    services: {
+      api: serviceConfig({ deployRepo: 'deploy', artifacts: ['dist', 'package.json'], tagging, server })
+    }
+  });
+}
+
+describe('Release Tags', () => {
+  beforeEach(() => {
+    resetTestEnv(env);
+    createServer(server, { installStatus: true });
+    
+    writeFileSync(join(env.workspaceDir, 'package.json'), JSON.stringify({ name: 'api', version: '1.4.2' }));
+  });
+  
+  afterAll(() => removeTestEnv(env));
+  
+  test('tagging "package" tags releases with the package.json version once', () => {
+    writeConfig('package');
+    
+    expect(deployVersion('v1')).toMatchObject({ success: true, tag: 'v1.4.2' });
+    const first = serverCommit(server, 'v1.4.2');
+    
+    // Same version again: released, but not tagged
+    const second = deployVersion('v1-fix');
+    expect(second).toMatchObject({ success: true });
+    expect(second?.tag).toBeUndefined();
+    expect(serverCommit(server, 'v1.4.2')).toBe(first);
+  });
+  
+  test('rollback --list shows tags with release notes and rollback accepts a tag', () => {
+    writeConfig('counter');
+    deployVersion('v1', '--notes "First release"');
+    deployVersion('v2', '--tag hotfix-2 --notes "Fix login"');
+    expect(deployVersion('v3')).toMatchObject({ tag: 'deploy-2' });
+    
+    const list = getResult(gpd('rollback api --list').events);
+    expect(list?.versions.map((version: any) => version.tags)).toEqual([['deploy-2'], ['hotfix-2'], ['deploy-1']]);
+    expect(list?.versions[1].notes).toBe('Fix login');
+    expect(list?.versions[2].notes).toBe('First release');
+    
+    const { events, status } = gpd('rollback api deploy-1 --force');
+    expect(status).toBe(0);
+    expect(getResult(events)).toMatchObject({ rolledBack: true, commitHash: serverCommit(server, 'deploy-1') });
+    expect(serverCommit(server, 'HEAD')).toBe(serverCommit(server, 'deploy-1'));
+  });
+  
+  test('an existing --tag fails before anything is committed', () => {
+    writeConfig();
+    deployVersion('v1', '--tag v1');
+    
+    writeBuild(env, 'v2');
+    const { events, status } = gpd('deploy api --tag v1');
+    
+    expect(status).toBe(1);
+    expect(events.find(event => event.event === 'error')?.message).toContain('Tag v1 already exists');
+    expect(execSync('git rev-list --count HEAD', { cwd: join(env.workspaceDir, 'deploy'), encoding: 'utf-8' }).trim()).toBe('1');
+  });
+});